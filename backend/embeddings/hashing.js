@@ -0,0 +1,37 @@
+const DIMENSIONS = 512;
+
+function tokenize(text) {
+    return String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+// 32-bit FNV-1a hash of a string
+function fnv1a(text) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Feature hashing of words and word pairs. Needs no model or network, so indexing and search work
+// offline, but similarity is lexical rather than semantic: meant for development and tests.
+export class HashingEmbeddingProvider {
+    constructor() {
+        this.name = 'hashing';
+        this.model = `fnv1a-${DIMENSIONS}`;
+    }
+
+    async embed(texts) {
+        return texts.map(text => {
+            const vector = new Array(DIMENSIONS).fill(0);
+            const tokens = tokenize(text);
+            const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+            for (const feature of features) {
+                const hash = fnv1a(feature);
+                vector[hash % DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+            }
+            return vector;
+        });
+    }
+}
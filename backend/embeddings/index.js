@@ -0,0 +1,40 @@
+import { OpenAIEmbeddingProvider } from "./openai.js";
+import { LocalEmbeddingProvider } from "./local.js";
+import { HashingEmbeddingProvider } from "./hashing.js";
+
+/*
+interface EmbeddingProvider {
+    name: string; // 'openai', 'local' or 'hashing'
+    model: string;
+    embed(texts: string[]): Promise<number[][]>; // One vector per text, in order
+}
+*/
+
+// 'openai' (the default), 'local' (ONNX model on the CPU) or 'hashing' (offline development)
+export const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'openai';
+export const EMBEDDING_PROVIDERS = ['openai', 'local', 'hashing'];
+
+// Raised when a collection holds vectors of another provider or model than the configured one
+export class EmbeddingMismatchError extends Error {
+    constructor(stored, provider) {
+        super(stored.provider
+            ? `The index holds ${stored.provider}/${stored.model} vectors but the server embeds with ${provider.name}/${provider.model}; re-index the project or switch the provider back`
+            : `The index predates recorded embedding models; re-index the project to embed it with ${provider.name}/${provider.model}`);
+        this.name = 'EmbeddingMismatchError';
+        this.stored = stored;
+    }
+}
+
+// Provider of the configured kind; EMBEDDING_MODEL overrides its default model
+export function createEmbeddingProvider(kind = EMBEDDING_PROVIDER, model = process.env.EMBEDDING_MODEL) {
+    switch (kind) {
+        case 'openai':
+            return new OpenAIEmbeddingProvider(model);
+        case 'local':
+            return new LocalEmbeddingProvider(model);
+        case 'hashing':
+            return new HashingEmbeddingProvider();
+        default:
+            throw new Error(`Unknown embedding provider "${kind}", expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+    }
+}
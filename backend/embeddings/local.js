@@ -0,0 +1,42 @@
+const DEFAULT_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const BATCH_SIZE = 32;
+
+// Sentence-transformer run on the CPU with ONNX Runtime (transformers.js). Document text never
+// leaves the machine. The model is downloaded from the Hugging Face Hub on first use and cached;
+// set LOCAL_EMBEDDING_MODEL_PATH to a directory holding the model to load it from disk only.
+export class LocalEmbeddingProvider {
+    constructor(model = DEFAULT_MODEL, modelPath = process.env.LOCAL_EMBEDDING_MODEL_PATH) {
+        this.name = 'local';
+        this.model = model;
+        this.modelPath = modelPath;
+        this.extractor = null;
+    }
+
+    // Load the model once, on first use
+    async getExtractor() {
+        if (!this.extractor) {
+            this.extractor = (async () => {
+                const { pipeline, env } = await import('@huggingface/transformers');
+                if (this.modelPath) {
+                    env.localModelPath = this.modelPath;
+                    env.allowRemoteModels = false;
+                }
+                return pipeline('feature-extraction', this.model, { device: 'cpu' });
+            })().catch(error => {
+                this.extractor = null;
+                throw new Error(`Failed to load local embedding model ${this.model}: ${error.message}`);
+            });
+        }
+        return this.extractor;
+    }
+
+    async embed(texts) {
+        const extractor = await this.getExtractor();
+        const embeddings = [];
+        for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+            const output = await extractor(texts.slice(start, start + BATCH_SIZE), { pooling: 'mean', normalize: true });
+            embeddings.push(...output.tolist());
+        }
+        return embeddings;
+    }
+}
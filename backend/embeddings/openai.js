@@ -0,0 +1,39 @@
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+// Inputs per request, well below the API limit of 2048
+const BATCH_SIZE = 100;
+
+// OpenAI embeddings API; document text is sent to OpenAI
+export class OpenAIEmbeddingProvider {
+    constructor(model = DEFAULT_MODEL, apiKey = process.env.VITE_OPENAI_API_KEY) {
+        this.name = 'openai';
+        this.model = model;
+        this.apiKey = apiKey;
+    }
+
+    async embed(texts) {
+        if (!this.apiKey) {
+            throw new Error('OpenAI embeddings need VITE_OPENAI_API_KEY');
+        }
+
+        const embeddings = [];
+        for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+            const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.apiKey}`,
+                },
+                body: JSON.stringify({ model: this.model, input: texts.slice(start, start + BATCH_SIZE) }),
+            });
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}));
+                throw new Error(`OpenAI embeddings failed: ${error.error?.message || `HTTP ${response.status}`}`);
+            }
+
+            const result = await response.json();
+            result.data.sort((a, b) => a.index - b.index).forEach(item => embeddings.push(item.embedding));
+        }
+        return embeddings;
+    }
+}
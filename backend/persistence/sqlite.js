@@ -0,0 +1,153 @@
+import Database from "better-sqlite3";
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+/*
+Entities of the frontend (see BaseEntity in src/lib/types.ts) are stored one table per resource:
+
+CREATE TABLE <table> (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,       -- JSON of every other field
+    created_at TEXT NOT NULL, -- ISO dates
+    updated_at TEXT NOT NULL
+);
+
+Resources list the fields they can be filtered by (GET /api/<resource>?projectId=...); each gets an
+expression index on its JSON value.
+*/
+export const RESOURCES = {
+    projects: { table: 'projects', filterFields: [] },
+    documents: { table: 'documents', filterFields: ['projectId', 'versionGroupId'] },
+    questions: { table: 'questions', filterFields: ['projectId'] },
+    'question-answers': { table: 'question_answers', filterFields: ['questionId', 'documentId'] },
+    users: { table: 'users', filterFields: [] },
+    'document-folders': { table: 'document_folders', filterFields: ['projectId'] },
+    // Answer documents indexed for search, one row per document and project
+    'indexed-documents': { table: 'indexed_documents', filterFields: ['projectId', 'documentId'] },
+    'analysis-results': { table: 'analysis_results', filterFields: ['questionId'] },
+};
+
+export const DATABASE_PATH = process.env.DATABASE_PATH
+    || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'data', 'dairo.sqlite');
+
+// Raised for ids that do not exist, so routes can answer 404
+export class EntityNotFoundError extends Error {
+    constructor(resource, id) {
+        super(`No ${resource} with id ${id}`);
+        this.name = 'EntityNotFoundError';
+    }
+}
+
+// Same id format as LocalStorageService, so ids look alike whichever storage created them
+function generateId() {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toEntity(row) {
+    return { ...JSON.parse(row.data), id: row.id, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+// Fields kept in their own columns are not repeated in the JSON
+function toData(entity) {
+    const { id, createdAt, updatedAt, ...data } = entity;
+    return JSON.stringify(data);
+}
+
+// CRUD on the table of one resource. better-sqlite3 is synchronous, so read-modify-write sequences
+// inside a transaction cannot interleave with other requests.
+export class EntityStore {
+    constructor(db, resource) {
+        this.db = db;
+        this.resource = resource;
+        this.table = RESOURCES[resource].table;
+        this.filterFields = RESOURCES[resource].filterFields;
+
+        db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (
+            id TEXT PRIMARY KEY,
+            data TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL
+        )`);
+        for (const field of this.filterFields) {
+            db.exec(`CREATE INDEX IF NOT EXISTS ${this.table}_${field} ON ${this.table} (json_extract(data, '$.${field}'))`);
+        }
+
+        this.statements = {
+            get: db.prepare(`SELECT * FROM ${this.table} WHERE id = ?`),
+            insert: db.prepare(`INSERT INTO ${this.table} (id, data, created_at, updated_at) VALUES (@id, @data, @createdAt, @updatedAt)`),
+            update: db.prepare(`UPDATE ${this.table} SET data = @data, updated_at = @updatedAt WHERE id = @id`),
+            delete: db.prepare(`DELETE FROM ${this.table} WHERE id = ?`),
+        };
+        this.updateMany = db.transaction(updates => updates
+            .filter(({ id }) => this.statements.get.get(id))
+            .map(({ id, changes }) => this.update(id, changes)));
+    }
+
+    // Run a statement with a WHERE clause built from filters, which maps filterFields to the value
+    // they must equal; other keys are ignored
+    filtered(sql, filters, method) {
+        const fields = Object.keys(filters).filter(field => this.filterFields.includes(field) && typeof filters[field] === 'string');
+        const where = fields.map(field => `json_extract(data, '$.${field}') = @${field}`).join(' AND ');
+        const statement = this.db.prepare(sql.replace('{where}', where ? ` WHERE ${where}` : ''));
+        // Statements without parameters reject a parameter object, even an empty one
+        return where
+            ? statement[method](Object.fromEntries(fields.map(field => [field, filters[field]])))
+            : statement[method]();
+    }
+
+    // Entities in creation order, optionally filtered
+    list(filters = {}) {
+        return this.filtered(`SELECT * FROM ${this.table}{where} ORDER BY created_at, rowid`, filters, 'all').map(toEntity);
+    }
+
+    get(id) {
+        const row = this.statements.get.get(id);
+        return row ? toEntity(row) : null;
+    }
+
+    create(item) {
+        const now = new Date().toISOString();
+        const entity = { ...item, id: generateId(), createdAt: now, updatedAt: now };
+        this.statements.insert.run({ id: entity.id, data: toData(entity), createdAt: now, updatedAt: now });
+        return entity;
+    }
+
+    // Merge changes into the stored entity; id and createdAt never change. JSON has no undefined, so
+    // a null change removes the field.
+    update(id, changes) {
+        const current = this.get(id);
+        if (!current) {
+            throw new EntityNotFoundError(this.resource, id);
+        }
+        const entity = { ...current, ...changes, id, createdAt: current.createdAt, updatedAt: new Date().toISOString() };
+        Object.keys(changes).filter(key => changes[key] === null).forEach(key => delete entity[key]);
+        this.statements.update.run({ id, data: toData(entity), updatedAt: entity.updatedAt });
+        return entity;
+    }
+
+    delete(id) {
+        if (this.statements.delete.run(id).changes === 0) {
+            throw new EntityNotFoundError(this.resource, id);
+        }
+    }
+
+    // Delete every entity, or only those matching filters; returns how many were deleted
+    clear(filters = {}) {
+        return this.filtered(`DELETE FROM ${this.table}{where}`, filters, 'run').changes;
+    }
+}
+
+// Open (creating if needed) the database and the tables of every resource
+export async function openDatabase(databasePath = DATABASE_PATH) {
+    const timestamp = new Date().toISOString();
+    await fs.mkdir(path.dirname(databasePath), { recursive: true });
+
+    const db = new Database(databasePath);
+    // Readers do not block the writer
+    db.pragma('journal_mode = WAL');
+
+    const stores = Object.fromEntries(Object.keys(RESOURCES).map(resource => [resource, new EntityStore(db, resource)]));
+    console.log(`[${timestamp}] DATABASE - Opened ${databasePath} (${Object.keys(stores).join(', ')})`);
+    return stores;
+}
@@ -1,4 +1,6 @@
-import weaviate, { ApiKey, vectors, configure } from "weaviate-client";
+import { generateUuid5 } from "weaviate-client";
+import { createVectorStore, VECTOR_STORE } from "./vectorStores/index.js";
+import { createEmbeddingProvider, EmbeddingMismatchError } from "./embeddings/index.js";
 
 /*
 export interface DocumentChunk {
@@ -10,6 +12,15 @@ export interface DocumentChunk {
     metadata?: {
         createdAt?: Date;
         category?: string;
+        folderId?: string;
+        documentType?: string;
+        pageNumber?: number;
+        sheetName?: string;
+        cellRange?: string;
+        sectionPath?: string;
+        table?: boolean;
+        startOffset?: number;
+        endOffset?: number;
     };
 }
 
@@ -18,213 +29,291 @@ export interface SearchResult {
     score: number;
     highlights?: string[];
 }
+
+export interface SearchFilters {
+    documentIds?: string[];
+    folderIds?: string[];
+    documentTypes?: string[];
+    categories?: string[];
+    createdAfter?: string; // ISO date
+    createdBefore?: string;
+}
 */
 
 export class ProjectRag {
     constructor(
-        client,
+        store,
         projectId,
+        embedder,
     ) {
-        this.client = client;
-        this.collectionName = toCollectionName(projectId, ANSWER_DOC_COLLECTION_SUFFIX);
+        this.store = store;
+        this.projectId = projectId;
+        this.embedder = embedder;
+        this.collectionName = store.collectionName;
+        this.embeddingChecked = false;
+    }
+
+    // Vectors of different models are not comparable, so refuse to mix them in one collection. Once
+    // the collection holds vectors of the configured provider and model it stays that way until reset.
+    async checkEmbedding() {
+        if (this.embeddingChecked) return;
+        const stored = await this.store.describeEmbedding();
+        if (stored && (stored.provider !== this.embedder.name || stored.model !== this.embedder.model)) {
+            throw new EmbeddingMismatchError(stored, this.embedder);
+        }
+        this.embeddingChecked = stored !== null;
     }
 
-    async indexAnswer(chunkObjects) {
+    // Upsert the chunks of the documents they belong to. Object ids derive from chunk ids, so indexing a
+    // document again replaces its chunks; chunks the document no longer produces are removed. Pass
+    // documentIds to also clear documents that produced no chunks at all. metadata may carry the
+    // questionId and answerId the chunks are indexed for.
+    async indexAnswer(chunkObjects, documentIds = [...new Set(chunkObjects.map(chunk => chunk.documentId))], metadata = {}) {
         const timestamp = new Date().toISOString();
-        console.log(`[${timestamp}] WEAVIATE INDEX - Starting indexing for collection: ${this.collectionName}`);
-        console.log(`[${timestamp}] WEAVIATE INDEX - Number of chunks to index: ${chunkObjects.length}`);
-        
+        console.log(`[${timestamp}] RAG INDEX - Starting indexing for collection: ${this.collectionName} (${VECTOR_STORE})`);
+        console.log(`[${timestamp}] RAG INDEX - Number of chunks to index: ${chunkObjects.length}`);
+
+        await this.checkEmbedding();
+
         try {
-            const collection = this.client.collections.get(this.collectionName);
-            console.log(`[${timestamp}] WEAVIATE INDEX - Retrieved collection: ${this.collectionName}`);
+            // Chunks currently stored for these documents
+            const existingIds = await this.store.fetchIds(documentIds);
+            console.log(`[${timestamp}] RAG INDEX - Found ${existingIds.size} existing chunks for ${documentIds.length} document(s)`);
 
-            // Batch insert chunks
-            const dataToInsert = chunkObjects.map(chunk => ({
+            console.log(`[${timestamp}] RAG INDEX - Embedding chunks with ${this.embedder.name}/${this.embedder.model}...`);
+            const embeddings = chunkObjects.length > 0
+                ? await this.embedder.embed(chunkObjects.map(chunk => chunk.content))
+                : [];
+
+            // Batch upsert chunks
+            const dataToInsert = chunkObjects.map((chunk, index) => ({
+                id: toObjectId(chunk.id),
                 properties: {
                     chunkId: chunk.id,
                     content: chunk.content,
                     chunkIndex: chunk.chunkIndex,
                     totalChunks: chunk.totalChunks,
-                    //createdAt: chunk.metadata?.createdAt?.toISOString(),
-                    //category: chunk.metadata?.category,
+                    questionId: metadata.questionId,
+                    answerId: metadata.answerId,
+                    createdAt: chunk.metadata?.createdAt,
+                    category: chunk.metadata?.category,
+                    folderId: chunk.metadata?.folderId,
+                    documentType: chunk.metadata?.documentType,
                     documentId: chunk.documentId,
-                }
+                    pageNumber: chunk.metadata?.pageNumber,
+                    sheetName: chunk.metadata?.sheetName,
+                    cellRange: chunk.metadata?.cellRange,
+                    sectionPath: chunk.metadata?.sectionPath,
+                    table: chunk.metadata?.table ?? false,
+                    startOffset: chunk.metadata?.startOffset,
+                    endOffset: chunk.metadata?.endOffset,
+                    embeddingProvider: this.embedder.name,
+                    embeddingModel: this.embedder.model,
+                },
+                vector: embeddings[index],
             }));
 
-            console.log(`[${timestamp}] WEAVIATE INDEX - Prepared ${dataToInsert.length} chunks for insertion`);
+            console.log(`[${timestamp}] RAG INDEX - Prepared ${dataToInsert.length} chunks for insertion`);
             
             chunkObjects.forEach((chunk, index) => {
-                console.log(`[${timestamp}] WEAVIATE INDEX - Chunk ${index + 1}: ${chunk.id} (${chunk.documentId}) - Content length: ${chunk.content.length} chars`);
-                console.log(`[${timestamp}] WEAVIATE INDEX - Chunk ${index + 1} preview: ${chunk.content.substring(0, 100)}...`);
+                console.log(`[${timestamp}] RAG INDEX - Chunk ${index + 1}: ${chunk.id} (${chunk.documentId}) - Content length: ${chunk.content.length} chars`);
+                console.log(`[${timestamp}] RAG INDEX - Chunk ${index + 1} preview: ${chunk.content.substring(0, 100)}...`);
             });
 
-            console.log(`[${timestamp}] WEAVIATE INDEX - Inserting chunks into Weaviate...`);
-            const result = await collection.data.insertMany(dataToInsert);
-            
-            console.log(`[${timestamp}] WEAVIATE INDEX - Successfully inserted ${chunkObjects.length} chunks into collection: ${this.collectionName}`);
-            console.log(`[${timestamp}] WEAVIATE INDEX - Insert result:`, result);
-            
+            console.log(`[${timestamp}] RAG INDEX - Upserting chunks...`);
+            await this.store.upsert(dataToInsert);
+
+            const newIds = new Set(dataToInsert.map(data => data.id));
+            const removedIds = [...existingIds].filter(id => !newIds.has(id));
+            await this.store.deleteByIds(removedIds);
+            this.embeddingChecked = this.embeddingChecked || dataToInsert.length > 0;
+
+            const counts = {
+                inserted: dataToInsert.filter(data => !existingIds.has(data.id)).length,
+                updated: dataToInsert.filter(data => existingIds.has(data.id)).length,
+                removed: removedIds.length,
+            };
+            console.log(`[${timestamp}] RAG INDEX - Indexed chunks into collection ${this.collectionName}: ${counts.inserted} inserted, ${counts.updated} updated, ${counts.removed} removed`);
+            return counts;
+
         } catch (error) {
-            console.error(`[${timestamp}] WEAVIATE INDEX - Error indexing answer chunks:`, error);
-            console.error(`[${timestamp}] WEAVIATE INDEX - Collection: ${this.collectionName}`);
-            console.error(`[${timestamp}] WEAVIATE INDEX - Chunk count: ${chunkObjects.length}`);
+            console.error(`[${timestamp}] RAG INDEX - Error indexing answer chunks:`, error);
+            console.error(`[${timestamp}] RAG INDEX - Collection: ${this.collectionName}`);
+            console.error(`[${timestamp}] RAG INDEX - Chunk count: ${chunkObjects.length}`);
             throw new Error(`Failed to index answer: ${error}`);
         }
     }
 
-    async search(query, limit = 5) {
+    // excludeDocumentIds skips chunks of documents that were replaced by a newer version. Modes:
+    // 'vector', 'keyword' (BM25) or 'hybrid', which blends both by alpha (1 = pure vector).
+    // filters (see SearchFilters) restrict the search to chunks matching all of them.
+    async search(query, limit = 5, excludeDocumentIds = [], { mode = 'vector', alpha = DEFAULT_HYBRID_ALPHA, filters = {} } = {}) {
         const timestamp = new Date().toISOString();
-        console.log(`[${timestamp}] WEAVIATE SEARCH - Starting search in collection: ${this.collectionName}`);
-        console.log(`[${timestamp}] WEAVIATE SEARCH - Query: "${query}", Limit: ${limit}`);
-        
-        try {
-            const collection = this.client.collections.get(this.collectionName);
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Retrieved collection: ${this.collectionName}`);
+        console.log(`[${timestamp}] RAG SEARCH - Starting search in collection: ${this.collectionName} (${VECTOR_STORE})`);
+        console.log(`[${timestamp}] RAG SEARCH - Query: "${query}", Limit: ${limit}, Mode: ${mode}${mode === 'hybrid' ? ` (alpha ${alpha})` : ''}, Excluded documents: ${excludeDocumentIds.length}, Filters: ${JSON.stringify(filters)}`);
+
+        // Keyword search compares words only, so it works whatever the stored vectors are
+        if (mode !== 'keyword') {
+            await this.checkEmbedding();
+        }
 
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Executing nearText query...`);
-            const result = await collection.query.nearText(query, {
+        try {
+            const [vector] = mode === 'keyword' ? [] : await this.embedder.embed([query]);
+            const results = await this.store.search(query, {
+                vector,
                 limit,
-                returnMetadata: ['score', 'distance'],
+                mode,
+                alpha,
+                filters: { ...filters, excludeDocumentIds },
             });
             
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Query executed successfully`);
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Raw result:`, result);
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Number of objects returned: ${result.objects?.length || 0}`);
+            console.log(`[${timestamp}] RAG SEARCH - Query executed successfully`);
+            console.log(`[${timestamp}] RAG SEARCH - Number of objects returned: ${results.length}`);
             
-            if (result.objects && result.objects.length > 0) {
-                result.objects.forEach((obj, index) => {
-                    console.log(`[${timestamp}] WEAVIATE SEARCH - Object ${index + 1}:`, {
-                        chunkId: obj.properties?.chunkId,
-                        documentId: obj.properties?.documentId,
-                        contentLength: obj.properties?.content?.length || 0,
-                        score: obj.metadata?.score,
-                        distance: obj.metadata?.distance,
-                        contentPreview: obj.properties?.content?.substring(0, 100) + '...'
+            if (results.length > 0) {
+                results.forEach((result, index) => {
+                    console.log(`[${timestamp}] RAG SEARCH - Object ${index + 1}:`, {
+                        chunkId: result.properties?.chunkId,
+                        documentId: result.properties?.documentId,
+                        contentLength: result.properties?.content?.length || 0,
+                        score: result.score,
+                        contentPreview: result.properties?.content?.substring(0, 100) + '...'
                     });
                 });
             } else {
-                console.log(`[${timestamp}] WEAVIATE SEARCH - No results found for query: "${query}"`);
+                console.log(`[${timestamp}] RAG SEARCH - No results found for query: "${query}"`);
             }
 
-            const mappedResults = result.objects.map(obj => ({
+            const mappedResults = results.map(({ properties, score }) => ({
                 chunk: {
-                    id: obj.properties.chunkId,
-                    content: obj.properties.content,
-                    questionId: obj.properties.questionId,
-                    chunkIndex: obj.properties.chunkIndex,
-                    totalChunks: obj.properties.totalChunks,
-                    documentId: obj.properties.documentId,
+                    id: properties.chunkId,
+                    content: properties.content,
+                    questionId: properties.questionId,
+                    chunkIndex: properties.chunkIndex,
+                    totalChunks: properties.totalChunks,
+                    documentId: properties.documentId,
                     metadata: {
-                        //createdAt: obj.properties.createdAt ? new Date(obj.properties.createdAt as string) : undefined,
-                        //category: obj.properties.category as string,
+                        pageNumber: properties.pageNumber ?? undefined,
+                        sheetName: properties.sheetName ?? undefined,
+                        cellRange: properties.cellRange ?? undefined,
+                        sectionPath: properties.sectionPath ?? undefined,
+                        table: properties.table || undefined,
+                        startOffset: properties.startOffset ?? undefined,
+                        endOffset: properties.endOffset ?? undefined,
+                        createdAt: properties.createdAt ?? undefined,
+                        category: properties.category ?? undefined,
+                        folderId: properties.folderId ?? undefined,
+                        documentType: properties.documentType ?? undefined,
                     }
                 },
-                score: obj.metadata?.score || obj.metadata?.distance || 0,
+                score: score || 0,
             }));
 
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Mapped ${mappedResults.length} results`);
-            console.log(`[${timestamp}] WEAVIATE SEARCH - Top scores: ${mappedResults.slice(0, 3).map(r => r.score).join(', ')}`);
+            console.log(`[${timestamp}] RAG SEARCH - Mapped ${mappedResults.length} results`);
+            console.log(`[${timestamp}] RAG SEARCH - Top scores: ${mappedResults.slice(0, 3).map(r => r.score).join(', ')}`);
 
             return mappedResults;
         } catch (error) {
-            console.error(`[${timestamp}] WEAVIATE SEARCH - Error searching chunks:`, error);
-            console.error(`[${timestamp}] WEAVIATE SEARCH - Collection: ${this.collectionName}`);
-            console.error(`[${timestamp}] WEAVIATE SEARCH - Query: "${query}"`);
+            console.error(`[${timestamp}] RAG SEARCH - Error searching chunks:`, error);
+            console.error(`[${timestamp}] RAG SEARCH - Collection: ${this.collectionName}`);
+            console.error(`[${timestamp}] RAG SEARCH - Query: "${query}"`);
             throw new Error(`Failed to search: ${error}`);
         }
     }
 
-    // TODO: Implement a delete of documents.
+    // Delete the collection with all its chunks and create it again empty
+    async reset() {
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] RAG RESET - Dropping collection: ${this.collectionName}`);
+
+        try {
+            await this.store.drop();
+            await this.store.ensureCollection();
+            this.embeddingChecked = false;
+            console.log(`[${timestamp}] RAG RESET - Recreated collection: ${this.collectionName}`);
+        } catch (error) {
+            console.error(`[${timestamp}] RAG RESET - Error resetting collection:`, error);
+            console.error(`[${timestamp}] RAG RESET - Collection: ${this.collectionName}`);
+            throw new Error(`Failed to reset collection: ${error}`);
+        }
+    }
+
+    // Delete the collection with all its chunks, when the project itself is deleted
+    async drop() {
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] RAG DROP - Dropping collection: ${this.collectionName}`);
+
+        try {
+            await this.store.drop();
+            console.log(`[${timestamp}] RAG DROP - Dropped collection: ${this.collectionName}`);
+        } catch (error) {
+            console.error(`[${timestamp}] RAG DROP - Error dropping collection:`, error);
+            console.error(`[${timestamp}] RAG DROP - Collection: ${this.collectionName}`);
+            throw new Error(`Failed to drop collection: ${error}`);
+        }
+    }
+
+    // Delete every chunk of a document, returning how many were removed
+    async deleteDocument(documentId) {
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] RAG DELETE - Deleting chunks of document ${documentId} from collection: ${this.collectionName}`);
+
+        try {
+            const deleted = await this.store.deleteByDocument(documentId);
+            console.log(`[${timestamp}] RAG DELETE - Deleted ${deleted} chunks`);
+            return deleted;
+        } catch (error) {
+            console.error(`[${timestamp}] RAG DELETE - Error deleting document chunks:`, error);
+            console.error(`[${timestamp}] RAG DELETE - Collection: ${this.collectionName}`);
+            console.error(`[${timestamp}] RAG DELETE - Document ID: ${documentId}`);
+            throw new Error(`Failed to delete document: ${error}`);
+        }
+    }
+}
+
+// Deterministic object id of a chunk, so upserting the same chunk replaces it
+function toObjectId(chunkId) {
+    return generateUuid5(chunkId);
 }
 
+export const SEARCH_MODES = ['vector', 'hybrid', 'keyword'];
+// Weight of the vector score in hybrid search; the keyword (BM25) score gets the rest
+const DEFAULT_HYBRID_ALPHA = 0.5;
+
 function toCollectionName(projectId, collection) {
     return `${collection}_${projectId}`.replace(/[^a-zA-Z0-9_]/g, '_');
 }
 
-async function maybeCreateCollection(client, collectionName) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] WEAVIATE COLLECTION - Checking if collection exists: ${collectionName}`);
-    
-    try {
-        const doesExist = await client.collections.exists(collectionName);
-        console.log(`[${timestamp}] WEAVIATE COLLECTION - Collection ${collectionName} exists: ${doesExist}`);
-        
-        if (doesExist) {
-            console.log(`[${timestamp}] WEAVIATE COLLECTION - Using existing collection: ${collectionName}`);
-            return;
-        }
+const ANSWER_DOC_COLLECTION_SUFFIX = 'AnswerDoc';
 
-        console.log(`[${timestamp}] WEAVIATE COLLECTION - Creating new collection: ${collectionName}`);
-        const collectionConfig = {
-            name: collectionName,
-            properties: [
-                { name: 'chunkId', dataType: 'text' },
-                { name: 'content', dataType: 'text' },
-                { name: 'answerId', dataType: 'text' },
-                { name: 'questionId', dataType: 'text' },
-                { name: 'chunkIndex', dataType: 'int' },
-                { name: 'totalChunks', dataType: 'int' },
-                { name: 'createdAt', dataType: 'text' },
-                { name: 'category', dataType: 'text' },
-                { name: 'documentId', dataType: 'text' },
-            ],
-            vectorizers: vectors.text2VecOpenAI(),
-            generative: configure.generative.openAI(),
-        };
-        
-        console.log(`[${timestamp}] WEAVIATE COLLECTION - Collection config:`, collectionConfig);
-        
-        await client.collections.create(collectionConfig);
-        console.log(`[${timestamp}] WEAVIATE COLLECTION - Successfully created collection: ${collectionName}`);
-        
-    } catch (error) {
-        console.error(`[${timestamp}] WEAVIATE COLLECTION - Error creating collection:`, error);
-        console.error(`[${timestamp}] WEAVIATE COLLECTION - Collection name: ${collectionName}`);
-        throw new Error(`Failed to create collection: ${error}`);
+// One provider for all projects, created on first use so a local model is loaded only once
+let embedder = null;
+
+export function getEmbedder() {
+    if (!embedder) {
+        embedder = createEmbeddingProvider();
     }
+    return embedder;
 }
 
-const ANSWER_DOC_COLLECTION_SUFFIX = 'AnswerDoc';
-
 export async function connect(projectId) {
     const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] WEAVIATE CONNECT - Starting connection for project: ${projectId}`);
+    console.log(`[${timestamp}] RAG CONNECT - Starting connection for project: ${projectId} (vector store: ${VECTOR_STORE})`);
     
     try {
-        const openaiApiKey = process.env.VITE_OPENAI_API_KEY;
-        const weaviateApiKey = process.env.VITE_WEAVIATE_API_KEY;
-        const weaviateUrl = process.env.VITE_WEAVIATE_URL;
-
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Environment variables:`);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - OpenAI API Key: ${openaiApiKey ? 'SET' : 'NOT SET'}`);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Weaviate API Key: ${weaviateApiKey ? 'SET' : 'NOT SET'}`);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Weaviate URL: ${weaviateUrl || 'NOT SET'}`);
-
-        let authCredentials = new ApiKey(weaviateApiKey);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Connecting to Weaviate Cloud...`);
-        
-        const client = await weaviate.connectToWeaviateCloud(weaviateUrl, {
-            authCredentials,
-            headers: openaiApiKey ? {
-                'X-OpenAI-Api-Key': openaiApiKey,
-            } : undefined,
-        });
-
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Successfully connected to Weaviate Cloud`);
-
-        // Default project ID if not provided
         const collectionName = toCollectionName(projectId, ANSWER_DOC_COLLECTION_SUFFIX);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Collection name: ${collectionName}`);
+        console.log(`[${timestamp}] RAG CONNECT - Collection name: ${collectionName}`);
 
-        await maybeCreateCollection(client, collectionName);
+        const store = await createVectorStore(collectionName);
+        await store.ensureCollection();
         
-        const rag = new ProjectRag(client, projectId);
-        console.log(`[${timestamp}] WEAVIATE CONNECT - Successfully created ProjectRag instance for project: ${projectId}`);
+        const rag = new ProjectRag(store, projectId, getEmbedder());
+        console.log(`[${timestamp}] RAG CONNECT - Successfully created ProjectRag instance for project: ${projectId}`);
         
         return rag;
     } catch (error) {
-        console.error(`[${timestamp}] WEAVIATE CONNECT - Error connecting to Weaviate:`, error);
-        console.error(`[${timestamp}] WEAVIATE CONNECT - Project ID: ${projectId}`);
-        throw new Error(`Failed to connect to Weaviate: ${error}`);
+        console.error(`[${timestamp}] RAG CONNECT - Error connecting to vector store:`, error);
+        console.error(`[${timestamp}] RAG CONNECT - Project ID: ${projectId}`);
+        throw new Error(`Failed to connect to vector store: ${error}`);
     }
 }
@@ -1,6 +1,9 @@
 import express from 'express';
 import cors from 'cors';
-import { connect } from './rag.js';
+import { connect, getEmbedder, SEARCH_MODES } from './rag.js';
+import { VECTOR_STORE } from './vectorStores/index.js';
+import { EmbeddingMismatchError } from './embeddings/index.js';
+import { openDatabase, RESOURCES, DATABASE_PATH, EntityNotFoundError } from './persistence/sqlite.js';
 
 // Enhanced logging utility for backend
 const logRequest = (req, res, next) => {
@@ -33,7 +36,8 @@ const port = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Stored documents carry their file as base64, well above the default limit of 100kb
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '50mb' }));
 app.use(logRequest);
 app.use(logResponse);
 
@@ -61,13 +65,33 @@ async function getProjectRag(projectId) {
   return projectConnections.get(projectId);
 }
 
+// Error message for malformed search filters, or null when they are valid
+function validateSearchFilters(filters) {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return 'Filters must be an object';
+  }
+  for (const key of ['documentIds', 'folderIds', 'documentTypes', 'categories']) {
+    const values = filters[key];
+    if (values !== undefined && (!Array.isArray(values) || values.some(value => typeof value !== 'string'))) {
+      return `Filter ${key} must be an array of strings`;
+    }
+  }
+  for (const key of ['createdAfter', 'createdBefore']) {
+    const value = filters[key];
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      return `Filter ${key} must be an ISO date`;
+    }
+  }
+  return null;
+}
+
 // Index endpoint - for indexing documents
 app.post('/api/index', async (req, res) => {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] INDEX REQUEST - Starting document indexing`);
   
   try {
-    const { projectId, chunks } = req.body;
+    const { projectId, chunks, documentIds, metadata } = req.body;
     const documentChunks = chunks;
 
     console.log(`[${timestamp}] INDEX REQUEST - Project ID: ${projectId}, Chunks: ${chunks?.length || 0}`);
@@ -94,21 +118,29 @@ app.post('/api/index', async (req, res) => {
 
     // Index the chunks
     console.log(`[${timestamp}] INDEX REQUEST - Indexing ${documentChunks.length} chunks`);
-    await rag.indexAnswer(documentChunks);
+    const { inserted, updated, removed } = await rag.indexAnswer(
+      documentChunks,
+      Array.isArray(documentIds) ? documentIds : undefined,
+      metadata && typeof metadata === 'object' ? metadata : undefined
+    );
 
-    console.log(`[${timestamp}] INDEX REQUEST - Successfully indexed ${documentChunks.length} chunks for project: ${projectId}`);
+    console.log(`[${timestamp}] INDEX REQUEST - Successfully indexed ${documentChunks.length} chunks for project: ${projectId} (${inserted} inserted, ${updated} updated, ${removed} removed)`);
 
     res.json({
       success: true,
       data: {
         chunksCreated: documentChunks.length,
+        inserted,
+        updated,
+        removed,
         message: 'Document indexed successfully'
       }
     });
 
   } catch (error) {
     console.error(`[${timestamp}] INDEX REQUEST - Error indexing document:`, error);
-    res.status(500).json({
+    // 409: the index was built with another embedding model and must be reset first
+    res.status(error instanceof EmbeddingMismatchError ? 409 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to index document'
     });
@@ -121,9 +153,9 @@ app.post('/api/search', async (req, res) => {
   console.log(`[${timestamp}] SEARCH REQUEST - Starting document search`);
   
   try {
-    const { projectId, query, limit = 5 } = req.body;
+    const { projectId, query, limit = 5, excludeDocumentIds = [], mode = 'vector', alpha, filters = {} } = req.body;
 
-    console.log(`[${timestamp}] SEARCH REQUEST - Project ID: ${projectId}, Query: "${query}", Limit: ${limit}`);
+    console.log(`[${timestamp}] SEARCH REQUEST - Project ID: ${projectId}, Query: "${query}", Limit: ${limit}, Mode: ${mode}`);
 
     if (!projectId) {
       console.log(`[${timestamp}] SEARCH REQUEST - Error: Project ID is required`);
@@ -141,13 +173,38 @@ app.post('/api/search', async (req, res) => {
       });
     }
 
+    if (!SEARCH_MODES.includes(mode)) {
+      console.log(`[${timestamp}] SEARCH REQUEST - Error: Unknown search mode ${mode}`);
+      return res.status(400).json({
+        success: false,
+        error: `Search mode must be one of: ${SEARCH_MODES.join(', ')}`
+      });
+    }
+
+    if (alpha !== undefined && (typeof alpha !== 'number' || alpha < 0 || alpha > 1)) {
+      console.log(`[${timestamp}] SEARCH REQUEST - Error: Invalid alpha ${alpha}`);
+      return res.status(400).json({
+        success: false,
+        error: 'Alpha must be a number between 0 and 1'
+      });
+    }
+
+    const filterError = validateSearchFilters(filters);
+    if (filterError) {
+      console.log(`[${timestamp}] SEARCH REQUEST - Error: ${filterError}`);
+      return res.status(400).json({
+        success: false,
+        error: filterError
+      });
+    }
+
     // Get project RAG connection
     console.log(`[${timestamp}] SEARCH REQUEST - Getting RAG connection for project: ${projectId}`);
     const rag = await getProjectRag(projectId);
 
     // Perform search
-    console.log(`[${timestamp}] SEARCH REQUEST - Performing search with query: "${query}"`);
-    const results = await rag.search(query, limit);
+    console.log(`[${timestamp}] SEARCH REQUEST - Performing ${mode} search with query: "${query}"`);
+    const results = await rag.search(query, limit, Array.isArray(excludeDocumentIds) ? excludeDocumentIds : [], { mode, alpha, filters });
 
     console.log(`[${timestamp}] SEARCH REQUEST - Search completed. Found ${results.length} results for project: ${projectId}`);
     if (results.length > 0) {
@@ -158,6 +215,7 @@ app.post('/api/search', async (req, res) => {
       success: true,
       data: {
         query,
+        mode,
         results,
         totalResults: results.length
       }
@@ -165,24 +223,224 @@ app.post('/api/search', async (req, res) => {
 
   } catch (error) {
     console.error(`[${timestamp}] SEARCH REQUEST - Error searching documents:`, error);
-    res.status(500).json({
+    res.status(error instanceof EmbeddingMismatchError ? 409 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to search documents'
     });
   }
 });
 
+// Reset endpoint - drops every indexed chunk of a project, e.g. before re-indexing it
+app.delete('/api/index/:projectId', async (req, res) => {
+  const timestamp = new Date().toISOString();
+  const { projectId } = req.params;
+  console.log(`[${timestamp}] RESET REQUEST - Project ID: ${projectId}`);
+
+  try {
+    const rag = await getProjectRag(projectId);
+    await rag.reset();
+
+    console.log(`[${timestamp}] RESET REQUEST - Successfully reset index for project: ${projectId}`);
+    res.json({
+      success: true,
+      data: {
+        message: 'Index reset successfully'
+      }
+    });
+
+  } catch (error) {
+    console.error(`[${timestamp}] RESET REQUEST - Error resetting index:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset index'
+    });
+  }
+});
+
+// Drop endpoint - deletes a project's collection for good, when the project is deleted
+app.delete('/api/index/:projectId/collection', async (req, res) => {
+  const timestamp = new Date().toISOString();
+  const { projectId } = req.params;
+  console.log(`[${timestamp}] DROP REQUEST - Project ID: ${projectId}`);
+
+  try {
+    const rag = await getProjectRag(projectId);
+    await rag.drop();
+    // A later request for the project connects again and starts from an empty collection
+    projectConnections.delete(projectId);
+
+    console.log(`[${timestamp}] DROP REQUEST - Successfully dropped collection for project: ${projectId}`);
+    res.json({
+      success: true,
+      data: {
+        message: 'Collection dropped successfully'
+      }
+    });
+
+  } catch (error) {
+    console.error(`[${timestamp}] DROP REQUEST - Error dropping collection:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to drop collection'
+    });
+  }
+});
+
+// Delete endpoint - removes every chunk of a document from the project's index
+app.delete('/api/documents/:projectId/:documentId', async (req, res) => {
+  const timestamp = new Date().toISOString();
+  const { projectId, documentId } = req.params;
+  console.log(`[${timestamp}] DELETE REQUEST - Project ID: ${projectId}, Document ID: ${documentId}`);
+
+  try {
+    const rag = await getProjectRag(projectId);
+    const chunksDeleted = await rag.deleteDocument(documentId);
+
+    console.log(`[${timestamp}] DELETE REQUEST - Deleted ${chunksDeleted} chunks of document ${documentId} for project: ${projectId}`);
+    res.json({
+      success: true,
+      data: {
+        chunksDeleted,
+        message: 'Document deleted successfully'
+      }
+    });
+
+  } catch (error) {
+    console.error(`[${timestamp}] DELETE REQUEST - Error deleting document:`, error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete document'
+    });
+  }
+});
+
+// Entity routes - projects, documents, folders, questions, question answers, analysis results, indexed
+// documents and users stored in SQLite.
+// Responses follow StorageResult: { success, data } or { success: false, error: { code, message } }.
+const entityStores = await openDatabase();
+
+function sendEntityError(res, timestamp, label, error) {
+  console.error(`[${timestamp}] ${label} - Error:`, error);
+  if (error instanceof EntityNotFoundError) {
+    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Item not found' } });
+  }
+  res.status(500).json({
+    success: false,
+    error: { code: 'DATABASE_ERROR', message: error instanceof Error ? error.message : 'Database error' }
+  });
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+for (const [resource, store] of Object.entries(entityStores)) {
+  const label = `ENTITY ${resource.toUpperCase()}`;
+
+  // List, optionally filtered by the resource's filter fields, e.g. ?projectId=...
+  app.get(`/api/${resource}`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    try {
+      const data = store.list(req.query);
+      console.log(`[${timestamp}] ${label} - Listed ${data.length} item(s)`);
+      res.json({ success: true, data });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  app.get(`/api/${resource}/:id`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    try {
+      res.json({ success: true, data: store.get(req.params.id) });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  app.post(`/api/${resource}`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    if (!isPlainObject(req.body)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_BODY', message: 'Body must be an object' } });
+    }
+    try {
+      const data = store.create(req.body);
+      console.log(`[${timestamp}] ${label} - Created ${data.id}`);
+      res.status(201).json({ success: true, data });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  // Update several items at once: { updates: [{ id, changes }] }. Unknown ids are skipped.
+  app.patch(`/api/${resource}`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    const updates = req.body?.updates;
+    if (!Array.isArray(updates) || updates.some(update => typeof update?.id !== 'string' || !isPlainObject(update.changes))) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_BODY', message: 'updates must be an array of { id, changes }' } });
+    }
+    try {
+      const data = store.updateMany(updates);
+      console.log(`[${timestamp}] ${label} - Updated ${data.length} item(s)`);
+      res.json({ success: true, data });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  app.patch(`/api/${resource}/:id`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    if (!isPlainObject(req.body)) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_BODY', message: 'Body must be an object' } });
+    }
+    try {
+      const data = store.update(req.params.id, req.body);
+      console.log(`[${timestamp}] ${label} - Updated ${data.id}`);
+      res.json({ success: true, data });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  app.delete(`/api/${resource}/:id`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    try {
+      store.delete(req.params.id);
+      console.log(`[${timestamp}] ${label} - Deleted ${req.params.id}`);
+      res.json({ success: true, data: true });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+
+  // Delete every item of the resource, or those matching the filter fields, e.g. ?projectId=...
+  app.delete(`/api/${resource}`, (req, res) => {
+    const timestamp = new Date().toISOString();
+    try {
+      const deleted = store.clear(req.query);
+      console.log(`[${timestamp}] ${label} - Cleared ${deleted} item(s)`);
+      res.json({ success: true, data: true });
+    } catch (error) {
+      sendEntityError(res, timestamp, label, error);
+    }
+  });
+}
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   const timestamp = new Date().toISOString();
   const activeProjects = Array.from(projectConnections.keys());
   
   console.log(`[${timestamp}] HEALTH CHECK - Active projects: ${activeProjects.length} (${activeProjects.join(', ')})`);
-  
+
+  const embedder = getEmbedder();
   res.json({
     success: true,
     status: 'healthy',
     timestamp,
+    vectorStore: VECTOR_STORE,
+    embedding: { provider: embedder.name, model: embedder.model },
+    database: DATABASE_PATH,
     activeProjects
   });
 });
@@ -195,7 +453,10 @@ app.get('/', (req, res) => {
     endpoints: {
       'POST /api/index': 'Index documents for a project',
       'POST /api/search': 'Search indexed documents',
-      'GET /api/health': 'Health check'
+      'DELETE /api/index/:projectId': 'Drop the index of a project',
+      'DELETE /api/documents/:projectId/:documentId': 'Remove a document from the index',
+      'GET /api/health': 'Health check',
+      'GET|POST|PATCH|DELETE /api/{resource}[/:id]': `Stored entities (${Object.keys(RESOURCES).join(', ')})`
     }
   });
 });
@@ -206,7 +467,10 @@ app.listen(port, () => {
   console.log(`   GET  /           - API information`);
   console.log(`   POST /api/index  - Index documents`);
   console.log(`   POST /api/search - Search documents`);
+  console.log(`   DELETE /api/index/:projectId - Reset a project's index`);
+  console.log(`   DELETE /api/documents/:projectId/:documentId - Remove a document from the index`);
   console.log(`   GET  /api/health - Health check`);
+  console.log(`   GET|POST|PATCH|DELETE /api/{${Object.keys(RESOURCES).join(',')}}[/:id] - Stored entities`);
 });
 
 export default app;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { WeaviateStore } from "./weaviate.js";
+import { LocalVectorStore } from "./local.js";
+
+/*
+Every store holds one collection of chunk objects ({ id, properties, vector }) and implements:
+
+interface VectorStore {
+    ensureCollection(): Promise<void>; // Create the collection unless it exists
+    fetchIds(documentIds: string[]): Promise<Set<string>>; // Ids of the objects of some documents
+    upsert(objects: { id: string; properties: object; vector: number[] }[]): Promise<void>; // Insert or replace by id
+    deleteByIds(ids: string[]): Promise<void>;
+    deleteByDocument(documentId: string): Promise<number>; // Returns how many objects were removed
+    // Embedding provider and model recorded on the stored objects; null while the collection is empty
+    describeEmbedding(): Promise<{ provider?: string; model?: string } | null>;
+    search(query: string, options: {
+        vector?: number[]; // Embedding of the query, for vector and hybrid search
+        limit: number;
+        mode: 'vector' | 'hybrid' | 'keyword';
+        alpha: number; // Hybrid only: weight of the vector score
+        filters: SearchFilters & { excludeDocumentIds?: string[] };
+    }): Promise<{ properties: object; score: number }[]>; // Best first, higher scores are better
+    drop(): Promise<void>; // Delete the collection with all its objects
+}
+*/
+
+// 'weaviate' (Weaviate Cloud, the default) or 'local' (JSON files under VECTOR_STORE_PATH)
+export const VECTOR_STORE = process.env.VECTOR_STORE || 'weaviate';
+export const VECTOR_STORES = ['weaviate', 'local'];
+
+const LOCAL_STORE_PATH = process.env.VECTOR_STORE_PATH
+    || path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'data', 'vectors');
+
+// Store of the configured kind for a collection
+export async function createVectorStore(collectionName) {
+    switch (VECTOR_STORE) {
+        case 'weaviate':
+            return WeaviateStore.connect(collectionName);
+        case 'local':
+            return new LocalVectorStore(collectionName, LOCAL_STORE_PATH);
+        default:
+            throw new Error(`Unknown vector store "${VECTOR_STORE}", expected one of: ${VECTOR_STORES.join(', ')}`);
+    }
+}
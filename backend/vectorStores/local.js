@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// BM25 parameters for keyword search
+const K1 = 1.2;
+const B = 0.75;
+
+function tokenize(text) {
+    return String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function cosineSimilarity(a, b) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Scale scores to 0-1 (relative score fusion, as Weaviate does for hybrid search)
+function normalize(scores) {
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    return scores.map(score => (max > min ? (score - min) / (max - min) : max > 0 ? 1 : 0));
+}
+
+function bm25Scores(query, objects) {
+    const terms = [...new Set(tokenize(query))];
+    const documents = objects.map(obj => tokenize(obj.properties.content));
+    const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / (documents.length || 1);
+    const documentFrequency = new Map(terms.map(term => [term, documents.filter(tokens => tokens.includes(term)).length]));
+
+    return documents.map(tokens => {
+        let score = 0;
+        for (const term of terms) {
+            const frequency = tokens.filter(token => token === term).length;
+            if (frequency === 0) continue;
+            const df = documentFrequency.get(term);
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * tokens.length / (averageLength || 1)));
+        }
+        return score;
+    });
+}
+
+// Whether an object's properties pass SearchFilters and the excluded documents
+function matchesFilters(properties, { excludeDocumentIds = [], documentIds, folderIds, documentTypes, categories, createdAfter, createdBefore }) {
+    if (excludeDocumentIds.includes(properties.documentId)) return false;
+    const lists = { documentId: documentIds, folderId: folderIds, documentType: documentTypes, category: categories };
+    for (const [property, values] of Object.entries(lists)) {
+        if (values?.length && !values.includes(properties[property])) return false;
+    }
+    const createdAt = Date.parse(properties.createdAt);
+    if (createdAfter && !(createdAt >= Date.parse(createdAfter))) return false;
+    if (createdBefore && !(createdAt <= Date.parse(createdBefore))) return false;
+    return true;
+}
+
+// Collection kept in memory and saved as a JSON file; searches compare the query vector with every
+// stored vector (brute-force cosine similarity). Meant for development, tests and small projects.
+export class LocalVectorStore {
+    constructor(collectionName, directory) {
+        this.collectionName = collectionName;
+        this.filePath = path.join(directory, `${collectionName}.json`);
+        this.objects = null; // id -> { id, properties, vector }, loaded on first use
+        this.writing = Promise.resolve();
+    }
+
+    async load() {
+        if (this.objects) return this.objects;
+        try {
+            const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            this.objects = new Map(data.objects.map(obj => [obj.id, obj]));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to read ${this.filePath}: ${error.message}`);
+            }
+            this.objects = new Map();
+        }
+        return this.objects;
+    }
+
+    // Writes go one after another, each through a temporary file so a crash never leaves half a file
+    save() {
+        this.writing = this.writing.catch(() => {}).then(async () => {
+            const temporaryPath = `${this.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(temporaryPath, JSON.stringify({
+                collection: this.collectionName,
+                objects: [...this.objects.values()],
+            }));
+            await fs.rename(temporaryPath, this.filePath);
+        });
+        return this.writing;
+    }
+
+    async ensureCollection() {
+        await this.load();
+        console.log(`[${new Date().toISOString()}] LOCAL STORE - Using collection ${this.collectionName} (${this.objects.size} objects) at ${this.filePath}`);
+    }
+
+    async fetchIds(documentIds) {
+        const objects = await this.load();
+        const wanted = new Set(documentIds);
+        return new Set([...objects.values()].filter(obj => wanted.has(obj.properties.documentId)).map(obj => obj.id));
+    }
+
+    async upsert(objects) {
+        const stored = await this.load();
+        for (const obj of objects) {
+            stored.set(obj.id, { id: obj.id, properties: obj.properties, vector: obj.vector });
+        }
+        await this.save();
+    }
+
+    async deleteByIds(ids) {
+        const objects = await this.load();
+        ids.forEach(id => objects.delete(id));
+        await this.save();
+    }
+
+    async deleteByDocument(documentId) {
+        const objects = await this.load();
+        const ids = [...objects.values()].filter(obj => obj.properties.documentId === documentId).map(obj => obj.id);
+        await this.deleteByIds(ids);
+        return ids.length;
+    }
+
+    async describeEmbedding() {
+        const first = (await this.load()).values().next().value;
+        return first ? { provider: first.properties.embeddingProvider, model: first.properties.embeddingModel } : null;
+    }
+
+    async search(query, { vector, limit, mode, alpha, filters }) {
+        const objects = [...(await this.load()).values()].filter(obj => matchesFilters(obj.properties, filters));
+        if (objects.length === 0) return [];
+
+        let scores;
+        if (mode === 'keyword') {
+            scores = bm25Scores(query, objects);
+        } else {
+            const similarities = objects.map(obj => cosineSimilarity(vector, obj.vector));
+            if (mode === 'hybrid') {
+                const vectorScores = normalize(similarities);
+                const keywordScores = normalize(bm25Scores(query, objects));
+                scores = vectorScores.map((score, i) => alpha * score + (1 - alpha) * keywordScores[i]);
+            } else {
+                scores = similarities;
+            }
+        }
+
+        return objects
+            .map((obj, i) => ({ properties: obj.properties, score: scores[i] }))
+            .filter(result => mode !== 'keyword' || result.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    async drop() {
+        this.objects = new Map();
+        await this.writing.catch(() => {});
+        await fs.rm(this.filePath, { force: true });
+    }
+}
@@ -0,0 +1,222 @@
+import weaviate, { ApiKey, vectors, configure, Filters } from "weaviate-client";
+
+const FETCH_PAGE_SIZE = 1000;
+
+// Weaviate Cloud collection holding the vectors of the embedding provider
+export class WeaviateStore {
+    constructor(client, collectionName) {
+        this.client = client;
+        this.collectionName = collectionName;
+    }
+
+    static async connect(collectionName) {
+        const timestamp = new Date().toISOString();
+        const openaiApiKey = process.env.VITE_OPENAI_API_KEY;
+        const weaviateApiKey = process.env.VITE_WEAVIATE_API_KEY;
+        const weaviateUrl = process.env.VITE_WEAVIATE_URL;
+
+        console.log(`[${timestamp}] WEAVIATE CONNECT - Environment variables:`);
+        console.log(`[${timestamp}] WEAVIATE CONNECT - OpenAI API Key: ${openaiApiKey ? 'SET' : 'NOT SET'}`);
+        console.log(`[${timestamp}] WEAVIATE CONNECT - Weaviate API Key: ${weaviateApiKey ? 'SET' : 'NOT SET'}`);
+        console.log(`[${timestamp}] WEAVIATE CONNECT - Weaviate URL: ${weaviateUrl || 'NOT SET'}`);
+
+        let authCredentials = new ApiKey(weaviateApiKey);
+        console.log(`[${timestamp}] WEAVIATE CONNECT - Connecting to Weaviate Cloud...`);
+
+        const client = await weaviate.connectToWeaviateCloud(weaviateUrl, {
+            authCredentials,
+            headers: openaiApiKey ? {
+                'X-OpenAI-Api-Key': openaiApiKey,
+            } : undefined,
+        });
+
+        console.log(`[${timestamp}] WEAVIATE CONNECT - Successfully connected to Weaviate Cloud`);
+        return new WeaviateStore(client, collectionName);
+    }
+
+    async ensureCollection() {
+        const timestamp = new Date().toISOString();
+        console.log(`[${timestamp}] WEAVIATE COLLECTION - Checking if collection exists: ${this.collectionName}`);
+
+        try {
+            const doesExist = await this.client.collections.exists(this.collectionName);
+            console.log(`[${timestamp}] WEAVIATE COLLECTION - Collection ${this.collectionName} exists: ${doesExist}`);
+
+            if (doesExist) {
+                console.log(`[${timestamp}] WEAVIATE COLLECTION - Using existing collection: ${this.collectionName}`);
+                return;
+            }
+
+            console.log(`[${timestamp}] WEAVIATE COLLECTION - Creating new collection: ${this.collectionName}`);
+            const collectionConfig = {
+                name: this.collectionName,
+                properties: [
+                    { name: 'chunkId', dataType: 'text' },
+                    { name: 'content', dataType: 'text' },
+                    { name: 'answerId', dataType: 'text' },
+                    { name: 'questionId', dataType: 'text' },
+                    { name: 'chunkIndex', dataType: 'int' },
+                    { name: 'totalChunks', dataType: 'int' },
+                    { name: 'createdAt', dataType: 'date' },
+                    { name: 'category', dataType: 'text' },
+                    { name: 'folderId', dataType: 'text' },
+                    { name: 'documentType', dataType: 'text' },
+                    { name: 'documentId', dataType: 'text' },
+                    { name: 'pageNumber', dataType: 'int' },
+                    { name: 'sheetName', dataType: 'text' },
+                    { name: 'cellRange', dataType: 'text' },
+                    { name: 'sectionPath', dataType: 'text' },
+                    { name: 'table', dataType: 'boolean' },
+                    { name: 'startOffset', dataType: 'int' },
+                    { name: 'endOffset', dataType: 'int' },
+                    { name: 'embeddingProvider', dataType: 'text' },
+                    { name: 'embeddingModel', dataType: 'text' },
+                ],
+                vectorizers: vectors.selfProvided(),
+                generative: configure.generative.openAI(),
+            };
+
+            console.log(`[${timestamp}] WEAVIATE COLLECTION - Collection config:`, collectionConfig);
+
+            await this.client.collections.create(collectionConfig);
+            console.log(`[${timestamp}] WEAVIATE COLLECTION - Successfully created collection: ${this.collectionName}`);
+
+        } catch (error) {
+            console.error(`[${timestamp}] WEAVIATE COLLECTION - Error creating collection:`, error);
+            console.error(`[${timestamp}] WEAVIATE COLLECTION - Collection name: ${this.collectionName}`);
+            throw new Error(`Failed to create collection: ${error}`);
+        }
+    }
+
+    // Ids of the objects stored for some documents
+    async fetchIds(documentIds) {
+        const ids = new Set();
+        if (documentIds.length === 0) return ids;
+
+        // Cursors cannot be combined with filters, so page by offset
+        const collection = this.client.collections.get(this.collectionName);
+        const filters = collection.filter.byProperty('documentId').containsAny(documentIds);
+        for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+            const page = await collection.query.fetchObjects({
+                filters,
+                limit: FETCH_PAGE_SIZE,
+                offset,
+                returnProperties: ['chunkId'],
+            });
+            page.objects.forEach(obj => ids.add(obj.uuid));
+            if (page.objects.length < FETCH_PAGE_SIZE) return ids;
+        }
+    }
+
+    // Insert or replace objects ({ id, properties, vector }) by id
+    async upsert(objects) {
+        const collection = this.client.collections.get(this.collectionName);
+        const result = await collection.data.insertMany(
+            objects.map(({ id, properties, vector }) => ({ id, properties, vectors: vector }))
+        );
+        if (result.hasErrors) {
+            const messages = Object.values(result.errors).map(error => error.message);
+            throw new Error(`${messages.length} chunk(s) failed: ${messages.slice(0, 3).join('; ')}`);
+        }
+    }
+
+    async deleteByIds(ids) {
+        if (ids.length === 0) return;
+        const collection = this.client.collections.get(this.collectionName);
+        await collection.data.deleteMany(collection.filter.byId().containsAny(ids));
+    }
+
+    // Delete every object of a document, returning how many were removed
+    async deleteByDocument(documentId) {
+        const collection = this.client.collections.get(this.collectionName);
+        const result = await collection.data.deleteMany(
+            collection.filter.byProperty('documentId').equal(documentId)
+        );
+        if (result.failed > 0) {
+            throw new Error(`${result.failed} chunk(s) could not be deleted`);
+        }
+        return result.successful;
+    }
+
+    // Provider and model recorded on the stored objects; null while the collection is empty
+    async describeEmbedding() {
+        const collection = this.client.collections.get(this.collectionName);
+        const page = await collection.query.fetchObjects({ limit: 1 });
+        const properties = page.objects[0]?.properties;
+        return properties ? { provider: properties.embeddingProvider, model: properties.embeddingModel } : null;
+    }
+
+    // Objects matching a query as [{ properties, score }], best first. Scores are higher for better
+    // matches in every mode. vector is the query's embedding, for vector and hybrid search.
+    async search(query, { vector, limit, mode, alpha, filters }) {
+        const timestamp = new Date().toISOString();
+        const collection = this.client.collections.get(this.collectionName);
+        const where = await this.buildFilters(collection, filters);
+
+        let result;
+        if (mode === 'hybrid') {
+            console.log(`[${timestamp}] WEAVIATE SEARCH - Executing hybrid query...`);
+            result = await collection.query.hybrid(query, {
+                vector,
+                limit,
+                alpha,
+                returnMetadata: ['score'],
+                filters: where,
+            });
+        } else if (mode === 'keyword') {
+            console.log(`[${timestamp}] WEAVIATE SEARCH - Executing BM25 query...`);
+            result = await collection.query.bm25(query, {
+                limit,
+                returnMetadata: ['score'],
+                filters: where,
+            });
+        } else {
+            console.log(`[${timestamp}] WEAVIATE SEARCH - Executing nearVector query...`);
+            result = await collection.query.nearVector(vector, {
+                limit,
+                returnMetadata: ['distance'],
+                filters: where,
+            });
+        }
+
+        // nearVector only reports a cosine distance; turn it into a similarity
+        return result.objects.map(obj => ({
+            properties: obj.properties,
+            score: obj.metadata?.score ?? (obj.metadata?.distance !== undefined ? 1 - obj.metadata.distance : 0),
+        }));
+    }
+
+    // Weaviate filter for SearchFilters plus excluded documents; undefined when nothing is filtered
+    async buildFilters(collection, { excludeDocumentIds = [], documentIds, folderIds, documentTypes, categories, createdAfter, createdBefore }) {
+        const conditions = excludeDocumentIds.map(documentId =>
+            collection.filter.byProperty('documentId').notEqual(documentId)
+        );
+        const lists = { documentId: documentIds, folderId: folderIds, documentType: documentTypes, category: categories };
+        for (const [property, values] of Object.entries(lists)) {
+            if (values?.length) {
+                conditions.push(collection.filter.byProperty(property).containsAny(values));
+            }
+        }
+
+        if (createdAfter || createdBefore) {
+            // Collections created before upload dates were indexed store createdAt as text
+            const config = await collection.config.get();
+            const createdAt = config.properties.find(property => property.name === 'createdAt');
+            if (createdAt?.dataType !== 'date') {
+                throw new Error('Date filters need the project to be re-indexed first');
+            }
+            if (createdAfter) {
+                conditions.push(collection.filter.byProperty('createdAt').greaterOrEqual(new Date(createdAfter)));
+            }
+            if (createdBefore) {
+                conditions.push(collection.filter.byProperty('createdAt').lessOrEqual(new Date(createdBefore)));
+            }
+        }
+        return conditions.length > 1 ? Filters.and(...conditions) : conditions[0];
+    }
+
+    // Delete the collection with all its objects
+    async drop() {
+        await this.client.collections.delete(this.collectionName);
+    }
+}
@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { UserProvider, useUserContext } from "./contexts/UserContext";
 import { UserOnboarding } from "./components/UserOnboarding";
+import { StorageRecovery } from "./components/StorageRecovery";
+import { useMigrationFailures } from "./hooks/useMigrationFailures";
 import Index from "./pages/Index";
 import Questions from "./pages/Questions";
 import Answers from "./pages/Answers";
@@ -17,6 +19,11 @@ const queryClient = new QueryClient();
 
 const AppContent = () => {
   const { users, isLoading, currentUser } = useUserContext();
+  const { failures, dismiss } = useMigrationFailures();
+
+  if (failures.length > 0) {
+    return <StorageRecovery failures={failures} onDismiss={dismiss} />;
+  }
 
   if (isLoading) {
     return (
@@ -5,11 +5,19 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Eye, FileText, Calendar, ExternalLink, CheckCircle, XCircle, AlertTriangle } from "lucide-react";
-import { QuestionAnswer, Document } from "@/lib/types";
+import { QuestionAnswer, Document, EvidenceRanking } from "@/lib/types";
 import { DocumentViewer } from "@/components/DocumentViewer";
 import { useDocumentService } from "@/hooks/useDocumentService";
 import { formatDistanceToNow } from "date-fns";
 
+// Why the answer's chunk was chosen, e.g. "Rank 1 after lexical reranking (search rank 4) ..."
+function formatRanking(ranking: EvidenceRanking): string {
+  const order = ranking.reranker === 'none'
+    ? `Search rank ${ranking.retrievalRank}, score ${ranking.retrievalScore.toFixed(3)}`
+    : `Rank ${ranking.rerank} after ${ranking.reranker} reranking (search rank ${ranking.retrievalRank})`;
+  return [order, ranking.reason].filter(Boolean).join('\n');
+}
+
 interface AnswerViewerProps {
   questionId: string;
   questionContent: string;
@@ -21,7 +29,7 @@ export function AnswerViewer({ questionId, questionContent, answers, trigger }:
   const [documents, setDocuments] = useState<Map<string, Document>>(new Map());
   const [loadingDocuments, setLoadingDocuments] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
-  const [selectedAnswerText, setSelectedAnswerText] = useState<string | null>(null);
+  const [selectedAnswer, setSelectedAnswer] = useState<QuestionAnswer | null>(null);
   const [isDocumentViewerOpen, setIsDocumentViewerOpen] = useState(false);
   
   const { getDocumentById } = useDocumentService();
@@ -56,11 +64,11 @@ export function AnswerViewer({ questionId, questionContent, answers, trigger }:
     loadDocuments();
   }, [answers, getDocumentById]);
 
-  const handleDocumentClick = (documentId: string, answerText: string) => {
-    const document = documents.get(documentId);
+  const handleDocumentClick = (answer: QuestionAnswer) => {
+    const document = documents.get(answer.documentId);
     if (document) {
       setSelectedDocument(document);
-      setSelectedAnswerText(answerText);
+      setSelectedAnswer(answer);
       setIsDocumentViewerOpen(true);
     }
   };
@@ -147,18 +155,48 @@ export function AnswerViewer({ questionId, questionContent, answers, trigger }:
                               <Button
                                 variant="link"
                                 size="sm"
-                                onClick={() => handleDocumentClick(answer.documentId, answer.content)}
+                                onClick={() => handleDocumentClick(answer)}
                                 className="h-auto p-0 text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"
                                 disabled={!document}
+                                title={document?.folderPath ? `${document.folderPath}/${document.fileName}` : undefined}
                               >
                                 <div className="flex items-center gap-1">
                                   <FileText className="h-3 w-3" />
+                                  {document?.indexNumber && <span className="font-mono">Doc {document.indexNumber}</span>}
                                   {documentName}
                                   <ExternalLink className="h-3 w-3" />
                                 </div>
                               </Button>
+                              {answer.sectionPath && (
+                                <span className="text-xs text-slate-500 truncate max-w-[280px]" title={answer.sectionPath}>
+                                  § {answer.sectionPath}
+                                </span>
+                              )}
+                              {answer.pageNumber && (
+                                <span className="text-xs text-slate-500 whitespace-nowrap">p. {answer.pageNumber}</span>
+                              )}
                             </div>
                             <div className="flex items-center gap-2">
+                              {answer.ranking && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs text-slate-600"
+                                  title={formatRanking(answer.ranking)}
+                                >
+                                  #{answer.ranking.rerank}
+                                  {answer.ranking.rerankScore !== undefined && ` · ${answer.ranking.rerankScore.toFixed(2)}`}
+                                </Badge>
+                              )}
+                              {answer.stale && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs bg-amber-50 text-amber-700 border-amber-200"
+                                  title="A newer version of this document was uploaded. Re-analyze the question to refresh the answer."
+                                >
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  Stale
+                                </Badge>
+                              )}
                               <Badge 
                                 variant={answer.compliant ? "default" : "destructive"}
                                 className={`text-xs ${
@@ -212,11 +250,14 @@ export function AnswerViewer({ questionId, questionContent, answers, trigger }:
         <DocumentViewer
           document={selectedDocument}
           isOpen={isDocumentViewerOpen}
-          highlightText={selectedAnswerText || undefined}
+          highlightText={selectedAnswer?.content}
+          highlightRange={selectedAnswer?.startOffset !== undefined && selectedAnswer.endOffset !== undefined
+            ? { start: selectedAnswer.startOffset, end: selectedAnswer.endOffset }
+            : undefined}
           onClose={() => {
             setIsDocumentViewerOpen(false);
             setSelectedDocument(null);
-            setSelectedAnswerText(null);
+            setSelectedAnswer(null);
           }}
         />
       )}
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useProjects } from '@/hooks/useStorage';
+import { Project } from '@/lib/types';
+
+interface ArchivedProjectNoticeProps {
+  project: Project;
+}
+
+// Shown above the pages of an archived project, whose data can be viewed but not changed
+export function ArchivedProjectNotice({ project }: ArchivedProjectNoticeProps) {
+  const { unarchive } = useProjects();
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    setError(null);
+    const result = await unarchive(project.id);
+    if (result.success) {
+      // Pages keep their own copy of the active project; reload so they allow changes again
+      window.location.reload();
+    } else {
+      setError(result.error || 'Failed to restore project');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <Archive className="h-4 w-4 shrink-0" />
+        <span>
+          This project was archived{project.archivedAt && ` on ${new Date(project.archivedAt).toLocaleDateString()}`} and is read-only.
+          {error && <span className="text-destructive ml-2">{error}</span>}
+        </span>
+      </div>
+      <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring}>
+        <ArchiveRestore className="h-4 w-4 mr-2" />
+        {isRestoring ? 'Restoring...' : 'Restore'}
+      </Button>
+    </div>
+  );
+}
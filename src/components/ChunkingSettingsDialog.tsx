@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { AnswerService, ReindexProgress, ReindexResult } from '@/lib/answer';
+import { DEFAULT_CHUNKING_CONFIG } from '@/lib/rag';
+import { DOCUMENT_TYPES } from '@/lib/services/document';
+import { projectService } from '@/lib/services/project';
+import { ChunkingConfig, ChunkingStrategy } from '@/lib/types';
+
+const answerService = new AnswerService();
+
+const STRATEGIES: { value: ChunkingStrategy; label: string }[] = [
+  { value: 'sections', label: 'Sections (headings and clauses)' },
+  { value: 'sentences', label: 'Sentences' },
+  { value: 'fixed', label: 'Fixed size' },
+];
+
+interface DocumentTypeOverride {
+  documentType: string;
+  config: ChunkingConfig;
+}
+
+interface ChunkingSettingsDialogProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onReindexed?: (result: ReindexResult) => void;
+}
+
+interface ChunkingProfileFieldsProps {
+  id: string;
+  config: ChunkingConfig;
+  onChange: (config: ChunkingConfig) => void;
+  disabled?: boolean;
+}
+
+// Strategy, size, overlap and minimum size of one profile
+function ChunkingProfileFields({ id, config, onChange, disabled }: ChunkingProfileFieldsProps) {
+  const numberField = (field: 'maxChunkSize' | 'overlapSize' | 'minChunkSize', label: string) => (
+    <div className="grid gap-1">
+      <Label htmlFor={`${id}-${field}`} className="text-xs">{label}</Label>
+      <Input
+        id={`${id}-${field}`}
+        type="number"
+        min={0}
+        value={config[field]}
+        onChange={(e) => onChange({ ...config, [field]: Number(e.target.value) })}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      <div className="grid gap-1">
+        <Label className="text-xs">Strategy</Label>
+        <Select
+          value={config.strategy || 'sections'}
+          onValueChange={(strategy) => onChange({ ...config, strategy: strategy as ChunkingStrategy })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STRATEGIES.map(strategy => (
+              <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {numberField('maxChunkSize', 'Size (chars)')}
+      {numberField('overlapSize', 'Overlap (chars)')}
+      {numberField('minChunkSize', 'Minimum (chars)')}
+    </div>
+  );
+}
+
+// Edit a project's chunking profiles and rebuild its index with them
+export function ChunkingSettingsDialog({ projectId, isOpen, onClose, onReindexed }: ChunkingSettingsDialogProps) {
+  const [defaultConfig, setDefaultConfig] = useState<ChunkingConfig>(DEFAULT_CHUNKING_CONFIG);
+  const [overrides, setOverrides] = useState<DocumentTypeOverride[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [progress, setProgress] = useState<ReindexProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setProgress(null);
+    projectService.getChunkingSettings(projectId).then(settings => {
+      setDefaultConfig(settings?.default || DEFAULT_CHUNKING_CONFIG);
+      setOverrides(Object.entries(settings?.byDocumentType || {}).map(([documentType, config]) => ({ documentType, config })));
+    });
+  }, [isOpen, projectId]);
+
+  const isBusy = isSaving || progress !== null;
+  const availableTypes = DOCUMENT_TYPES.filter(type => !overrides.some(override => override.documentType === type));
+
+  const save = async (): Promise<boolean> => {
+    setError(null);
+    const result = await projectService.updateChunkingSettings(projectId, {
+      default: defaultConfig,
+      byDocumentType: Object.fromEntries(overrides.map(override => [override.documentType, override.config])),
+    });
+    if (!result.success) {
+      setError(result.error || 'Failed to save chunking settings');
+    }
+    return result.success;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (await save()) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveAndReindex = async () => {
+    setIsSaving(true);
+    try {
+      if (!(await save())) return;
+      setProgress({ completed: 0, total: 0 });
+      const result = await answerService.reindexProject(projectId, setProgress);
+      onReindexed?.(result);
+      if (result.failed.length > 0) {
+        setError(`Could not re-index: ${result.failed.join(', ')}`);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-indexing failed');
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isBusy) onClose();
+  };
+
+  const updateOverride = (index: number, changes: Partial<DocumentTypeOverride>) => {
+    setOverrides(prev => prev.map((override, i) => (i === index ? { ...override, ...changes } : override)));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Chunking Settings</DialogTitle>
+          <DialogDescription>
+            How documents of this project are split for search. Changes apply to documents indexed from now on;
+            re-index to apply them to documents already indexed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label className="font-medium">Default profile</Label>
+            <ChunkingProfileFields id="chunking-default" config={defaultConfig} onChange={setDefaultConfig} disabled={isBusy} />
+          </div>
+
+          <Separator />
+
+          <div className="grid gap-3">
+            <div className="flex items-center justify-between">
+              <Label className="font-medium">Overrides by document type</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={isBusy || availableTypes.length === 0}
+                onClick={() => setOverrides(prev => [...prev, { documentType: availableTypes[0], config: { ...defaultConfig } }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Override
+              </Button>
+            </div>
+            {overrides.length === 0 && (
+              <p className="text-sm text-muted-foreground">Every document type uses the default profile.</p>
+            )}
+            {overrides.map((override, index) => (
+              <div key={override.documentType} className="grid gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={override.documentType}
+                    onValueChange={(documentType) => updateOverride(index, { documentType })}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[override.documentType, ...availableTypes].map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => setOverrides(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <ChunkingProfileFields
+                  id={`chunking-${index}`}
+                  config={override.config}
+                  onChange={(config) => updateOverride(index, { config })}
+                  disabled={isBusy}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Spreadsheets are always chunked by rows; only their size applies.
+            </p>
+          </div>
+
+          {progress && (
+            <div className="grid gap-2">
+              <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                Re-indexed {progress.completed} of {progress.total} document(s)
+                {progress.documentName && <> — {progress.documentName}</>}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={handleSave} disabled={isBusy}>
+            Save
+          </Button>
+          <Button type="button" onClick={handleSaveAndReindex} disabled={isBusy}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${progress ? 'animate-spin' : ''}`} />
+            {progress ? 'Re-indexing...' : 'Save and Re-index'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useUserContext } from '@/contexts/UserContext';
 import { useActiveProject } from '@/hooks/useStorage';
 import { Role } from '@/lib/user';
-import { AnswerService } from '@/lib/answer';
+import { AnswerService, SearchMode } from '@/lib/answer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -22,6 +22,7 @@ export function DebugPanel() {
 
     // RAG request state
     const [ragQuery, setRagQuery] = useState('');
+    const [ragMode, setRagMode] = useState<SearchMode>('hybrid');
     const [ragResults, setRagResults] = useState<any[]>([]);
     const [ragLoading, setRagLoading] = useState(false);
     const [ragError, setRagError] = useState<string | null>(null);
@@ -55,7 +56,7 @@ export function DebugPanel() {
         setRagLoading(true);
         setRagError(null);
         try {
-            const results = await answerService.searchDocuments(activeProject.id, ragQuery.trim());
+            const results = await answerService.searchDocuments(activeProject.id, ragQuery.trim(), 5, { mode: ragMode });
             console.log('RESULTS: ', results);
             setRagResults(results);
         } catch (error) {
@@ -254,6 +255,16 @@ export function DebugPanel() {
                                             rows={3}
                                             disabled={!activeProject}
                                         />
+                                        <Select value={ragMode} onValueChange={(mode) => setRagMode(mode as SearchMode)}>
+                                            <SelectTrigger className="h-8 text-xs">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="hybrid">Hybrid (keyword + vector)</SelectItem>
+                                                <SelectItem value="vector">Vector</SelectItem>
+                                                <SelectItem value="keyword">Keyword (BM25)</SelectItem>
+                                            </SelectContent>
+                                        </Select>
                                         <Button
                                             size="sm"
                                             onClick={handleRagRequest}
@@ -279,7 +290,18 @@ export function DebugPanel() {
                                                     >
                                                         <div className="font-medium mb-1">
                                                             Score: {result.score?.toFixed(3)}
+                                                            {result.chunk.metadata?.startOffset !== undefined && (
+                                                                <span className="font-normal text-muted-foreground ml-2">
+                                                                    chars {result.chunk.metadata.startOffset}–{result.chunk.metadata.endOffset}
+                                                                    {result.chunk.metadata.pageNumber && `, p. ${result.chunk.metadata.pageNumber}`}
+                                                                </span>
+                                                            )}
                                                         </div>
+                                                        {result.chunk.metadata?.sectionPath && (
+                                                            <div className="text-muted-foreground mb-1">
+                                                                § {result.chunk.metadata.sectionPath}
+                                                            </div>
+                                                        )}
                                                         <div className="text-muted-foreground line-clamp-3">
                                                             {result.chunk.content || 'No content'}
                                                         </div>
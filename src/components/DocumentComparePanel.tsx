@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeftRight, GitCompare, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Document } from '@/lib/types';
+import { documentService, RedlineResult } from '@/lib/services/document';
+
+interface DocumentComparePanelProps {
+  document: Document;
+}
+
+type Comparison = RedlineResult & { format: 'html' | 'text' };
+
+const versionLabel = (doc: Document) => {
+  const version = doc.versionNumber ? ` (v${doc.versionNumber}${doc.supersededById ? ', superseded' : ''})` : '';
+  return `${doc.indexNumber ? `${doc.indexNumber} ` : ''}${doc.fileName}${version}`;
+};
+
+// Redline between the viewed document and another document of the same project
+export function DocumentComparePanel({ document }: DocumentComparePanelProps) {
+  const [candidates, setCandidates] = useState<Document[]>([]);
+  const [otherId, setOtherId] = useState<string>('');
+  // By default the other document is the original and the viewed one the revision
+  const [viewedIsRevised, setViewedIsRevised] = useState(true);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    documentService.getDocumentsByProject(document.projectId).then(documents => {
+      const others = documents.filter(doc => doc.id !== document.id);
+      setCandidates(others);
+      // Preselect the version this document replaced
+      const previous = others.find(doc => doc.supersededById === document.id);
+      setOtherId(previous?.id || '');
+      setViewedIsRevised(true);
+    });
+  }, [document]);
+
+  useEffect(() => {
+    const other = candidates.find(doc => doc.id === otherId);
+    setComparison(null);
+    setError(null);
+    if (!other) return;
+
+    let cancelled = false;
+    const [original, revised] = viewedIsRevised ? [other, document] : [document, other];
+    setLoading(true);
+    documentService.compareDocuments(original, revised)
+      .then(result => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch(err => {
+        console.error('Error comparing documents:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare documents');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [document, candidates, otherId, viewedIsRevised]);
+
+  const other = candidates.find(doc => doc.id === otherId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 px-4">
+        <span className="text-sm text-muted-foreground whitespace-nowrap">Compare with</span>
+        <Select value={otherId} onValueChange={setOtherId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select a document" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map(doc => (
+              <SelectItem key={doc.id} value={doc.id}>
+                {versionLabel(doc)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setViewedIsRevised(!viewedIsRevised)}
+          disabled={!other}
+          title="Swap original and revised"
+        >
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {other && (
+        <div className="flex items-center justify-between px-4 text-xs text-muted-foreground">
+          <span>
+            Changes from <span className="font-medium">{(viewedIsRevised ? other : document).fileName}</span> to{' '}
+            <span className="font-medium">{(viewedIsRevised ? document : other).fileName}</span>
+          </span>
+          {comparison && (
+            <span>
+              <span className="text-emerald-700">+{comparison.insertions}</span> /{' '}
+              <span className="text-red-700">−{comparison.deletions}</span> words
+            </span>
+          )}
+        </div>
+      )}
+
+      <ScrollArea className="h-[calc(90vh-280px)]">
+        <div className="p-4">
+          {!other ? (
+            <div className="text-center py-12">
+              <GitCompare className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">Select a document to compare against</p>
+            </div>
+          ) : loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Comparing documents...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : comparison && (
+            <div
+              className={`prose prose-sm max-w-none [&_ins]:bg-emerald-100 [&_ins]:text-emerald-900 [&_ins]:no-underline [&_del]:bg-red-100 [&_del]:text-red-700 [&_del]:line-through ${
+                comparison.format === 'text' ? 'whitespace-pre-wrap font-sans text-sm leading-relaxed' : ''
+              }`}
+              dangerouslySetInnerHTML={{ __html: comparison.html }}
+            />
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
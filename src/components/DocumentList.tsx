@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { File, Eye, Trash2, Calendar, User, FileText, Play, CheckCircle, XCircle, Loader2, Brain } from 'lucide-react';
+import { File, FileImage, Eye, Trash2, Calendar, User, FileText, Play, CheckCircle, XCircle, Loader2, Brain, ScanText, FileSpreadsheet } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +7,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
 import { Document, ProcessingStatus } from '@/lib/types';
+import { getLowConfidencePages, OCR_LOW_CONFIDENCE_THRESHOLD } from '@/lib/services/document/ocr';
 import { DocumentViewer } from './DocumentViewer';
 
 interface DocumentListProps {
@@ -105,7 +106,18 @@ export function DocumentList({
         case 'txt':
           return <FileText className="h-5 w-5 text-green-500" />;
         case 'rtf':
+        case 'odt':
           return <File className="h-5 w-5 text-purple-500" />;
+        case 'xlsx':
+        case 'xls':
+        case 'csv':
+          return <FileSpreadsheet className="h-5 w-5 text-emerald-600" />;
+        case 'png':
+        case 'jpg':
+        case 'jpeg':
+        case 'tif':
+        case 'tiff':
+          return <FileImage className="h-5 w-5 text-amber-500" />;
         default:
           return <File className="h-5 w-5 text-gray-500" />;
       }
@@ -211,6 +223,12 @@ export function DocumentList({
                       {document.documentType}
                     </Badge>
                     {getProcessingStatusBadge(document.processingStatus)}
+                    {document.pages?.some(page => page.source === 'ocr') && (
+                      <Badge variant="outline" className="text-xs flex items-center gap-1">
+                        <ScanText className="h-3 w-3" />
+                        OCR
+                      </Badge>
+                    )}
                   </div>
                   
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -227,6 +245,24 @@ export function DocumentList({
                     )}
                   </div>
                   
+                  {/* Low-confidence OCR warning */}
+                  {getLowConfidencePages(document).length > 0 && (
+                    <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <div className="flex items-center gap-2 mb-1">
+                        <ScanText className="h-4 w-4 text-amber-600" />
+                        <span className="text-sm font-medium text-amber-800">
+                          Low OCR confidence
+                        </span>
+                      </div>
+                      <p className="text-xs text-amber-700">
+                        {getLowConfidencePages(document)
+                          .map(page => `Page ${page.pageNumber} (${page.ocrConfidence ?? 0}%)`)
+                          .join(', ')}
+                        {' '}scored below {OCR_LOW_CONFIDENCE_THRESHOLD}% and should be checked against the original.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Processing indicator */}
                   {document.processingStatus === 'processing' && (
                     <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderTreeNode } from '@/lib/services/folder';
+
+// Radix Select does not allow an empty item value
+const TOP_LEVEL = '__top_level__';
+
+type TreeActionResult = { success: boolean; error?: string };
+
+interface NameDialogProps {
+  isOpen: boolean;
+  title: string;
+  description: string;
+  label: string;
+  initialValue: string;
+  submitLabel: string;
+  onSubmit: (name: string) => Promise<TreeActionResult>;
+  onClose: () => void;
+}
+
+// Ask for a folder or document name
+export function NameDialog({
+  isOpen,
+  title,
+  description,
+  label,
+  initialValue,
+  submitLabel,
+  onSubmit,
+  onClose,
+}: NameDialogProps) {
+  const [name, setName] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(initialValue);
+      setError(null);
+    }
+  }, [isOpen, initialValue]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError(`${label} is required`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await onSubmit(name);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Something went wrong');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="tree-item-name">{label}</Label>
+              <Input
+                id="tree-item-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isSubmitting}
+                autoFocus
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                {error}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MoveDialogProps {
+  isOpen: boolean;
+  itemName: string;
+  currentFolderId: string | null;
+  folders: FolderTreeNode[];
+  excludeFolderId?: string; // A folder being moved cannot go into its own subtree
+  onSubmit: (folderId: string | null) => Promise<TreeActionResult>;
+  onClose: () => void;
+}
+
+// Pick the destination folder of a document or folder
+export function MoveDialog({
+  isOpen,
+  itemName,
+  currentFolderId,
+  folders,
+  excludeFolderId,
+  onSubmit,
+  onClose,
+}: MoveDialogProps) {
+  const [target, setTarget] = useState(currentFolderId || TOP_LEVEL);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setTarget(currentFolderId || TOP_LEVEL);
+      setError(null);
+    }
+  }, [isOpen, currentFolderId]);
+
+  // Folders in index order, indented by depth
+  const options: { id: string; label: string; depth: number }[] = [];
+  const collect = (nodes: FolderTreeNode[], depth: number) => {
+    for (const node of nodes) {
+      if (node.folder.id === excludeFolderId) continue;
+      const { indexNumber, name } = node.folder;
+      options.push({ id: node.folder.id, label: indexNumber ? `${indexNumber} ${name}` : name, depth });
+      collect(node.children, depth + 1);
+    }
+  };
+  collect(folders, 0);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const result = await onSubmit(target === TOP_LEVEL ? null : target);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to move');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Move "{itemName}"</DialogTitle>
+          <DialogDescription>
+            The item is added at the end of the destination folder and index numbers are updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label>Destination</Label>
+            <Select value={target} onValueChange={setTarget} disabled={isSubmitting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+                {options.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    <span style={{ paddingLeft: option.depth * 12 }}>{option.label}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || target === (currentFolderId || TOP_LEVEL)}>
+            {isSubmitting ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
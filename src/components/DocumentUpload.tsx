@@ -1,5 +1,5 @@
 import { useState, useRef } from 'react';
-import { Upload, File, X, AlertCircle, Brain, Loader2 } from 'lucide-react';
+import { Upload, File, FileImage, X, AlertCircle, Brain, Loader2, FileSpreadsheet, FileArchive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -26,7 +26,7 @@ export function DocumentUpload({
   loading = false, 
   error = null, 
   maxFiles = 10,
-  acceptedTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf']
+  acceptedTypes = ['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt', '.xlsx', '.xls', '.csv', '.png', '.jpg', '.jpeg', '.tif', '.tiff', '.zip']
 }: DocumentUploadProps) {
   const [selectedFiles, setSelectedFiles] = useState<FileWithProgress[]>([]);
   const [dragActive, setDragActive] = useState(false);
@@ -168,7 +168,20 @@ export function DocumentUpload({
       case 'txt':
         return <File className="h-4 w-4 text-green-500" />;
       case 'rtf':
+      case 'odt':
         return <File className="h-4 w-4 text-purple-500" />;
+      case 'zip':
+        return <FileArchive className="h-4 w-4 text-yellow-700" />;
+      case 'xlsx':
+      case 'xls':
+      case 'csv':
+        return <FileSpreadsheet className="h-4 w-4 text-emerald-600" />;
+      case 'png':
+      case 'jpg':
+      case 'jpeg':
+      case 'tif':
+      case 'tiff':
+        return <FileImage className="h-4 w-4 text-amber-500" />;
       default:
         return <File className="h-4 w-4 text-gray-500" />;
     }
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Download, History, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Document } from '@/lib/types';
+
+interface DocumentVersionsDialogProps {
+  document: Document | null;
+  loadVersions: (documentId: string) => Promise<Document[]>;
+  onClose: () => void;
+}
+
+// Version history of a logical document, newest first
+export function DocumentVersionsDialog({ document, loadVersions, onClose }: DocumentVersionsDialogProps) {
+  const [versions, setVersions] = useState<Document[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!document) return;
+
+    setLoading(true);
+    loadVersions(document.id)
+      .then(setVersions)
+      .finally(() => setLoading(false));
+  }, [document, loadVersions]);
+
+  const download = (version: Document) => {
+    const bytes = Uint8Array.from(atob(version.content), char => char.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = version.fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Only the current version is searched for answers. Earlier versions are kept for reference.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center gap-2 py-6 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between border border-border rounded-lg p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <span className="font-mono text-muted-foreground">v{version.versionNumber || 1}</span>
+                    {version.fileName}
+                    {!version.supersededById && <Badge className="bg-green-500">Current</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Uploaded {new Date(version.createdAt).toLocaleString()} by {version.userId || 'Unknown'}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => download(version)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
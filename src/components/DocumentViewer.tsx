@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { X, File, Download, FileText, Calendar, User, Hash, Eye, Brain, Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { X, File, Download, FileText, Calendar, User, Hash, Eye, Brain, Loader2, CheckCircle, XCircle, FileSpreadsheet, GitCompare } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,37 +8,52 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Document } from '@/lib/types';
 import { documentService } from '@/lib/services/document/service';
+import { DocumentComparePanel } from './DocumentComparePanel';
 
 interface DocumentViewerProps {
   document: Document;
   isOpen: boolean;
   onClose: () => void;
   highlightText?: string; // Text to highlight in the document
+  highlightRange?: { start: number; end: number }; // Offsets into rawText of the passage to highlight
 }
 
-export function DocumentViewer({ document, isOpen, onClose, highlightText }: DocumentViewerProps) {
-  const [activeTab, setActiveTab] = useState<'content' | 'metadata'>('content');
+export function DocumentViewer({ document, isOpen, onClose, highlightText, highlightRange }: DocumentViewerProps) {
+  const [activeTab, setActiveTab] = useState<'content' | 'metadata' | 'formatted' | 'compare'>('content');
   const [htmlContent, setHtmlContent] = useState<string | null>(null);
   const [loadingHtml, setLoadingHtml] = useState(false);
+  const passageRef = useRef<HTMLElement>(null);
 
-  // Load HTML content for .docx files
+  // Offsets recorded for another text of the document (e.g. before re-extraction) are ignored
+  const passage = highlightRange && highlightRange.start < highlightRange.end && highlightRange.end <= document.rawText.length
+    ? highlightRange
+    : null;
+
+  // Scroll the cited passage into view once the content tab has rendered
+  const passageStart = passage?.start;
   useEffect(() => {
-    if (document.documentType.toLowerCase() === 'word document' && document.fileName.toLowerCase().endsWith('.docx')) {
-      setLoadingHtml(true);
-      documentService.extractHtmlFromDocx(document.content)
-        .then(html => {
-          setHtmlContent(html);
-        })
-        .catch(error => {
-          console.error('Error loading HTML content:', error);
-          setHtmlContent(null);
-        })
-        .finally(() => {
-          setLoadingHtml(false);
-        });
-    } else {
-      setHtmlContent(null);
-    }
+    if (!isOpen || passageStart === undefined || activeTab !== 'content') return;
+    const frame = requestAnimationFrame(() => {
+      passageRef.current?.scrollIntoView({ block: 'center' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, activeTab, passageStart]);
+
+  // Load the formatted HTML rendition for word-processing formats
+  useEffect(() => {
+    setHtmlContent(null);
+    setLoadingHtml(true);
+    documentService.extractHtml(document)
+      .then(html => {
+        setHtmlContent(html);
+      })
+      .catch(error => {
+        console.error('Error loading HTML content:', error);
+        setHtmlContent(null);
+      })
+      .finally(() => {
+        setLoadingHtml(false);
+      });
   }, [document]);
 
   const formatFileSize = (bytes: number) => {
@@ -104,7 +119,12 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
         case 'txt':
           return <FileText className="h-6 w-6 text-green-500" />;
         case 'rtf':
+        case 'odt':
           return <File className="h-6 w-6 text-purple-500" />;
+        case 'xlsx':
+        case 'xls':
+        case 'csv':
+          return <FileSpreadsheet className="h-6 w-6 text-emerald-600" />;
         default:
           return <File className="h-6 w-6 text-gray-500" />;
       }
@@ -155,8 +175,8 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
         <Separator className="flex-shrink-0" />
 
         <div className="flex-1 min-h-0">
-          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'content' | 'metadata' | 'formatted')}>
-            <TabsList className={`grid w-full ${htmlContent ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'content' | 'metadata' | 'formatted' | 'compare')}>
+            <TabsList className={`grid w-full ${htmlContent ? 'grid-cols-4' : 'grid-cols-3'}`}>
               <TabsTrigger value="content" className="flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Raw Text
@@ -171,6 +191,10 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
                 <Hash className="h-4 w-4" />
                 Metadata
               </TabsTrigger>
+              <TabsTrigger value="compare" className="flex items-center gap-2">
+                <GitCompare className="h-4 w-4" />
+                Compare
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="content" className="mt-4 h-full">
@@ -178,7 +202,15 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
                 <div className="p-4">
                   {document.rawText ? (
                     <div className="prose prose-sm max-w-none">
-                      {highlightText ? (
+                      {passage ? (
+                        <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
+                          {document.rawText.slice(0, passage.start)}
+                          <mark ref={passageRef} className="bg-yellow-200 rounded">
+                            {document.rawText.slice(passage.start, passage.end)}
+                          </mark>
+                          {document.rawText.slice(passage.end)}
+                        </pre>
+                      ) : highlightText ? (
                         <div 
                           className="whitespace-pre-wrap font-sans text-sm leading-relaxed"
                           dangerouslySetInnerHTML={{ 
@@ -388,9 +420,9 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
                         </div>
                         <div className="p-3 border rounded-lg">
                           <p className="text-2xl font-bold">
-                            {Math.round(document.rawText.split(/\s+/).filter(word => word.length > 0).length / 200)}
+                            {document.pages?.length ?? Math.round(document.rawText.split(/\s+/).filter(word => word.length > 0).length / 200)}
                           </p>
-                          <p className="text-sm text-muted-foreground">Est. Pages</p>
+                          <p className="text-sm text-muted-foreground">{document.pages ? 'Pages' : 'Est. Pages'}</p>
                         </div>
                       </div>
                     </div>
@@ -398,6 +430,10 @@ export function DocumentViewer({ document, isOpen, onClose, highlightText }: Doc
                 </div>
               </ScrollArea>
             </TabsContent>
+
+            <TabsContent value="compare" className="mt-4 h-full">
+              <DocumentComparePanel document={document} />
+            </TabsContent>
           </Tabs>
         </div>
       </DialogContent>
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { DuplicateResolution } from '@/lib/services/document';
+import { PendingDuplicate } from '@/hooks/useDuplicateResolver';
+
+interface DuplicateUploadDialogProps {
+  pending: PendingDuplicate | null;
+  onRespond: (resolution: DuplicateResolution, applyToAll: boolean) => void;
+}
+
+// Ask whether to skip, replace or keep an upload that duplicates an existing document
+export function DuplicateUploadDialog({ pending, onRespond }: DuplicateUploadDialogProps) {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  useEffect(() => {
+    if (pending) setApplyToAll(false);
+  }, [pending]);
+
+  if (!pending) return null;
+
+  const { file, match } = pending;
+  const existing = match.document;
+  const existingName = existing.indexNumber ? `${existing.indexNumber} ${existing.fileName}` : existing.fileName;
+
+  return (
+    // Dismissing the dialog skips the file
+    <Dialog open onOpenChange={(open) => !open && onRespond('skip', applyToAll)}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            {match.exact ? 'Duplicate Document' : 'Similar Document'}
+          </DialogTitle>
+          <DialogDescription>
+            {match.exact
+              ? <><span className="font-medium">{file.name}</span> has the same content as <span className="font-medium">{existingName}</span>.</>
+              : <><span className="font-medium">{file.name}</span> is about {Math.round(match.similarity * 100)}% similar to <span className="font-medium">{existingName}</span>.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-1 text-sm text-muted-foreground">
+          <li><span className="font-medium text-foreground">Skip</span> does not upload the file.</li>
+          <li><span className="font-medium text-foreground">Replace</span> uploads it as a new version of {existing.fileName}.</li>
+          <li><span className="font-medium text-foreground">Keep both</span> uploads it as a separate document.</li>
+        </ul>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="duplicate-apply-all" checked={applyToAll} onCheckedChange={(checked) => setApplyToAll(checked === true)} />
+          <Label htmlFor="duplicate-apply-all" className="text-sm font-normal">
+            Do the same for other duplicates in this upload
+          </Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onRespond('skip', applyToAll)}>Skip</Button>
+          <Button variant="outline" onClick={() => onRespond('replace', applyToAll)}>Replace</Button>
+          <Button onClick={() => onRespond('keep', applyToAll)}>Keep Both</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderInput, FolderOpen, FolderPlus, Library, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FolderTree, FolderTreeNode } from '@/lib/services/folder';
+import { DocumentFolder } from '@/lib/types';
+
+interface FolderTreeNavigatorProps {
+  tree: FolderTree;
+  totalDocuments: number;
+  selectedFolderId: string | null; // null selects the whole data room
+  onSelect: (folderId: string | null) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameFolder: (folder: DocumentFolder) => void;
+  onMoveFolder: (folder: DocumentFolder) => void;
+  onDeleteFolder: (folder: DocumentFolder) => void;
+  readOnly?: boolean; // Hides the folder actions, e.g. for archived projects
+}
+
+// Number of documents in a folder and all of its sub-folders
+function countDocuments(node: FolderTreeNode): number {
+  return node.documents.length + node.children.reduce((sum, child) => sum + countDocuments(child), 0);
+}
+
+export function FolderTreeNavigator({
+  tree,
+  totalDocuments,
+  selectedFolderId,
+  onSelect,
+  onCreateFolder,
+  onRenameFolder,
+  onMoveFolder,
+  onDeleteFolder,
+  readOnly = false,
+}: FolderTreeNavigatorProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (folderId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: FolderTreeNode, depth: number) => {
+    const { folder } = node;
+    const isSelected = selectedFolderId === folder.id;
+    const isCollapsed = collapsed.has(folder.id);
+    const isEmpty = node.children.length === 0 && node.documents.length === 0;
+
+    return (
+      <div key={folder.id}>
+        <div
+          className={`group flex items-center gap-1 rounded px-1 py-1 text-sm cursor-pointer ${
+            isSelected ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50'
+          }`}
+          style={{ paddingLeft: depth * 12 + 4 }}
+          onClick={() => onSelect(folder.id)}
+        >
+          <button
+            type="button"
+            className="p-0.5 text-muted-foreground"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle(folder.id);
+            }}
+            disabled={node.children.length === 0}
+            aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+          >
+            {node.children.length === 0 ? (
+              <span className="block h-3 w-3" />
+            ) : isCollapsed ? (
+              <ChevronRight className="h-3 w-3" />
+            ) : (
+              <ChevronDown className="h-3 w-3" />
+            )}
+          </button>
+          {isSelected ? <FolderOpen className="h-4 w-4 shrink-0" /> : <Folder className="h-4 w-4 shrink-0" />}
+          {folder.indexNumber && <span className="font-mono text-xs text-muted-foreground">{folder.indexNumber}</span>}
+          <span className="truncate flex-1">{folder.name}</span>
+          <span className={`text-xs text-muted-foreground ${readOnly ? '' : 'group-hover:hidden'}`}>{countDocuments(node)}</span>
+          {!readOnly && <div className="hidden group-hover:flex items-center">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-5 w-5"
+              title="New sub-folder"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCreateFolder(folder.id);
+              }}
+            >
+              <FolderPlus className="h-3 w-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-5 w-5"
+              title="Rename folder"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRenameFolder(folder);
+              }}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-5 w-5"
+              title="Move folder"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMoveFolder(folder);
+              }}
+            >
+              <FolderInput className="h-3 w-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-5 w-5"
+              title={isEmpty ? 'Delete folder' : 'Only empty folders can be deleted'}
+              disabled={!isEmpty}
+              onClick={(e) => {
+                e.stopPropagation();
+                onDeleteFolder(folder);
+              }}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>}
+        </div>
+        {!isCollapsed && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-1 pb-2">
+        <span className="text-sm font-medium text-foreground">Data Room</span>
+        {!readOnly && (
+          <Button size="sm" variant="ghost" className="h-7 px-2" onClick={() => onCreateFolder(null)}>
+            <FolderPlus className="h-4 w-4 mr-1" />
+            New Folder
+          </Button>
+        )}
+      </div>
+      <div
+        className={`flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer ${
+          selectedFolderId === null ? 'bg-primary/10 text-primary' : 'hover:bg-muted/50'
+        }`}
+        onClick={() => onSelect(null)}
+      >
+        <Library className="h-4 w-4" />
+        <span className="flex-1">All Documents</span>
+        <span className="text-xs text-muted-foreground">{totalDocuments}</span>
+      </div>
+      {tree.folders.map(node => renderNode(node, 0))}
+      {tree.folders.length === 0 && (
+        <p className="px-2 py-4 text-xs text-muted-foreground">
+          No folders yet. Upload a ZIP data room or create a folder to organize documents.
+        </p>
+      )}
+    </div>
+  );
+}
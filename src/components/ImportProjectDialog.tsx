@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useUserContext } from '@/contexts/UserContext';
+import { ReindexProgress } from '@/lib/answer';
+import { ImportSummary, projectBundleService } from '@/lib/services/projectBundle';
+import { Project } from '@/lib/types';
+
+interface ImportProjectDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onProjectImported: (project: Project) => void;
+}
+
+// Recreate a project from an exported bundle and index its answer documents again
+export function ImportProjectDialog({ isOpen, onClose, onProjectImported }: ImportProjectDialogProps) {
+  const { currentUser } = useUserContext();
+  const [file, setFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState<ReindexProgress | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setProgress(null);
+    setSummary(null);
+    setError(null);
+  }, [isOpen]);
+
+  const handleImport = async () => {
+    if (!file || !currentUser) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await projectBundleService.importProject(file, currentUser.id, setProgress);
+      if (result.success && result.data) {
+        setSummary(result.data);
+      } else {
+        setError(result.error || 'Failed to import project');
+      }
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    if (summary) {
+      onProjectImported(summary.project);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            Recreate a project from an exported bundle, with its documents, questions and answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          {!summary && (
+            <div className="grid gap-2">
+              <Label htmlFor="project-bundle">Project bundle (.zip)</Label>
+              <Input
+                id="project-bundle"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={e => setFile(e.target.files?.[0] || null)}
+                disabled={isImporting}
+              />
+            </div>
+          )}
+
+          {progress && (
+            <div className="grid gap-2">
+              <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                Indexed {progress.completed} of {progress.total} document(s)
+                {progress.documentName && <> — {progress.documentName}</>}
+              </p>
+            </div>
+          )}
+
+          {summary && (
+            <div className="text-sm space-y-1">
+              <p className="font-medium">Imported "{summary.project.name}"</p>
+              <p className="text-muted-foreground">
+                {summary.documents} document(s), {summary.questions} question(s), {summary.questionAnswers} answer(s);
+                {' '}{summary.indexed} document(s) indexed.
+              </p>
+              {summary.failed.length > 0 && (
+                <p className="text-destructive">
+                  Could not index: {summary.failed.join(', ')}. Re-index the project once the backend is reachable.
+                </p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {summary ? (
+            <Button type="button" onClick={handleClose}>
+              Open Project
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={handleClose} disabled={isImporting}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleImport} disabled={!file || !currentUser || isImporting}>
+                <Upload className="h-4 w-4 mr-2" />
+                {isImporting ? 'Importing...' : 'Import'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
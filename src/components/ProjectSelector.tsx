@@ -1,10 +1,11 @@
 import { useState } from 'react';
-import { ChevronDown, Plus, Folder } from 'lucide-react';
+import { ChevronDown, Plus, Folder, Upload, Archive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -14,6 +15,7 @@ import {
 import { useProjects, useActiveProject } from '@/hooks/useStorage';
 import { Project } from '@/lib/types';
 import { NewProjectModal } from './NewProjectModal';
+import { ImportProjectDialog } from './ImportProjectDialog';
 
 interface ProjectSelectorProps {
   isCollapsed?: boolean;
@@ -23,6 +25,12 @@ export function ProjectSelector({ isCollapsed = false }: ProjectSelectorProps) {
   const { data: projects, loading, create } = useProjects();
   const { activeProject, setActive } = useActiveProject();
   const [isNewProjectModalOpen, setIsNewProjectModalOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Archived projects stay out of the list unless asked for
+  const archivedCount = projects.filter(project => project.archivedAt).length;
+  const visibleProjects = projects.filter(project => showArchived || !project.archivedAt);
 
   // Debug logging
   console.log('ProjectSelector - projects:', projects);
@@ -44,6 +52,14 @@ export function ProjectSelector({ isCollapsed = false }: ProjectSelectorProps) {
     await setActive(newProject);
   };
 
+  const handleProjectImported = async (project: Project) => {
+    setIsImportDialogOpen(false);
+    await setActive(project);
+    // Pages keep their own copies of projects, questions and analysis results; reload so they
+    // pick up the imported ones
+    window.location.reload();
+  };
+
   if (loading) {
     return (
       <div className="px-3 py-2">
@@ -77,14 +93,18 @@ export function ProjectSelector({ isCollapsed = false }: ProjectSelectorProps) {
               <Plus className="mr-2 h-4 w-4" />
               Create New
             </DropdownMenuItem>
-            {projects && projects.length > 0 ? (
-              projects.map((project) => (
+            <DropdownMenuItem onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Project
+            </DropdownMenuItem>
+            {visibleProjects.length > 0 ? (
+              visibleProjects.map((project) => (
                 <DropdownMenuItem
                   key={project.id}
                   onClick={() => handleProjectSelect(project)}
-                  className={activeProject?.id === project.id ? 'bg-accent' : ''}
+                  className={`${activeProject?.id === project.id ? 'bg-accent' : ''} ${project.archivedAt ? 'text-muted-foreground' : ''}`}
                 >
-                  <Folder className="mr-2 h-4 w-4" />
+                  {project.archivedAt ? <Archive className="mr-2 h-4 w-4" /> : <Folder className="mr-2 h-4 w-4" />}
                   {project.name}
                 </DropdownMenuItem>
               ))
@@ -94,6 +114,21 @@ export function ProjectSelector({ isCollapsed = false }: ProjectSelectorProps) {
                 No projects yet
               </DropdownMenuItem>
             )}
+            {archivedCount > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onSelect={(e) => {
+                    // Keep the menu open to pick one of the archived projects
+                    e.preventDefault();
+                    setShowArchived(!showArchived);
+                  }}
+                >
+                  <Archive className="mr-2 h-4 w-4" />
+                  {showArchived ? 'Hide' : 'Show'} Archived ({archivedCount})
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -103,6 +138,12 @@ export function ProjectSelector({ isCollapsed = false }: ProjectSelectorProps) {
         onClose={() => setIsNewProjectModalOpen(false)}
         onProjectCreated={handleNewProjectCreated}
       />
+
+      <ImportProjectDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onProjectImported={handleProjectImported}
+      />
     </>
   );
 }
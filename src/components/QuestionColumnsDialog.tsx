@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Table } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { detectQuestionColumns, extractQuestionsFromSheets, QuestionColumnMapping } from '@/lib/services/document';
+import { Document, DocumentSheet } from '@/lib/types';
+
+interface QuestionColumnsDialogProps {
+  document: Document | null;
+  onConfirm: (mapping: QuestionColumnMapping) => void;
+  onCancel: () => void;
+}
+
+// Select value standing for "no column" or "no header row"; Radix does not allow an empty value
+const NONE = 'none';
+
+// Rows offered as the header row
+const HEADER_ROW_CHOICES = 10;
+
+const PREVIEW_QUESTIONS = 3;
+
+const OPTIONAL_COLUMNS: { key: 'number' | 'category' | 'stakeholder'; label: string }[] = [
+  { key: 'number', label: 'Number' },
+  { key: 'category', label: 'Category' },
+  { key: 'stakeholder', label: 'Stakeholder' },
+];
+
+// Mapping to start from when nothing was detected: the first sheet, read from its first column
+function defaultMapping(sheet: DocumentSheet): QuestionColumnMapping {
+  return { sheetName: sheet.name, headerRowNumber: sheet.headerRowNumber, question: sheet.columns[0] };
+}
+
+function truncate(text: string, length = 40): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+// Show the columns a request list is read from and let the user correct them before questions are created
+export function QuestionColumnsDialog({ document, onConfirm, onCancel }: QuestionColumnsDialogProps) {
+  const sheets = useMemo(() => document?.sheets || [], [document]);
+  const [mapping, setMapping] = useState<QuestionColumnMapping | null>(null);
+  const [detected, setDetected] = useState(false);
+
+  useEffect(() => {
+    if (sheets.length === 0) {
+      setMapping(null);
+      return;
+    }
+    const detectedMapping = detectQuestionColumns(sheets);
+    setDetected(!!detectedMapping);
+    setMapping(detectedMapping || defaultMapping(sheets[0]));
+  }, [sheets]);
+
+  const sheet = sheets.find(candidate => candidate.name === mapping?.sheetName);
+
+  // Column labels come from the chosen header row
+  const headerRow = sheet?.rows.find(row => row.rowNumber === mapping?.headerRowNumber);
+  const columnLabel = (column: string, index: number) => {
+    const header = headerRow?.cells[index];
+    return header ? `${column} — ${truncate(header)}` : column;
+  };
+
+  const preview = useMemo(() => {
+    if (!mapping) return { questions: [], error: null as string | null };
+    try {
+      return { questions: extractQuestionsFromSheets(sheets, mapping), error: null };
+    } catch (error) {
+      return { questions: [], error: error instanceof Error ? error.message : 'Could not read the sheet' };
+    }
+  }, [sheets, mapping]);
+
+  if (!document || !mapping || !sheet) return null;
+
+  const update = (changes: Partial<QuestionColumnMapping>) => setMapping({ ...mapping, ...changes });
+
+  const changeSheet = (sheetName: string) => {
+    const next = sheets.find(candidate => candidate.name === sheetName);
+    if (!next) return;
+    // Detect the columns of the newly chosen sheet
+    const detectedMapping = detectQuestionColumns([next]);
+    setMapping(detectedMapping || defaultMapping(next));
+  };
+
+  const columnSelect = (id: string, value: string | undefined, onChange: (value: string | undefined) => void, optional: boolean) => (
+    <Select value={value || NONE} onValueChange={next => onChange(next === NONE ? undefined : next)}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NONE}>None</SelectItem>}
+        {sheet.columns.map((column, index) => (
+          <SelectItem key={column} value={column}>{columnLabel(column, index)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Table className="h-5 w-5" />
+            Question Columns
+          </DialogTitle>
+          <DialogDescription>
+            {detected
+              ? <>These columns of <span className="font-medium">{document.fileName}</span> were detected. Correct them if needed before the questions are created.</>
+              : <>No question column was detected in <span className="font-medium">{document.fileName}</span>. Choose the columns to read the questions from.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {sheets.length > 1 && (
+            <div className="grid gap-2">
+              <Label htmlFor="question-columns-sheet">Sheet</Label>
+              <Select value={mapping.sheetName} onValueChange={changeSheet}>
+                <SelectTrigger id="question-columns-sheet">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map(candidate => (
+                    <SelectItem key={candidate.name} value={candidate.name}>{candidate.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="question-columns-header">Header row</Label>
+            <Select
+              value={mapping.headerRowNumber !== undefined ? String(mapping.headerRowNumber) : NONE}
+              onValueChange={value => update({ headerRowNumber: value === NONE ? undefined : Number(value) })}
+            >
+              <SelectTrigger id="question-columns-header">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {sheet.rows.slice(0, HEADER_ROW_CHOICES).map(row => (
+                  <SelectItem key={row.rowNumber} value={String(row.rowNumber)}>
+                    {row.rowNumber}: {truncate(row.cells.filter(cell => cell).join(', '))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="question-columns-question">Question</Label>
+            {columnSelect('question-columns-question', mapping.question, value => value && update({ question: value }), false)}
+          </div>
+
+          {OPTIONAL_COLUMNS.map(({ key, label }) => (
+            <div key={key} className="grid gap-2">
+              <Label htmlFor={`question-columns-${key}`}>{label}</Label>
+              {columnSelect(`question-columns-${key}`, mapping[key], value => update({ [key]: value }), true)}
+            </div>
+          ))}
+        </div>
+
+        <div className="text-sm space-y-1">
+          {preview.error ? (
+            <p className="text-destructive">{preview.error}</p>
+          ) : (
+            <>
+              <p className="font-medium">{preview.questions.length} question(s) will be created</p>
+              {preview.questions.slice(0, PREVIEW_QUESTIONS).map((question, index) => (
+                <p key={index} className="text-muted-foreground truncate">
+                  {question.number && <>{question.number} </>}{question.content}
+                  <span className="text-xs"> · {question.category} · {question.stakeholder}</span>
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(mapping)} disabled={preview.questions.length === 0}>
+            Create Questions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ interface QuestionListProps {
   questions: Question[];
   onAnalyzeQuestion?: (question: Question) => void;
   analyzing?: boolean;
+  readOnly?: boolean; // Hides the delete buttons, e.g. for archived projects
 }
 
 interface QuestionItemProps {
@@ -22,9 +23,10 @@ interface QuestionItemProps {
   onDeleteQuestion: (questionId: string) => void;
   onAnalyzeQuestion?: (question: Question) => void;
   analyzing?: boolean;
+  readOnly?: boolean;
 }
 
-function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing }: QuestionItemProps) {
+function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing, readOnly }: QuestionItemProps) {
   const { deleteQuestion } = useQuestionService();
   const { isInitialized, isQuestionAnswered, getQuestionAnswers } = useQuestionAnalyzer();
   const { toast } = useToast();
@@ -33,6 +35,7 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
   const answers = getQuestionAnswers(question.id);
   const compliantAnswers = answers.filter(a => a.compliant);
   const nonCompliantAnswers = answers.filter(a => !a.compliant);
+  const staleAnswers = answers.filter(a => a.stale);
 
   const handleDelete = async () => {
     try {
@@ -56,6 +59,9 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
       <div className="flex items-start justify-between">
         <div className="flex-1">
           <div className="flex items-center gap-2 mb-2">
+            {question.number && (
+              <span className="text-xs font-mono text-slate-600 bg-slate-100 px-2 py-1 rounded">#{question.number}</span>
+            )}
             <span className="text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">{question.category}</span>
             <span className="text-xs text-slate-500 bg-slate-50 px-2 py-1 rounded">{question.stakeholder}</span>
             {isAnswered ? (
@@ -76,6 +82,15 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
                     {nonCompliantAnswers.length} Non-Compliant
                   </span>
                 )}
+                {staleAnswers.length > 0 && (
+                  <span
+                    className="text-xs text-amber-700 bg-amber-50 px-2 py-1 rounded flex items-center gap-1"
+                    title="Cited documents were replaced by newer versions"
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    {staleAnswers.length} Stale
+                  </span>
+                )}
               </div>
             ) : (
               <span className="text-xs text-slate-500 bg-slate-50 px-2 py-1 rounded flex items-center gap-1">
@@ -101,8 +116,8 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
             />
           )}
           
-          {/* Analyze Button - only show for unanswered questions */}
-          {!isAnswered && onAnalyzeQuestion && (
+          {/* Analyze Button - only show for unanswered questions or ones with stale answers */}
+          {(!isAnswered || staleAnswers.length > 0) && onAnalyzeQuestion && (
             <Button 
               variant="ghost" 
               size="sm" 
@@ -119,6 +134,7 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
           )}
           
           {/* Delete Button */}
+          {!readOnly && (
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="ghost" size="sm" className="text-slate-400 hover:text-slate-600 hover:bg-slate-100 h-8 w-8 p-0">
@@ -146,13 +162,14 @@ function QuestionItem({ question, onDeleteQuestion, onAnalyzeQuestion, analyzing
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-export function QuestionList({ questions, onAnalyzeQuestion, analyzing }: QuestionListProps) {
+export function QuestionList({ questions, onAnalyzeQuestion, analyzing, readOnly = false }: QuestionListProps) {
   const handleDeleteQuestion = (questionId: string) => {
     // This is just a callback for UI updates if needed
     // The actual deletion is handled in the QuestionItem component
@@ -180,6 +197,7 @@ export function QuestionList({ questions, onAnalyzeQuestion, analyzing }: Questi
           onDeleteQuestion={handleDeleteQuestion}
           onAnalyzeQuestion={onAnalyzeQuestion}
           analyzing={analyzing}
+          readOnly={readOnly}
         />
       ))}
     </div>
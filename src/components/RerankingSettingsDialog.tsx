@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { projectService } from '@/lib/services/project';
+import { DEFAULT_RERANKING_SETTINGS } from '@/lib/services/reranker';
+import { RerankerKind, RerankingSettings } from '@/lib/types';
+
+const RERANKERS: { value: RerankerKind; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Chunks reach the answer model in search order.' },
+  { value: 'lexical', label: 'Lexical', description: 'Scores exact terms, codes and phrases locally, without network calls.' },
+  { value: 'llm', label: 'LLM', description: 'The chat model rates each chunk and explains its rating. Costs one extra request per question.' },
+  { value: 'cross-encoder', label: 'Cross-encoder', description: 'A self-hosted reranking model at VITE_RERANKER_URL scores each chunk.' },
+];
+
+interface RerankingSettingsDialogProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Choose how a project's retrieved chunks are reranked before question analysis
+export function RerankingSettingsDialog({ projectId, isOpen, onClose }: RerankingSettingsDialogProps) {
+  const [settings, setSettings] = useState<RerankingSettings>(DEFAULT_RERANKING_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    projectService.getRerankingSettings(projectId).then(saved => {
+      setSettings(saved || DEFAULT_RERANKING_SETTINGS);
+    });
+  }, [isOpen, projectId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await projectService.updateRerankingSettings(projectId, settings);
+      if (result.success) {
+        onClose();
+      } else {
+        setError(result.error || 'Failed to save reranking settings');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reranker = RERANKERS.find(option => option.value === settings.reranker);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Reranking Settings</DialogTitle>
+          <DialogDescription>
+            Question analysis retrieves a wider set of candidate chunks, reranks them and sends the best ones to the
+            answer model. Each answer records the ranking of the chunk it was taken from.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Reranker</Label>
+            <Select
+              value={settings.reranker}
+              onValueChange={(value) => setSettings({ ...settings, reranker: value as RerankerKind })}
+              disabled={isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RERANKERS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {reranker && <p className="text-xs text-muted-foreground">{reranker.description}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-1">
+              <Label htmlFor="reranking-candidates" className="text-xs">Candidates retrieved</Label>
+              <Input
+                id="reranking-candidates"
+                type="number"
+                min={1}
+                max={100}
+                value={settings.candidateCount}
+                onChange={(e) => setSettings({ ...settings, candidateCount: Number(e.target.value) })}
+                disabled={isSaving || settings.reranker === 'none'}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="reranking-top-n" className="text-xs">Chunks kept</Label>
+              <Input
+                id="reranking-top-n"
+                type="number"
+                min={1}
+                max={100}
+                value={settings.topN}
+                onChange={(e) => setSettings({ ...settings, topN: Number(e.target.value) })}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchFilters } from '@/lib/answer';
+import { DOCUMENT_TYPES } from '@/lib/services/document';
+import { buildFolderTree, FolderTreeNode } from '@/lib/services/folder';
+import { QuestionCategory } from '@/lib/services/question';
+import { DocumentFolder } from '@/lib/types';
+
+// Radix Select does not allow an empty item value
+const ANY = '__any__';
+
+interface SearchScopePickerProps {
+  folders: DocumentFolder[];
+  value: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  disabled?: boolean;
+}
+
+// yyyy-mm-dd of a date in local time, as date inputs expect
+function toDateInput(date?: Date): string {
+  if (!date) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Restrict question analysis to a folder, document type, category or upload date range
+export function SearchScopePicker({ folders, value, onChange, disabled }: SearchScopePickerProps) {
+  // Folders in index order, indented by depth
+  const folderOptions: { id: string; label: string; depth: number }[] = [];
+  const collect = (nodes: FolderTreeNode[], depth: number) => {
+    for (const node of nodes) {
+      const { indexNumber, name } = node.folder;
+      folderOptions.push({ id: node.folder.id, label: indexNumber ? `${indexNumber} ${name}` : name, depth });
+      collect(node.children, depth + 1);
+    }
+  };
+  collect(buildFolderTree(folders, []).folders, 0);
+
+  const folderId = value.folderIds?.[0];
+  const documentType = value.documentTypes?.[0];
+  const category = value.categories?.[0];
+
+  const summary = [
+    folderId && folderOptions.find(option => option.id === folderId)?.label,
+    documentType,
+    category,
+    (value.createdAfter || value.createdBefore) &&
+      `${toDateInput(value.createdAfter) || '…'} – ${toDateInput(value.createdBefore) || '…'}`,
+  ].filter(Boolean);
+
+  const update = (changes: Partial<SearchFilters>) => onChange({ ...value, ...changes });
+  const toList = (selected: string) => (selected === ANY ? undefined : [selected]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="text-slate-600 hover:text-slate-700 hover:bg-slate-50 max-w-xs"
+        >
+          <Filter className="h-4 w-4 mr-2" />
+          <span className="truncate">
+            {summary.length > 0 ? `Scope: ${summary.join(', ')}` : 'Scope: All documents'}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="grid gap-4">
+          <p className="text-sm text-muted-foreground">
+            Analyses only search documents matching every criterion.
+          </p>
+
+          <div className="grid gap-2">
+            <Label>Folder</Label>
+            <Select value={folderId || ANY} onValueChange={(selected) => update({ folderIds: toList(selected) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any folder</SelectItem>
+                {folderOptions.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    <span style={{ paddingLeft: option.depth * 12 }}>{option.label}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Document type</Label>
+            <Select value={documentType || ANY} onValueChange={(selected) => update({ documentTypes: toList(selected) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any type</SelectItem>
+                {DOCUMENT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Category</Label>
+            <Select value={category || ANY} onValueChange={(selected) => update({ categories: toList(selected) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                {Object.values(QuestionCategory).map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label htmlFor="scope-created-after">Uploaded from</Label>
+              <Input
+                id="scope-created-after"
+                type="date"
+                value={toDateInput(value.createdAfter)}
+                onChange={(e) => update({ createdAfter: e.target.value ? new Date(`${e.target.value}T00:00:00`) : undefined })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="scope-created-before">Uploaded until</Label>
+              <Input
+                id="scope-created-before"
+                type="date"
+                value={toDateInput(value.createdBefore)}
+                onChange={(e) => update({ createdBefore: e.target.value ? new Date(`${e.target.value}T23:59:59.999`) : undefined })}
+              />
+            </div>
+          </div>
+
+          <Button variant="ghost" size="sm" onClick={() => onChange({})} disabled={summary.length === 0}>
+            Clear scope
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { AlertTriangle, Download, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MigrationFailure } from '@/lib/migrations';
+import { StorageKey } from '@/lib/types';
+
+const STORAGE_LABELS: Record<StorageKey, string> = {
+  'basic/PROJECTS': 'Projects',
+  'question-documents': 'Documents',
+  'document-folders': 'Folders',
+  'basic/QUESTIONS': 'Questions',
+  'basic/QUESTION_ANSWERS': 'Answers',
+  'basic/SETTINGS': 'Settings',
+  'storage/src/lib/user.ts:main': 'Users',
+};
+
+function storageLabel(key: StorageKey): string {
+  if (key.startsWith('storage/src/lib/answer.ts:main:')) return 'Indexed documents';
+  return STORAGE_LABELS[key] || key;
+}
+
+interface StorageRecoveryProps {
+  failures: MigrationFailure[];
+  onDismiss: (key: StorageKey) => void;
+}
+
+// Shown instead of the app when stored data could not be upgraded to the current version, so the
+// data is not mistaken for an empty list
+export function StorageRecovery({ failures, onDismiss }: StorageRecoveryProps) {
+  const [busyKey, setBusyKey] = useState<StorageKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async (failure: MigrationFailure) => {
+    setBusyKey(failure.key);
+    setError(null);
+    try {
+      const blob = new Blob([await failure.exportData()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${storageLabel(failure.key).toLowerCase().replace(/\s+/g, '-')}-v${failure.fromVersion}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the stored data');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDiscard = async (failure: MigrationFailure) => {
+    const label = storageLabel(failure.key);
+    if (!confirm(`Start over without the stored ${label.toLowerCase()}? They are kept as a backup but no longer shown.`)) {
+      return;
+    }
+    setBusyKey(failure.key);
+    setError(null);
+    try {
+      await failure.discardData();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to reset ${label.toLowerCase()}`);
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-2xl shadow-xl">
+        <CardHeader className="space-y-2">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-6 h-6 text-destructive" />
+            <CardTitle className="text-2xl">Stored data needs attention</CardTitle>
+          </div>
+          <CardDescription className="text-base">
+            This version of the app could not upgrade some of your stored data. Nothing was changed or deleted. Download
+            the data to keep a copy, retry after an update, or start over without it.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {failures.map(failure => (
+            <div key={failure.key} className="border rounded-lg p-4 space-y-3">
+              <div>
+                <div className="font-medium">{storageLabel(failure.key)}</div>
+                <div className="text-xs text-muted-foreground">
+                  Stored as version {failure.fromVersion}, this app expects {failure.toVersion}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">{failure.message}</div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleDownload(failure)} disabled={busyKey !== null}>
+                  <Download className="w-4 h-4 mr-1" />
+                  Download data
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleDiscard(failure)} disabled={busyKey !== null}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Start over without it
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onDismiss(failure.key)} disabled={busyKey !== null}>
+                  Continue anyway
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-end">
+            <Button onClick={() => window.location.reload()} disabled={busyKey !== null}>
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Retry
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
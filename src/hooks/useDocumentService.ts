@@ -1,10 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Document, ProcessingStatus } from '@/lib/types';
-import { documentService } from '@/lib/services/document/service';
+import { Document, DocumentFolder, ProcessingStatus } from '@/lib/types';
+import { documentService, UploadResult } from '@/lib/services/document/service';
+import { DuplicateResolver } from '@/lib/services/document/duplicates';
+import { folderService } from '@/lib/services/folder';
+import { QuestionAnalyzerService } from '@/lib/services/questionAnalyzer';
+import { AnswerService } from '@/lib/answer';
 import { ParsedQuestion } from '@/lib/services/document/processor';
+import { QuestionColumnMapping } from '@/lib/services/document/spreadsheet';
+
+const answerService = new AnswerService();
+const questionAnalyzerService = new QuestionAnalyzerService();
 
 export function useDocumentService() {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [folders, setFolders] = useState<DocumentFolder[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -12,6 +21,7 @@ export function useDocumentService() {
   const loadDocuments = useCallback(async (projectId: string) => {
     if (!projectId) {
       setDocuments([]);
+      setFolders([]);
       return;
     }
 
@@ -19,8 +29,12 @@ export function useDocumentService() {
     setError(null);
     
     try {
-      const docs = await documentService.getDocumentsByProject(projectId);
+      const [docs, projectFolders] = await Promise.all([
+        documentService.getCurrentDocumentsByProject(projectId),
+        folderService.getFoldersByProject(projectId),
+      ]);
       setDocuments(docs);
+      setFolders(projectFolders);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load documents');
     } finally {
@@ -28,20 +42,44 @@ export function useDocumentService() {
     }
   }, []);
 
-  // Upload a new document
+  // Reload a project's documents and folders after an operation renumbered them
+  const refreshProject = useCallback(async (projectId: string) => {
+    const [docs, projectFolders] = await Promise.all([
+      documentService.getCurrentDocumentsByProject(projectId),
+      folderService.getFoldersByProject(projectId),
+    ]);
+    setDocuments(docs);
+    setFolders(projectFolders);
+  }, []);
+
+  // Indexing and answers follow a document to its new version: the new version is indexed if the
+  // previous one was, and answers citing the previous version are flagged as stale
+  const carryOverVersion = useCallback(async (previousId: string, document: Document): Promise<number> => {
+    const indexedIds = await answerService.getIndexedDocumentIds(document.projectId);
+    if (indexedIds.includes(previousId)) {
+      await answerService.uploadAnswerDocument(document.projectId, document);
+    }
+    return questionAnalyzerService.markAnswersStale(previousId, document.id);
+  }, []);
+
+  // Upload a new document; resolveDuplicate decides what happens to duplicates of existing documents
   const uploadDocument = useCallback(async (
     file: File,
     userId: string,
-    projectId: string
-  ): Promise<{ success: boolean; data?: Document; error?: string }> => {
+    projectId: string,
+    resolveDuplicate?: DuplicateResolver
+  ): Promise<UploadResult> => {
     setLoading(true);
     setError(null);
 
     try {
-      const result = await documentService.uploadDocument(file, userId, projectId);
+      const result = await documentService.uploadDocument(file, userId, projectId, {}, resolveDuplicate);
       
+      if (result.success && result.data && result.duplicate?.resolution === 'replace') {
+        await carryOverVersion(result.duplicate.document.id, result.data);
+      }
       if (result.success && result.data) {
-        setDocuments(prev => [...prev, result.data!]);
+        await refreshProject(projectId);
       }
       
       return result;
@@ -52,18 +90,101 @@ export function useDocumentService() {
     } finally {
       setLoading(false);
     }
+  }, [refreshProject, carryOverVersion]);
+
+  // Upload a new version of a document. If the previous version was indexed for answers the new
+  // one is indexed too, and answers citing the previous version are flagged as stale.
+  const uploadNewVersion = useCallback(async (
+    documentId: string,
+    file: File,
+    userId: string
+  ): Promise<{ success: boolean; data?: Document; error?: string; staleAnswers?: number }> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await documentService.uploadNewVersion(documentId, file, userId);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to upload new version');
+        return result;
+      }
+
+      const staleAnswers = await carryOverVersion(documentId, result.data);
+
+      await refreshProject(result.data.projectId);
+      return { ...result, staleAnswers };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload new version';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshProject, carryOverVersion]);
+
+  // All versions of a document, newest first
+  const getVersions = useCallback(async (documentId: string): Promise<Document[]> => {
+    try {
+      return await documentService.getVersions(documentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+      return [];
+    }
   }, []);
 
-  // Delete a document
+  // Upload a ZIP data room, creating one document per file
+  const uploadArchive = useCallback(async (
+    file: File,
+    userId: string,
+    projectId: string,
+    resolveDuplicate?: DuplicateResolver
+  ): Promise<{ success: boolean; data?: Document[]; error?: string; errors?: string[]; skipped?: string[] }> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await documentService.uploadArchive(file, userId, projectId, resolveDuplicate);
+
+      // Files that replaced a duplicate were stored as new versions
+      for (const document of (result.data || []).filter(doc => (doc.versionNumber || 1) > 1)) {
+        const previous = (await documentService.getVersions(document.id))[1];
+        if (previous) {
+          await carryOverVersion(previous.id, document);
+        }
+      }
+      if (result.data && result.data.length > 0) {
+        await refreshProject(projectId);
+      }
+      if (!result.success) {
+        setError(result.error || 'Failed to upload archive');
+      }
+
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to upload archive';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshProject, carryOverVersion]);
+
+  // Delete a document together with its chunks in the answer index and the answers citing it. The
+  // index is purged first so a deleted document can never keep answering questions.
   const deleteDocument = useCallback(async (documentId: string): Promise<boolean> => {
     setLoading(true);
     setError(null);
 
     try {
+      const document = await documentService.getDocumentById(documentId);
+      if (document) {
+        await answerService.removeAnswerDocument(document.projectId, documentId);
+      }
       const success = await documentService.deleteDocument(documentId);
       
-      if (success) {
-        setDocuments(prev => prev.filter(doc => doc.id !== documentId));
+      if (success && document) {
+        await questionAnalyzerService.removeAnswersForDocument(documentId);
+        await refreshProject(document.projectId);
       }
       
       return success;
@@ -73,8 +194,72 @@ export function useDocumentService() {
     } finally {
       setLoading(false);
     }
+  }, [refreshProject]);
+
+  // Run a folder or document operation that changes the data-room tree, then reload the project
+  const runTreeOperation = useCallback(async <T,>(
+    projectId: string,
+    operation: () => Promise<{ success: boolean; data?: T; error?: string }>
+  ): Promise<{ success: boolean; data?: T; error?: string }> => {
+    setError(null);
+
+    try {
+      const result = await operation();
+      await refreshProject(projectId);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update folders';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [refreshProject]);
+
+  const createFolder = useCallback((projectId: string, name: string, parentId: string | null = null) =>
+    runTreeOperation(projectId, () => documentService.createFolder(projectId, name, parentId)), [runTreeOperation]);
+
+  const renameFolder = useCallback((projectId: string, folderId: string, name: string) =>
+    runTreeOperation(projectId, () => documentService.renameFolder(folderId, name)), [runTreeOperation]);
+
+  const moveFolder = useCallback((projectId: string, folderId: string, parentId: string | null) =>
+    runTreeOperation(projectId, () => documentService.moveFolder(folderId, parentId)), [runTreeOperation]);
+
+  const deleteFolder = useCallback((projectId: string, folderId: string) =>
+    runTreeOperation(projectId, () => documentService.deleteFolder(folderId)), [runTreeOperation]);
+
+  // Indexed chunks record their document's folder and category, so an indexed document is indexed
+  // again after either changes
+  const refreshIndexedDocument = useCallback(async (projectId: string, documentId: string) => {
+    try {
+      const document = await documentService.getDocumentById(documentId);
+      if (document) {
+        await answerService.refreshAnswerDocument(projectId, document);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the answer index');
+    }
   }, []);
 
+  const moveDocument = useCallback((projectId: string, documentId: string, folderId: string | null) =>
+    runTreeOperation(projectId, async () => {
+      const result = await documentService.moveDocument(documentId, folderId);
+      if (result.success) {
+        await refreshIndexedDocument(projectId, documentId);
+      }
+      return result;
+    }), [runTreeOperation, refreshIndexedDocument]);
+
+  const setDocumentCategory = useCallback((projectId: string, documentId: string, category: string | undefined) =>
+    runTreeOperation(projectId, async () => {
+      const result = await documentService.setCategory(documentId, category);
+      if (result.success) {
+        await refreshIndexedDocument(projectId, documentId);
+      }
+      return result;
+    }), [runTreeOperation, refreshIndexedDocument]);
+
+  const renameDocument = useCallback((projectId: string, documentId: string, fileName: string) =>
+    runTreeOperation(projectId, () => documentService.renameDocument(documentId, fileName)), [runTreeOperation]);
+
   // Get document statistics
   const getDocumentStats = useCallback(() => {
     return documentService.getDocumentStats(documents);
@@ -91,7 +276,7 @@ export function useDocumentService() {
   }, []);
 
   // Process document to extract questions
-  const processDocument = useCallback(async (documentId: string): Promise<{
+  const processDocument = useCallback(async (documentId: string, columnMapping?: QuestionColumnMapping): Promise<{
     success: boolean;
     questions?: ParsedQuestion[];
     error?: string;
@@ -107,7 +292,7 @@ export function useDocumentService() {
           : doc
       ));
 
-      const result = await documentService.processDocument(documentId);
+      const result = await documentService.processDocument(documentId, columnMapping);
       
       // Reload documents to get updated processing status
       const document = await documentService.getDocumentById(documentId);
@@ -145,11 +330,22 @@ export function useDocumentService() {
 
   return {
     documents,
+    folders,
     loading,
     error,
     loadDocuments,
     uploadDocument,
+    uploadArchive,
+    uploadNewVersion,
+    getVersions,
     deleteDocument,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveDocument,
+    renameDocument,
+    setDocumentCategory,
     getDocumentStats,
     getDocumentById,
     processDocument,
@@ -0,0 +1,42 @@
+import { useState, useCallback, useRef } from 'react';
+import { DuplicateMatch, DuplicateResolution, DuplicateResolver } from '@/lib/services/document';
+
+export interface PendingDuplicate {
+  file: File;
+  match: DuplicateMatch;
+}
+
+// Turns duplicate checks during an upload into prompts: resolveDuplicate waits until the user
+// answers the pending duplicate through respond
+export function useDuplicateResolver() {
+  const [pending, setPending] = useState<PendingDuplicate | null>(null);
+  const answerRef = useRef<((resolution: DuplicateResolution) => void) | null>(null);
+  // Answer chosen for all remaining duplicates of the current upload
+  const answerAllRef = useRef<DuplicateResolution | null>(null);
+
+  const resolveDuplicate: DuplicateResolver = useCallback((file, match) => {
+    if (answerAllRef.current) {
+      return Promise.resolve(answerAllRef.current);
+    }
+    return new Promise<DuplicateResolution>(resolve => {
+      answerRef.current = resolve;
+      setPending({ file, match });
+    });
+  }, []);
+
+  const respond = useCallback((resolution: DuplicateResolution, applyToAll = false) => {
+    if (applyToAll) {
+      answerAllRef.current = resolution;
+    }
+    answerRef.current?.(resolution);
+    answerRef.current = null;
+    setPending(null);
+  }, []);
+
+  // Call when an upload batch is finished so the next one prompts again
+  const reset = useCallback(() => {
+    answerAllRef.current = null;
+  }, []);
+
+  return { pending, resolveDuplicate, respond, reset };
+}
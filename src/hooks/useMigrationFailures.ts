@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MigrationFailure, migrationFailures } from '@/lib/migrations';
+import { StorageKey } from '@/lib/types';
+
+// Stored data that could not be upgraded, minus what the user chose to continue without
+export function useMigrationFailures() {
+  const [failures, setFailures] = useState<MigrationFailure[]>(() => migrationFailures.getAll());
+  const [dismissedKeys, setDismissedKeys] = useState<StorageKey[]>([]);
+
+  useEffect(() => migrationFailures.subscribe(setFailures), []);
+
+  // Hide a failure until the next page load; its data stays unreadable meanwhile
+  const dismiss = useCallback((key: StorageKey) => {
+    setDismissedKeys(prev => [...prev, key]);
+  }, []);
+
+  return {
+    failures: failures.filter(failure => !dismissedKeys.includes(failure.key)),
+    dismiss,
+  };
+}
@@ -1,7 +1,8 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { QuestionAnalyzerService, QuestionAnalysisResult, BulkAnalysisResult } from '@/lib/services/questionAnalyzer';
 import { Question } from '@/lib/services/question/types';
 import { QuestionAnswer } from '@/lib/types';
+import { SearchFilters } from '@/lib/answer';
 import { useQuestionAnswers } from './useStorage';
 
 export interface UseQuestionAnalyzerReturn {
@@ -12,9 +13,10 @@ export interface UseQuestionAnalyzerReturn {
   answers: Map<string, QuestionAnswer[]>;
   
   // Actions
-  analyzeQuestion: (question: Question, projectId: string) => Promise<QuestionAnalysisResult>;
-  analyzeQuestions: (questions: Question[], projectId: string) => Promise<BulkAnalysisResult>;
-  hasAnswers: (question: Question, projectId: string) => Promise<boolean>;
+  // filters restrict the analysis to matching documents, e.g. one folder
+  analyzeQuestion: (question: Question, projectId: string, filters?: SearchFilters) => Promise<QuestionAnalysisResult>;
+  analyzeQuestions: (questions: Question[], projectId: string, filters?: SearchFilters) => Promise<BulkAnalysisResult>;
+  hasAnswers: (question: Question, projectId: string, filters?: SearchFilters) => Promise<boolean>;
   clearResults: () => void;
   refreshAnswers: () => Promise<void>;
   
@@ -28,52 +30,22 @@ export function useQuestionAnalyzer(): UseQuestionAnalyzerReturn {
   const [analysisResults, setAnalysisResults] = useState<Map<string, QuestionAnalysisResult>>(new Map());
   const [isInitialized, setIsInitialized] = useState(false);
   
-  const analyzerService = new QuestionAnalyzerService();
+  const analyzerService = useMemo(() => new QuestionAnalyzerService(), []);
   const { data: questionAnswers, loading: answersLoading, refresh: refreshQuestionAnswers } = useQuestionAnswers();
 
-  // Storage key for persisting analysis results
-  const STORAGE_KEY = 'question-analysis-results';
-
-  // Load analysis results from localStorage on mount
+  // Load stored analysis results on mount
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const parsedData = JSON.parse(stored);
-        const resultsMap = new Map<string, QuestionAnalysisResult>();
-        
-        // Convert the stored data back to Maps
-        Object.entries(parsedData.results || {}).forEach(([questionId, result]) => {
-          const analysisResult = result as QuestionAnalysisResult;
-          
-          // Convert date strings back to Date objects for answers
-          const answersWithDates = analysisResult.answers.map(answer => ({
-            ...answer,
-            compliant: answer.compliant ?? false, // Ensure compliant field exists
-            createdAt: new Date(answer.createdAt),
-            updatedAt: new Date(answer.updatedAt)
-          }));
-          
-          const processedResult = {
-            ...analysisResult,
-            answers: answersWithDates
-          };
-          
-          resultsMap.set(questionId, processedResult);
-        });
-        
-        console.log('Loaded analysis results from localStorage:', {
+    analyzerService.getAnalysisResults()
+      .then(resultsMap => {
+        console.log('Loaded analysis results from storage:', {
           totalResults: resultsMap.size,
           questionIds: Array.from(resultsMap.keys()),
           sampleResult: resultsMap.size > 0 ? resultsMap.values().next().value : null
         });
-        
         setAnalysisResults(resultsMap);
-      }
-    } catch (error) {
-      console.error('Failed to load analysis results from storage:', error);
-    }
-  }, []);
+      })
+      .catch(error => console.error('Failed to load analysis results from storage:', error));
+  }, [analyzerService]);
 
   // Initialize when both analysis results and question answers are loaded
   useEffect(() => {
@@ -99,23 +71,10 @@ export function useQuestionAnalyzer(): UseQuestionAnalyzerReturn {
     }
   }, [answersLoading, questionAnswers]);
 
-  // Save analysis results to localStorage whenever they change
-  useEffect(() => {
-    try {
-      const dataToStore = {
-        results: Object.fromEntries(analysisResults),
-        timestamp: new Date().toISOString()
-      };
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToStore));
-    } catch (error) {
-      console.error('Failed to save analysis results to storage:', error);
-    }
-  }, [analysisResults]);
-
-  const analyzeQuestion = useCallback(async (question: Question, projectId: string): Promise<QuestionAnalysisResult> => {
+  const analyzeQuestion = useCallback(async (question: Question, projectId: string, filters?: SearchFilters): Promise<QuestionAnalysisResult> => {
     setAnalyzing(true);
     try {
-      const result = await analyzerService.analyzeQuestion(question, projectId);
+      const result = await analyzerService.analyzeQuestion(question, projectId, filters);
       
       // Update analysis results state
       setAnalysisResults(prev => new Map(prev).set(question.id, result));
@@ -137,10 +96,10 @@ export function useQuestionAnalyzer(): UseQuestionAnalyzerReturn {
     }
   }, [analyzerService, refreshQuestionAnswers]);
 
-  const analyzeQuestions = useCallback(async (questions: Question[], projectId: string): Promise<BulkAnalysisResult> => {
+  const analyzeQuestions = useCallback(async (questions: Question[], projectId: string, filters?: SearchFilters): Promise<BulkAnalysisResult> => {
     setAnalyzing(true);
     try {
-      const result = await analyzerService.analyzeQuestions(questions, projectId);
+      const result = await analyzerService.analyzeQuestions(questions, projectId, filters);
       
       // Update state with all results
       const newAnalysisResults = new Map(analysisResults);
@@ -171,9 +130,9 @@ export function useQuestionAnalyzer(): UseQuestionAnalyzerReturn {
     }
   }, [analyzerService, analysisResults, refreshQuestionAnswers]);
 
-  const hasAnswers = useCallback(async (question: Question, projectId: string): Promise<boolean> => {
+  const hasAnswers = useCallback(async (question: Question, projectId: string, filters?: SearchFilters): Promise<boolean> => {
     try {
-      return await analyzerService.hasAnswers(question, projectId);
+      return await analyzerService.hasAnswers(question, projectId, filters);
     } catch (error) {
       console.error('Error checking if question has answers:', error);
       return false;
@@ -182,13 +141,10 @@ export function useQuestionAnalyzer(): UseQuestionAnalyzerReturn {
 
   const clearResults = useCallback(() => {
     setAnalysisResults(new Map());
-    // Also clear from localStorage
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-    } catch (error) {
-      console.error('Failed to clear analysis results from storage:', error);
-    }
-  }, [STORAGE_KEY]);
+    // Also clear from storage
+    analyzerService.clearAnalysisResults()
+      .catch(error => console.error('Failed to clear analysis results from storage:', error));
+  }, [analyzerService]);
 
   const isQuestionAnswered = useCallback((questionId: string): boolean => {
     // If not initialized yet, return false to avoid showing incorrect state
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Question, QuestionCategory, Stakeholder, CreateQuestionRequest, UpdateQuestionRequest, QuestionFilters } from '@/lib/services/question';
 import { validateQuestion } from '@/lib/validation';
+import { projectService } from '@/lib/services/project';
 import { useQuestions } from './useStorage';
 
 export function useQuestionService() {
@@ -12,8 +13,10 @@ export function useQuestionService() {
     if (!validation.isValid) {
       throw new Error(`Validation failed: ${validation.errors.map(e => e.message).join(', ')}`);
     }
+    await projectService.assertWritable(request.projectId);
 
     const result = await create({
+      number: request.number,
       content: request.content,
       category: request.category,
       stakeholder: request.stakeholder,
@@ -28,8 +31,17 @@ export function useQuestionService() {
     return result.data;
   }, [create]);
 
+  // Throws a ProjectArchivedError when the question's project is archived
+  const assertQuestionWritable = useCallback(async (id: string) => {
+    const question = questions?.find(q => q.id === id);
+    if (question) {
+      await projectService.assertWritable(question.projectId);
+    }
+  }, [questions]);
+
   // Update question
   const updateQuestion = useCallback(async (id: string, request: UpdateQuestionRequest) => {
+    await assertQuestionWritable(id);
     const result = await update(id, request);
     
     if (!result.success) {
@@ -37,7 +49,7 @@ export function useQuestionService() {
     }
 
     return result.data;
-  }, [update]);
+  }, [update, assertQuestionWritable]);
 
   // Check if question can be deleted
   const canDeleteQuestion = useCallback((questionId: string) => {
@@ -46,6 +58,7 @@ export function useQuestionService() {
 
   // Delete question
   const deleteQuestion = useCallback(async (id: string) => {
+    await assertQuestionWritable(id);
     const result = await remove(id);
     
     if (!result.success) {
@@ -53,7 +66,7 @@ export function useQuestionService() {
     }
 
     return true;
-  }, [remove]);
+  }, [remove, assertQuestionWritable]);
 
   // Get questions with filters - simplified approach
   const getQuestions = useCallback((filters: QuestionFilters = {}) => {
@@ -171,6 +184,9 @@ export function useQuestionService() {
       const questionsToDelete = projectId 
         ? getQuestionsByProject(projectId)
         : questions || [];
+      for (const questionProjectId of new Set(questionsToDelete.map(question => question.projectId))) {
+        await projectService.assertWritable(questionProjectId);
+      }
 
       for (const question of questionsToDelete) {
         const result = await remove(question.id);
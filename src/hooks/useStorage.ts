@@ -11,6 +11,7 @@ import {
   QuestionAnswer
 } from '@/lib/types';
 import { createStorageService } from '@/lib/storage';
+import { projectService, projectDeletionService } from '@/lib/services/project';
 import { 
   validateQuestion, 
   validateAnswer, 
@@ -322,7 +323,29 @@ export function useSettings() {
 }
 
 export function useProjects() {
-  return useStorage<Project>('basic/PROJECTS', validateProject);
+  const projects = useStorage<Project>('basic/PROJECTS', validateProject);
+  const { refresh } = projects;
+
+  const archive = useCallback(async (projectId: string) => {
+    const result = await projectService.archiveProject(projectId);
+    if (result.success) await refresh();
+    return result;
+  }, [refresh]);
+
+  const unarchive = useCallback(async (projectId: string) => {
+    const result = await projectService.unarchiveProject(projectId);
+    if (result.success) await refresh();
+    return result;
+  }, [refresh]);
+
+  // Deletes the project with its documents, questions, answers and search index
+  const deleteProject = useCallback(async (projectId: string) => {
+    const result = await projectDeletionService.deleteProject(projectId);
+    if (result.success) await refresh();
+    return result;
+  }, [refresh]);
+
+  return { ...projects, archive, unarchive, deleteProject };
 }
 
 // Hook for active project
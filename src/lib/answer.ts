@@ -1,7 +1,10 @@
-import { LocalStorageService } from "./storage";
+import { createStorageService, StorageService } from "./storage";
 import { BaseEntity, Document } from "./types";
-import { ProjectRag, connect, SearchResult as RagSearchResult } from "./rag";
+import { ProjectRag, connect, DEFAULT_CHUNKING_CONFIG, SearchOptions, SearchResult as RagSearchResult } from "./rag";
 import { debugLogger, logDocumentOperation, logError } from "./debug";
+import { documentService } from "./services/document/service";
+import { projectService } from "./services/project/service";
+import { folderService } from "./services/folder/service";
 
 export interface Answer extends BaseEntity {
     questionId: string;
@@ -14,20 +17,33 @@ export interface AnswerDocuments extends BaseEntity {
 }
 
 export type SearchResult = RagSearchResult;
+export type { SearchFilters, SearchMode, SearchOptions } from "./rag";
+
+// Progress of a project re-index, reported after each document
+export interface ReindexProgress {
+    completed: number;
+    total: number;
+    documentName?: string; // Document indexed last
+}
+
+export interface ReindexResult {
+    indexed: number;
+    failed: string[]; // File names of documents that could not be indexed
+}
 
 function answerDocumentStorageKey(projectId: string): string {
     return 'storage/src/lib/answer.ts:main:' + projectId;
 }
 
 export class AnswerService {
-    private answerDocumentStorage = new Map<string, LocalStorageService<AnswerDocuments>>();
+    private answerDocumentStorage = new Map<string, StorageService<AnswerDocuments>>();
     private ragInstances = new Map<string, ProjectRag>();
 
-    private getStorage(projectId: string): LocalStorageService<AnswerDocuments> {
+    private getStorage(projectId: string): StorageService<AnswerDocuments> {
         if (!this.answerDocumentStorage.has(projectId)) {
             this.answerDocumentStorage.set(
                 projectId,
-                new LocalStorageService(answerDocumentStorageKey(projectId), '1.0')
+                createStorageService<AnswerDocuments>(answerDocumentStorageKey(projectId), '1.0')
             );
         }
         return this.answerDocumentStorage.get(projectId)!;
@@ -41,37 +57,52 @@ export class AnswerService {
         return this.ragInstances.get(projectId)!;
     }
 
-    async uploadAnswerDocument(projectId: string, doc: Document): Promise<void> {
+    // Index a document for answer search. Returns false without indexing when the document, or a
+    // current document with the same content, is already indexed.
+    async uploadAnswerDocument(projectId: string, doc: Document): Promise<boolean> {
         logDocumentOperation('uploadAnswerDocument_start', doc.id, projectId, {
             contentLength: doc.rawText.length
         });
 
         try {
-            // Store in local storage for tracking
-            const storage = this.getStorage(projectId);
-            debugLogger.debug('Storing document in local storage', { 
+            await projectService.assertWritable(projectId);
+            const indexedCopy = await this.findIndexedCopy(projectId, doc);
+            if (indexedCopy) {
+                debugLogger.info('Content already indexed, skipping', {
+                    component: 'AnswerService',
+                    operation: 'uploadAnswerDocument',
+                    projectId,
+                    documentId: doc.id
+                }, { indexedDocumentId: indexedCopy });
+                return false;
+            }
+
+            // Use RAG service for indexing
+            debugLogger.debug('Getting RAG instance for indexing', { 
                 component: 'AnswerService', 
                 operation: 'uploadAnswerDocument',
                 projectId,
                 documentId: doc.id
             });
 
-            await storage.create({ documentId: doc.id });
+            const rag = await this.getIndexingRag(projectId);
+            await rag.indexAnswer(doc);
 
-            // Use RAG service for indexing
-            debugLogger.debug('Getting RAG instance for indexing', { 
+            // Track the document only once it is indexed, so a failed upload can be retried
+            const storage = this.getStorage(projectId);
+            debugLogger.debug('Storing document in local storage', { 
                 component: 'AnswerService', 
                 operation: 'uploadAnswerDocument',
                 projectId,
                 documentId: doc.id
             });
 
-            const rag = await this.getRag(projectId);
-            await rag.indexAnswer(doc);
+            await storage.create({ documentId: doc.id });
 
             logDocumentOperation('uploadAnswerDocument_success', doc.id, projectId, {
                 contentLength: doc.rawText.length
             });
+            return true;
         } catch (error) {
             logError('AnswerService', 'uploadAnswerDocument', error, {
                 component: 'AnswerService',
@@ -83,16 +114,187 @@ export class AnswerService {
         }
     }
 
-    async searchDocuments(projectId: string, query: string, limit: number = 5): Promise<SearchResult[]> {
+    // Index an indexed document again so its chunks carry its current folder and category. Returns
+    // false when the document is not indexed.
+    async refreshAnswerDocument(projectId: string, doc: Document): Promise<boolean> {
+        await projectService.assertWritable(projectId);
+        const indexedIds = await this.getIndexedDocumentIds(projectId);
+        if (!indexedIds.includes(doc.id)) {
+            return false;
+        }
+
+        try {
+            const rag = await this.getIndexingRag(projectId);
+            await rag.indexAnswer(doc);
+            logDocumentOperation('refreshAnswerDocument_success', doc.id, projectId);
+            return true;
+        } catch (error) {
+            logError('AnswerService', 'refreshAnswerDocument', error, {
+                component: 'AnswerService',
+                operation: 'refreshAnswerDocument',
+                projectId,
+                documentId: doc.id
+            });
+            throw error;
+        }
+    }
+
+    // Remove a document from answer search: its chunks in the index and its tracking row. Returns
+    // false when the document was not indexed. Throws when the index could not be updated.
+    async removeAnswerDocument(projectId: string, documentId: string): Promise<boolean> {
+        await projectService.assertWritable(projectId);
+        const storage = this.getStorage(projectId);
+        const result = await storage.getAll();
+        const rows = (result.data || []).filter(row => row.documentId === documentId);
+        if (rows.length === 0) {
+            return false;
+        }
+
+        try {
+            const rag = await this.getRag(projectId);
+            const chunksDeleted = await rag.deleteDocument(documentId);
+            for (const row of rows) {
+                await storage.delete(row.id);
+            }
+
+            logDocumentOperation('removeAnswerDocument_success', documentId, projectId, { chunksDeleted });
+            return true;
+        } catch (error) {
+            logError('AnswerService', 'removeAnswerDocument', error, {
+                component: 'AnswerService',
+                operation: 'removeAnswerDocument',
+                projectId,
+                documentId
+            });
+            throw error;
+        }
+    }
+
+    // Rebuild a project's index with its current chunking settings: drop every chunk, then index the
+    // current version of each indexed document again. Replaced versions are not re-indexed. Documents
+    // keep their tracking rows when they fail, so the next re-index retries them.
+    async reindexProject(
+        projectId: string,
+        onProgress?: (progress: ReindexProgress) => void
+    ): Promise<ReindexResult> {
+        debugLogger.info('Starting project re-index', {
+            component: 'AnswerService',
+            operation: 'reindexProject',
+            projectId
+        });
+
+        await projectService.assertWritable(projectId);
+        const storage = this.getStorage(projectId);
+        const stored = await storage.getAll();
+        if (!stored.success) {
+            throw new Error(stored.error?.message || 'Failed to read indexed documents');
+        }
+        const rows = stored.data || [];
+        const indexedIds = new Set(rows.map(row => row.documentId));
+        const documents = (await documentService.getCurrentDocumentsByProject(projectId))
+            .filter(doc => indexedIds.has(doc.id));
+        const failed: string[] = [];
+        onProgress?.({ completed: 0, total: documents.length });
+
+        // A reset also clears chunks embedded with another model or stored with an older schema,
+        // which indexing each document in place would keep running into
+        const rag = await this.getIndexingRag(projectId);
+        await rag.resetIndex();
+
+        // Replaced versions lost their chunks with the reset and are not indexed again
+        const currentIds = new Set(documents.map(doc => doc.id));
+        for (const row of rows.filter(row => !currentIds.has(row.documentId))) {
+            await storage.delete(row.id);
+        }
+
+        for (const [index, doc] of documents.entries()) {
+            try {
+                await rag.indexAnswer(doc);
+            } catch (error) {
+                logError('AnswerService', 'reindexProject', error, {
+                    component: 'AnswerService',
+                    operation: 'reindexProject',
+                    projectId,
+                    documentId: doc.id
+                });
+                failed.push(doc.fileName);
+            }
+            onProgress?.({ completed: index + 1, total: documents.length, documentName: doc.fileName });
+        }
+
+        debugLogger.info('Project re-index completed', {
+            component: 'AnswerService',
+            operation: 'reindexProject',
+            projectId
+        }, { indexed: documents.length - failed.length, failed });
+        return { indexed: documents.length - failed.length, failed };
+    }
+
+    // Drop a deleted project's collection on the backend and forget which documents it indexed.
+    // Throws when the backend cannot drop it, so no collection is left behind without its project.
+    async removeProject(projectId: string): Promise<void> {
+        const rag = await this.getRag(projectId);
+        await rag.dropIndex();
+        await this.getStorage(projectId).clear();
+        this.ragInstances.delete(projectId);
+        this.answerDocumentStorage.delete(projectId);
+    }
+
+    // RAG instance set up with the project's current chunking settings
+    private async getIndexingRag(projectId: string): Promise<ProjectRag> {
+        const rag = await this.getRag(projectId);
+        const chunkingSettings = await projectService.getChunkingSettings(projectId);
+        rag.setChunkingSettings(chunkingSettings || { default: DEFAULT_CHUNKING_CONFIG });
+        return rag;
+    }
+
+    // Id of an indexed document holding the same content: the document itself, or a current
+    // document with the same content hash
+    private async findIndexedCopy(projectId: string, doc: Document): Promise<string | undefined> {
+        const indexedIds = new Set(await this.getIndexedDocumentIds(projectId));
+        if (indexedIds.has(doc.id)) {
+            return doc.id;
+        }
+        if (!doc.contentHash) {
+            return undefined;
+        }
+
+        const documents = await documentService.getCurrentDocumentsByProject(projectId);
+        return documents.find(other => indexedIds.has(other.id) && other.contentHash === doc.contentHash)?.id;
+    }
+
+    async searchDocuments(
+        projectId: string,
+        query: string,
+        limit: number = 5,
+        options: SearchOptions = {}
+    ): Promise<SearchResult[]> {
         debugLogger.info('Starting document search', { 
             component: 'AnswerService', 
             operation: 'searchDocuments',
             projectId
-        }, { query, limit });
+        }, { query, limit, ...options });
 
         try {
+            // Only the latest version of a document is evidence
+            const documents = await documentService.getDocumentsByProject(projectId);
+            const supersededIds = documents.filter(doc => doc.supersededById).map(doc => doc.id);
+
+            // Chunks record the folder directly holding their document, so a folder filter also
+            // covers its subfolders
+            const folderIds = options.filters?.folderIds;
+            const searchOptions = folderIds?.length
+                ? {
+                    ...options,
+                    filters: {
+                        ...options.filters,
+                        folderIds: await folderService.getDescendantFolderIds(projectId, folderIds)
+                    }
+                }
+                : options;
+
             const rag = await this.getRag(projectId);
-            const results = await rag.search(query, limit);
+            const results = await rag.search(query, limit, supersededIds, searchOptions);
             
             debugLogger.info('Document search completed', { 
                 component: 'AnswerService', 
@@ -0,0 +1,119 @@
+import { ProcessingStatus, StorageKey } from './types';
+
+type StoredItem = Record<string, unknown>;
+
+// One upgrade of a storage key's items from a version to the next
+export interface MigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  migrate(item: StoredItem): StoredItem;
+}
+
+// A question document as stored at 1.0.0: without processingStatus, and with the questions extracted
+// from it when the build that stored it kept them on the record
+interface LegacyQuestionDocument extends StoredItem {
+  processingStatus?: ProcessingStatus;
+  questions?: unknown[];
+}
+
+// Upgrade steps by storage key, in order. The last step's target is the key's current version;
+// storage services run the steps on read and back up the data as it was before.
+export const STORAGE_MIGRATIONS: Record<StorageKey, MigrationStep[]> = {
+  'question-documents': [
+    {
+      from: '1.0.0',
+      to: '1.1.0',
+      description: 'Add processingStatus to documents stored without one',
+      migrate: (doc: LegacyQuestionDocument) => ({
+        ...doc,
+        // Every upload has rawText, so only extracted questions show that a document was processed
+        processingStatus: doc.processingStatus ?? (doc.questions?.length ? 'completed' : 'not_started'),
+      }),
+    },
+  ],
+};
+
+// Current version of a key's data: the target of its last upgrade step, or the base version the
+// service was created with for keys without steps
+export function storageVersion(key: StorageKey, baseVersion: string): string {
+  const steps = STORAGE_MIGRATIONS[key];
+  return steps?.length ? steps[steps.length - 1].to : baseVersion;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Items upgraded from one version to another, one step after the other. Throws a MigrationError
+// when no chain of steps leads there or a step fails.
+export function migrateItems<T extends object>(key: StorageKey, items: T[], fromVersion: string, toVersion: string): T[] {
+  const steps = STORAGE_MIGRATIONS[key] || [];
+  let version = fromVersion;
+  let migrated: StoredItem[] = items.map(item => Object.fromEntries(Object.entries(item)));
+
+  while (version !== toVersion) {
+    const step = steps.find(candidate => candidate.from === version);
+    if (!step) {
+      throw new MigrationError(`No upgrade from version ${version} to ${toVersion}`);
+    }
+    try {
+      migrated = migrated.map(item => step.migrate(item));
+    } catch (error) {
+      throw new MigrationError(
+        `Upgrade ${step.from} → ${step.to} (${step.description}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    version = step.to;
+  }
+  return migrated as T[];
+}
+
+// Stored data of a key that could not be upgraded; it stays untouched until the user decides
+export interface MigrationFailure {
+  key: StorageKey;
+  fromVersion: string;
+  toVersion: string;
+  message: string;
+  exportData: () => Promise<string>; // The stored payload as JSON, for a manual repair
+  discardData: () => Promise<void>; // Back up the payload and start the key over empty
+}
+
+// Failed upgrades, for the recovery screen. Listeners are notified on every change.
+export class MigrationFailureRegistry {
+  private failures = new Map<StorageKey, MigrationFailure>();
+  private listeners: Array<(failures: MigrationFailure[]) => void> = [];
+
+  report(failure: MigrationFailure) {
+    console.error(`Storage migration of ${failure.key} failed:`, failure.message);
+    this.failures.set(failure.key, failure);
+    this.notifyListeners();
+  }
+
+  resolve(key: StorageKey) {
+    if (this.failures.delete(key)) {
+      this.notifyListeners();
+    }
+  }
+
+  getAll(): MigrationFailure[] {
+    return [...this.failures.values()];
+  }
+
+  subscribe(listener: (failures: MigrationFailure[]) => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners() {
+    const failures = this.getAll();
+    this.listeners.forEach(listener => listener(failures));
+  }
+}
+
+export const migrationFailures = new MigrationFailureRegistry();
@@ -1,5 +1,9 @@
-import { Document } from "./types";
+import { ChunkingConfig, ChunkingSettings, Document } from "./types";
 import { debugLogger, logRAGOperation, logError } from "./debug";
+import { formatSheetRow, getSheetHeaders } from "./services/document/spreadsheet";
+import { formatSectionPath, formatTable, htmlBlocks, SectionBlock, SectionHeading, splitSentences, textBlocks } from "./services/document/structure";
+import { documentService } from "./services/document/service";
+import { TextLocator } from "./services/document/offsets";
 
 export interface DocumentChunk {
     id: string;
@@ -8,15 +12,48 @@ export interface DocumentChunk {
     totalChunks: number;
     documentId: string;
     metadata?: {
-        createdAt?: Date;
-        category?: string;
+        createdAt?: Date; // Upload date of the document
+        category?: string; // Category of the document
+        folderId?: string; // Folder holding the document
+        documentType?: string;
+        pageNumber?: number;
+        sheetName?: string;
+        cellRange?: string; // e.g. "A4:D9" within sheetName
+        sectionPath?: string; // e.g. "12. Termination > 12.3 Change of Control"
+        table?: boolean; // Content is a Markdown table; its header row is repeated in every chunk
+        startOffset?: number; // Passage of the document's rawText the chunk was taken from
+        endOffset?: number;
     };
 }
 
-export interface ChunkingConfig {
-    maxChunkSize: number;
-    overlapSize: number;
-    minChunkSize: number;
+export type { ChunkingConfig, ChunkingSettings };
+
+// Chunk counts reported by the backend for one indexing call
+export interface IndexResult {
+    inserted: number;
+    updated: number; // Chunks that replaced the same chunk indexed before
+    removed: number; // Chunks of an earlier indexing the document no longer produces
+}
+
+// 'vector' ranks by meaning (nearText), 'keyword' by exact terms (BM25), 'hybrid' blends both so
+// clause numbers, standard codes ("ISO 45001") and party names are found alongside paraphrases
+export type SearchMode = 'vector' | 'hybrid' | 'keyword';
+
+// Restrict a search to chunks whose documents match every given criterion; a list matches any of
+// its values
+export interface SearchFilters {
+    documentIds?: string[];
+    folderIds?: string[]; // Folders directly holding the documents
+    documentTypes?: string[]; // Document.documentType values, e.g. "PDF"
+    categories?: string[];
+    createdAfter?: Date; // Documents uploaded at or after this time
+    createdBefore?: Date; // Documents uploaded at or before this time
+}
+
+export interface SearchOptions {
+    mode?: SearchMode; // 'vector' if omitted
+    alpha?: number; // Hybrid only: weight of the vector score from 0 (pure keyword) to 1 (pure vector)
+    filters?: SearchFilters;
 }
 
 export interface SearchResult {
@@ -25,42 +62,66 @@ export interface SearchResult {
     highlights?: string[];
 }
 
-const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
-    maxChunkSize: 500,
-    overlapSize: 50,
-    minChunkSize: 100,
+// The profile projects were indexed with before chunking became configurable
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+    strategy: 'sections',
+    maxChunkSize: 300,
+    overlapSize: 20,
+    minChunkSize: 50,
 };
 
+// Profile for a document: its type's override, else the project default
+export function chunkingConfigFor(settings: ChunkingSettings | undefined, documentType: string): ChunkingConfig {
+    return settings?.byDocumentType?.[documentType] || settings?.default || DEFAULT_CHUNKING_CONFIG;
+}
+
+// Chunk text with the location it was taken from
+interface ChunkSource {
+    content: string;
+    pageNumber?: number;
+    sheetName?: string;
+    cellRange?: string;
+    sectionPath?: string;
+    table?: boolean;
+    // Text that starts and ends the chunk in rawText, for chunks whose content is reformatted (tables)
+    anchors?: [string, string];
+}
+
 export class ProjectRag {
-    private chunkingConfig: ChunkingConfig;
+    private chunkingSettings: ChunkingSettings;
     private projectId: string;
     private apiBaseUrl: string;
 
     constructor(
         projectId: string,
-        chunkingConfig?: ChunkingConfig,
+        chunkingSettings?: ChunkingSettings,
         apiBaseUrl: string = 'http://localhost:3001/api'
     ) {
         this.projectId = projectId;
-        this.chunkingConfig = chunkingConfig || DEFAULT_CHUNKING_CONFIG;
+        this.chunkingSettings = chunkingSettings || { default: DEFAULT_CHUNKING_CONFIG };
         this.apiBaseUrl = apiBaseUrl;
     }
 
-    private chunkDocument(content: string): string[] {
+    // Settings used for documents indexed from now on
+    setChunkingSettings(chunkingSettings: ChunkingSettings): void {
+        this.chunkingSettings = chunkingSettings;
+    }
+
+    private chunkDocument(content: string, config: ChunkingConfig): string[] {
         debugLogger.debug('Starting document chunking', { 
             component: 'RAG', 
             operation: 'chunkDocument',
             projectId: this.projectId 
         }, {
             contentLength: content.length,
-            chunkingConfig: this.chunkingConfig
+            chunkingConfig: config
         });
 
-        const { maxChunkSize, overlapSize, minChunkSize } = this.chunkingConfig;
+        const { maxChunkSize, overlapSize, minChunkSize } = config;
         const chunks: string[] = [];
 
-        // Split by sentences first to avoid breaking mid-sentence
-        const sentences = content.match(/[^.!?]+[.!?]+/g) || [content];
+        // Split by paragraphs and sentences first to avoid breaking mid-sentence
+        const sentences = content.split(/\n\s*\n/).flatMap(splitSentences);
         debugLogger.debug('Document sentences extracted', { 
             component: 'RAG', 
             operation: 'chunkDocument',
@@ -110,7 +171,219 @@ export class ProjectRag {
         return chunks;
     }
 
-    async indexAnswer(doc: Document, questionMetadata?: Record<string, unknown>): Promise<void> {
+    // Fixed-size windows of characters, each starting overlapSize characters before the previous
+    // one ended; windows end at whitespace where possible so words stay whole
+    private chunkFixed(content: string, config: ChunkingConfig): string[] {
+        const { maxChunkSize, overlapSize, minChunkSize } = config;
+        const text = content.replace(/\s+/g, ' ').trim();
+        const windows: { start: number; end: number }[] = [];
+
+        let start = 0;
+        while (start < text.length) {
+            let end = Math.min(start + maxChunkSize, text.length);
+            if (end < text.length) {
+                const space = text.lastIndexOf(' ', end);
+                if (space > start + maxChunkSize / 2) end = space;
+            }
+            windows.push({ start, end });
+            if (end >= text.length) break;
+
+            // Step back by the overlap to a word boundary, but always move forward
+            const overlapStart = overlapSize > 0 ? text.indexOf(' ', Math.max(end - overlapSize, start + 1)) : -1;
+            start = overlapStart >= 0 && overlapStart < end ? overlapStart + 1 : end;
+        }
+
+        // A short last window is merged into the one before it
+        const last = windows[windows.length - 1];
+        if (windows.length > 1 && last.end - last.start < minChunkSize) {
+            windows.pop();
+            windows[windows.length - 1].end = last.end;
+        }
+        return windows.map(({ start, end }) => text.slice(start, end).trim()).filter(Boolean);
+    }
+
+    // Chunk with the configured strategy, page by page when the page layout is known so every chunk
+    // can be cited with its page number. The 'sections' strategy follows the document's structure:
+    // sections of the formatted HTML when there is one, otherwise headings and numbered clauses
+    // found in the text. Spreadsheets are always chunked by rows.
+    private async chunkPages(doc: Document, config: ChunkingConfig): Promise<ChunkSource[]> {
+        if (doc.sheets && doc.sheets.length > 0) {
+            return this.chunkSheets(doc, config);
+        }
+
+        const strategy = config.strategy || 'sections';
+        if (strategy !== 'sections') {
+            const chunkText = (text: string) => strategy === 'fixed'
+                ? this.chunkFixed(text, config)
+                : this.chunkDocument(text, config);
+            if (!doc.pages || doc.pages.length === 0) {
+                return chunkText(doc.rawText).map(content => ({ content }));
+            }
+            return doc.pages.flatMap(page => chunkText(page.text).map(content => ({
+                content,
+                pageNumber: page.pageNumber,
+            })));
+        }
+
+        const html = await documentService.extractStructuredHtml(doc);
+        if (html) {
+            return this.chunkSections(htmlBlocks(html), config);
+        }
+        if (!doc.pages || doc.pages.length === 0) {
+            return this.chunkSections(textBlocks(doc.rawText).blocks, config);
+        }
+
+        let path: SectionHeading[] = [];
+        return doc.pages.flatMap(page => {
+            const parsed = textBlocks(page.text, path);
+            path = parsed.path;
+            return this.chunkSections(parsed.blocks, config).map(chunk => ({
+                ...chunk,
+                pageNumber: page.pageNumber,
+            }));
+        });
+    }
+
+    // Chunk each section separately so no chunk spans two sections
+    private chunkSections(blocks: SectionBlock[], config: ChunkingConfig): ChunkSource[] {
+        const sections: { path: string[]; texts: string[]; table?: string[][] }[] = [];
+        let pendingHeadings: string[] = [];
+
+        blocks.forEach((block, index) => {
+            const last = sections[sections.length - 1];
+            const next = blocks[index + 1];
+            if (block.table) {
+                if (pendingHeadings.length > 0) {
+                    sections.push({ path: block.sectionPath, texts: pendingHeadings });
+                    pendingHeadings = [];
+                }
+                sections.push({ path: block.sectionPath, texts: [], table: block.table });
+                return;
+            }
+            // A heading with no text of its own goes with the first subsection under it
+            if (block.heading && block.text === block.sectionPath[block.sectionPath.length - 1] &&
+                next && next.sectionPath.length > block.sectionPath.length &&
+                block.sectionPath.every((title, i) => next.sectionPath[i] === title)) {
+                pendingHeadings.push(block.text);
+                return;
+            }
+
+            const texts = [...pendingHeadings, block.text];
+            pendingHeadings = [];
+            if (last && !last.table && !block.heading && formatSectionPath(last.path) === formatSectionPath(block.sectionPath)) {
+                last.texts.push(...texts);
+            } else {
+                sections.push({ path: block.sectionPath, texts });
+            }
+        });
+
+        return sections.flatMap(section => {
+            const sectionPath = section.path.length > 0 ? formatSectionPath(section.path) : undefined;
+            if (section.table) {
+                // Tables are chunked by rows, repeating the header row in every chunk
+                const [header, ...rows] = section.table;
+                const firstCell = (row: string[]) => row.find(Boolean) || '';
+                const lastCell = (row: string[]) => [...row].reverse().find(Boolean) || '';
+                return this.groupTableRows(header, rows, config).map(group => ({
+                    content: formatTable(header, group),
+                    sectionPath,
+                    table: true,
+                    anchors: [firstCell(group[0]), lastCell(group[group.length - 1])] as [string, string],
+                }));
+            }
+
+            const text = section.texts.join('\n\n').trim();
+            if (!text) return [];
+
+            // Short sections fall below the minimum chunk size but still need to be searchable
+            const chunks = this.chunkDocument(text, config);
+            return (chunks.length > 0 ? chunks : [text]).map(content => ({ content, sectionPath }));
+        });
+    }
+
+    // Group whole spreadsheet rows into table chunks so every chunk can be cited by sheet and cell range
+    private chunkSheets(doc: Document, config: ChunkingConfig): ChunkSource[] {
+        return (doc.sheets || []).flatMap(sheet => {
+            const headers = getSheetHeaders(sheet);
+            const header = ['Row', ...headers];
+            const sheetRows = sheet.rows
+                .filter(row => sheet.headerRowNumber === undefined || row.rowNumber > sheet.headerRowNumber)
+                .filter(row => row.cells.some(Boolean));
+            const rows = sheetRows.map(row => [String(row.rowNumber), ...row.cells]);
+            const lastColumn = sheet.columns[sheet.columns.length - 1];
+            // rawText holds every row as formatted by formatSheetRow
+            const rowText = (rowNumber: string) =>
+                formatSheetRow(sheet, sheetRows.find(row => String(row.rowNumber) === rowNumber)!, headers);
+
+            return this.groupTableRows(header, rows, config).map(group => ({
+                content: `Sheet: ${sheet.name}\n${formatTable(header, group)}`,
+                sheetName: sheet.name,
+                cellRange: `${sheet.columns[0]}${group[0][0]}:${lastColumn}${group[group.length - 1][0]}`,
+                table: true,
+                anchors: [rowText(group[0][0]), rowText(group[group.length - 1][0])] as [string, string],
+            }));
+        });
+    }
+
+    // Split table rows into groups that fit a chunk together with the repeated header row
+    private groupTableRows(header: string[], rows: string[][], config: ChunkingConfig): string[][][] {
+        const { maxChunkSize } = config;
+        const groups: string[][][] = [];
+        let group: string[][] = [];
+
+        for (const row of rows) {
+            if (group.length > 0 && formatTable(header, [...group, row]).length > maxChunkSize) {
+                groups.push(group);
+                group = [];
+            }
+            group.push(row);
+        }
+        if (group.length > 0) groups.push(group);
+
+        return groups;
+    }
+
+    // The chunks a document is indexed with, as sent to the backend
+    async buildChunks(doc: Document): Promise<DocumentChunk[]> {
+        // Chunk the document content with its type's profile, page by page when the page layout is known
+        const config = chunkingConfigFor(this.chunkingSettings, doc.documentType);
+        const chunks = await this.chunkPages(doc, config);
+
+        // Find each chunk's passage in rawText; chunks come in document order
+        const locator = new TextLocator(doc.rawText);
+        let from = 0;
+        const ranges = chunks.map(chunk => {
+            const range = chunk.anchors
+                ? locator.locateBetween(chunk.anchors[0], chunk.anchors[1], from)
+                : locator.locate(chunk.content, from);
+            if (range) from = range.start;
+            return range;
+        });
+
+        return chunks.map((chunk, index) => ({
+            id: `${doc.id}_chunk_${index}`,
+            content: chunk.content,
+            chunkIndex: index,
+            totalChunks: chunks.length,
+            documentId: doc.id,
+            metadata: {
+                createdAt: doc.createdAt,
+                category: doc.category,
+                folderId: doc.folderId || undefined,
+                documentType: doc.documentType,
+                pageNumber: chunk.pageNumber,
+                sheetName: chunk.sheetName,
+                cellRange: chunk.cellRange,
+                sectionPath: chunk.sectionPath,
+                table: chunk.table,
+                startOffset: ranges[index]?.start,
+                endOffset: ranges[index]?.end,
+            }
+        }));
+    }
+
+    // Index a document's chunks, replacing those it was indexed with before
+    async indexAnswer(doc: Document, questionMetadata?: Record<string, unknown>): Promise<IndexResult> {
         logRAGOperation('indexAnswer_start', this.projectId, {
             documentId: doc.id,
             contentLength: doc.rawText.length,
@@ -118,21 +391,7 @@ export class ProjectRag {
         });
 
         try {
-            // Chunk the document content
-            const chunks = this.chunkDocument(doc.rawText);
-
-            // Create DocumentChunk objects
-            const chunkObjects: DocumentChunk[] = chunks.map((content, index) => ({
-                id: `${doc.id}_chunk_${index}`,
-                content,
-                chunkIndex: index,
-                totalChunks: chunks.length,
-                documentId: doc.id,
-                metadata: {
-                    createdAt: new Date(),
-                    category: undefined,
-                }
-            }));
+            const chunkObjects = await this.buildChunks(doc);
 
             debugLogger.debug('Preparing to send chunks to backend', { 
                 component: 'RAG', 
@@ -152,6 +411,7 @@ export class ProjectRag {
                 body: JSON.stringify({
                     projectId: this.projectId,
                     chunks: chunkObjects,
+                    documentIds: [doc.id],
                     metadata: questionMetadata
                 })
             });
@@ -194,6 +454,11 @@ export class ProjectRag {
                 chunkCount: chunkObjects.length,
                 result: result.data
             });
+            return {
+                inserted: result.data?.inserted ?? chunkObjects.length,
+                updated: result.data?.updated ?? 0,
+                removed: result.data?.removed ?? 0,
+            };
         } catch (error) {
             logError('RAG', 'indexAnswer', error, {
                 component: 'RAG',
@@ -205,10 +470,18 @@ export class ProjectRag {
         }
     }
 
-    async search(query: string, limit: number = 5): Promise<SearchResult[]> {
+    // excludeDocumentIds keeps chunks of replaced document versions out of the results
+    async search(
+        query: string,
+        limit: number = 5,
+        excludeDocumentIds: string[] = [],
+        options: SearchOptions = {}
+    ): Promise<SearchResult[]> {
         logRAGOperation('search_start', this.projectId, {
             query,
             limit,
+            ...options,
+            excludedDocuments: excludeDocumentIds.length,
             apiBaseUrl: this.apiBaseUrl
         });
 
@@ -221,7 +494,11 @@ export class ProjectRag {
                 body: JSON.stringify({
                     projectId: this.projectId,
                     query,
-                    limit
+                    limit,
+                    excludeDocumentIds,
+                    mode: options.mode,
+                    alpha: options.alpha,
+                    filters: options.filters
                 })
             });
 
@@ -255,7 +532,9 @@ export class ProjectRag {
                 throw new Error(result.error || 'Failed to search documents');
             }
 
-            const searchResults = result.data.results || [];
+            const excluded = new Set(excludeDocumentIds);
+            const searchResults: SearchResult[] = (result.data.results || [])
+                .filter((r: SearchResult) => !excluded.has(r.chunk?.documentId));
             logRAGOperation('search_success', this.projectId, {
                 query,
                 resultCount: searchResults.length,
@@ -278,6 +557,81 @@ export class ProjectRag {
         }
     }
 
+    // Drop every indexed chunk of the project, e.g. before re-indexing with a new chunking profile
+    async resetIndex(): Promise<void> {
+        logRAGOperation('resetIndex_start', this.projectId);
+
+        try {
+            const response = await fetch(`${this.apiBaseUrl}/index/${encodeURIComponent(this.projectId)}`, {
+                method: 'DELETE',
+            });
+            const result = await response.json().catch(() => ({ success: false, error: 'Unknown error' }));
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            logRAGOperation('resetIndex_success', this.projectId);
+        } catch (error) {
+            logError('RAG', 'resetIndex', error, {
+                component: 'RAG',
+                operation: 'resetIndex',
+                projectId: this.projectId
+            });
+            throw new Error(`Failed to reset index: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Delete the project's collection for good, when the project itself is deleted
+    async dropIndex(): Promise<void> {
+        logRAGOperation('dropIndex_start', this.projectId);
+
+        try {
+            const response = await fetch(`${this.apiBaseUrl}/index/${encodeURIComponent(this.projectId)}/collection`, {
+                method: 'DELETE',
+            });
+            const result = await response.json().catch(() => ({ success: false, error: 'Unknown error' }));
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            logRAGOperation('dropIndex_success', this.projectId);
+        } catch (error) {
+            logError('RAG', 'dropIndex', error, {
+                component: 'RAG',
+                operation: 'dropIndex',
+                projectId: this.projectId
+            });
+            throw new Error(`Failed to drop index: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Remove every chunk of a document from the index. Returns the number of chunks removed.
+    async deleteDocument(documentId: string): Promise<number> {
+        logRAGOperation('deleteDocument_start', this.projectId, { documentId });
+
+        try {
+            const response = await fetch(
+                `${this.apiBaseUrl}/documents/${encodeURIComponent(this.projectId)}/${encodeURIComponent(documentId)}`,
+                { method: 'DELETE' }
+            );
+            const result = await response.json().catch(() => ({ success: false, error: 'Unknown error' }));
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            logRAGOperation('deleteDocument_success', this.projectId, { documentId, chunksDeleted: result.data?.chunksDeleted });
+            return result.data?.chunksDeleted ?? 0;
+        } catch (error) {
+            logError('RAG', 'deleteDocument', error, {
+                component: 'RAG',
+                operation: 'deleteDocument',
+                projectId: this.projectId,
+                documentId
+            });
+            throw new Error(`Failed to delete document: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
     // Check if server is available
     async checkServerHealth(): Promise<boolean> {
         debugLogger.debug('Checking server health', { 
@@ -310,18 +664,10 @@ export class ProjectRag {
             return false;
         }
     }
-
-    // TODO: Implement a delete of documents.
 }
 
 // Simple connect function that returns a ProjectRag instance
-export async function connect(projectId: string, apiBaseUrl?: string): Promise<ProjectRag> {
-    const chunkingConfig: ChunkingConfig = {
-        maxChunkSize: 300,
-        overlapSize: 20,
-        minChunkSize: 50,
-    };
-
-    return new ProjectRag(projectId, chunkingConfig, apiBaseUrl);
+export async function connect(projectId: string, apiBaseUrl?: string, chunkingSettings?: ChunkingSettings): Promise<ProjectRag> {
+    return new ProjectRag(projectId, chunkingSettings, apiBaseUrl);
 }
 
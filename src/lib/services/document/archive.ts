@@ -0,0 +1,175 @@
+import JSZip from 'jszip';
+
+// Archive extensions that are unpacked into one document per file
+export const ARCHIVE_EXTENSIONS = ['zip'];
+
+// OS metadata that data-room exports often carry along
+const IGNORED_FILE_NAMES = new Set(['thumbs.db', 'desktop.ini']);
+
+// Data-room index prefix such as "3.", "3.2" or "3.2.4" at the start of a name
+const INDEX_NUMBER_PATTERN = /^(\d+(?:\.\d+)*)\.?(?=[\s_)-])/;
+
+// Folder of an archive path, with its index number taken off the name
+export interface ArchiveFolder {
+  name: string; // e.g. "Material Contracts"
+  indexNumber?: string; // e.g. "3.2"
+}
+
+// A file unpacked from an archive together with its place in the folder tree
+export interface ArchiveEntry {
+  file: File;
+  folderPath: string; // e.g. "3. Legal/3.2 Material Contracts"; empty at the archive root
+  folders: ArchiveFolder[]; // One per folderPath segment
+  indexNumber?: string; // e.g. "3.2.4"
+}
+
+// Upload sources only need the name and the bytes
+type ArchiveSource = Pick<File, 'name' | 'arrayBuffer'>;
+
+export function isArchiveFile(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return !!extension && ARCHIVE_EXTENSIONS.includes(extension);
+}
+
+// Index number a file or folder name starts with, e.g. "3.2 Material Contracts" -> "3.2"
+export function parseIndexNumber(name: string): string | undefined {
+  return INDEX_NUMBER_PATTERN.exec(name.trim())?.[1];
+}
+
+function isIgnored(path: string): boolean {
+  const segments = path.split('/');
+  const name = segments[segments.length - 1];
+  return segments.some(segment => segment === '__MACOSX' || segment.startsWith('.'))
+    || IGNORED_FILE_NAMES.has(name.toLowerCase());
+}
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Resolve the index number of an item from its name and its folder's number. Items may
+// carry the full number ("3.2.4 Lease.pdf") or just their position ("4. Lease.pdf");
+// anything else, such as a year ("2019 Accounts.pdf"), is not an index number.
+function childIndexNumber(name: string, folderNumber?: string): string | undefined {
+  const number = parseIndexNumber(name);
+  if (!number) return undefined;
+
+  if (folderNumber && number.startsWith(`${folderNumber}.`)) {
+    return number.split('.').length === folderNumber.split('.').length + 1 ? number : undefined;
+  }
+  if (!number.includes('.') && parseInt(number, 10) < 1000) {
+    return folderNumber ? `${folderNumber}.${parseInt(number, 10)}` : number;
+  }
+  return folderNumber ? undefined : number;
+}
+
+// Name without its index number prefix, e.g. "3.2 Material Contracts" -> "Material Contracts"
+function stripIndexNumber(name: string): string {
+  return name.trim().replace(INDEX_NUMBER_PATTERN, '').replace(/^[\s_)-]+/, '') || name.trim();
+}
+
+// Number every file of the archive. Folder numbers come from their names, and files without
+// their own number continue the numbering of their folder after any numbered siblings.
+function assignIndexNumbers(paths: string[]): {
+  files: Map<string, string | undefined>;
+  folders: Map<string, string | undefined>;
+} {
+  const folderNumbers = new Map<string, string | undefined>([['', undefined]]);
+  const folderNumberOf = (folder: string): string | undefined => {
+    if (!folderNumbers.has(folder)) {
+      const segments = folder.split('/');
+      const parent = segments.slice(0, -1).join('/');
+      folderNumbers.set(folder, childIndexNumber(segments[segments.length - 1], folderNumberOf(parent)));
+    }
+    return folderNumbers.get(folder);
+  };
+
+  const children = new Map<string, Set<string>>();
+  const addChild = (folder: string, name: string) => {
+    children.set(folder, (children.get(folder) || new Set()).add(name));
+  };
+  for (const path of paths) {
+    const segments = path.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      addChild(segments.slice(0, depth - 1).join('/'), segments[depth - 1]);
+    }
+  }
+
+  const files = new Set(paths);
+  const result = new Map<string, string | undefined>();
+  for (const [folder, names] of children) {
+    const folderNumber = folderNumberOf(folder);
+    const used = new Set<string>();
+    const unnumbered: string[] = [];
+
+    for (const name of names) {
+      const number = childIndexNumber(name, folderNumber);
+      if (number) {
+        used.add(number);
+      }
+      const path = folder ? `${folder}/${name}` : name;
+      if (files.has(path)) {
+        if (number) {
+          result.set(path, number);
+        } else {
+          unnumbered.push(path);
+        }
+      }
+    }
+
+    let next = 1;
+    for (const path of unnumbered.sort(naturalOrder.compare)) {
+      if (!folderNumber) {
+        result.set(path, undefined);
+        continue;
+      }
+      while (used.has(`${folderNumber}.${next}`)) next++;
+      used.add(`${folderNumber}.${next}`);
+      result.set(path, `${folderNumber}.${next}`);
+    }
+  }
+
+  return { files: result, folders: folderNumbers };
+}
+
+// Unpack a ZIP data room into individual files, keeping each file's folder path and index number
+export async function unpackArchive(archive: ArchiveSource): Promise<ArchiveEntry[]> {
+  const zip = await JSZip.loadAsync(await archive.arrayBuffer());
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !isIgnored(entry.name));
+
+  // Many exports wrap everything in one unnumbered top-level folder; that is not part of the index
+  const roots = new Set(entries.map(entry => entry.name.split('/')[0]));
+  const [root] = roots;
+  const stripRoot = roots.size === 1
+    && entries.every(entry => entry.name.includes('/'))
+    && !parseIndexNumber(root);
+  const pathOf = (name: string) => stripRoot ? name.slice(root.length + 1) : name;
+
+  const indexNumbers = assignIndexNumbers(entries.map(entry => pathOf(entry.name)));
+
+  const result: ArchiveEntry[] = [];
+  for (const entry of entries) {
+    const path = pathOf(entry.name);
+    const segments = path.split('/');
+    const fileName = segments.pop()!;
+
+    if (isArchiveFile(fileName)) {
+      console.warn(`Skipping nested archive ${entry.name} in ${archive.name}`);
+      continue;
+    }
+
+    const content = await entry.async('arraybuffer');
+    result.push({
+      file: new File([content], fileName, { lastModified: entry.date.getTime() }),
+      folderPath: segments.join('/'),
+      folders: segments.map((segment, depth) => {
+        const indexNumber = indexNumbers.folders.get(segments.slice(0, depth + 1).join('/'));
+        return { name: indexNumber ? stripIndexNumber(segment) : segment, indexNumber };
+      }),
+      indexNumber: indexNumbers.files.get(path),
+    });
+  }
+
+  // Keep the data-room order rather than the order of the ZIP directory
+  return result.sort((a, b) =>
+    naturalOrder.compare(a.folderPath, b.folderPath) || naturalOrder.compare(a.file.name, b.file.name)
+  );
+}
@@ -0,0 +1,120 @@
+// Intermediate document model shared by the RTF, ODT and .doc extractors,
+// rendered to plain text for indexing and to HTML for the formatted view.
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export type TextBlock =
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'paragraph'; runs: TextRun[]; listItem?: boolean }
+  | { type: 'table'; rows: TextRun[][][] };
+
+// Plain text and HTML renditions of a document
+export interface TextAndHtml {
+  rawText: string;
+  html: string;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
+
+function runsToHtml(runs: TextRun[]): string {
+  return runs.map(run => {
+    let html = escapeHtml(run.text).replace(/\n/g, '<br />');
+    if (run.underline) html = `<u>${html}</u>`;
+    if (run.italic) html = `<em>${html}</em>`;
+    if (run.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+}
+
+function isEmpty(runs: TextRun[]): boolean {
+  return runsToText(runs).trim().length === 0;
+}
+
+export function blocksToText(blocks: TextBlock[]): string {
+  const lines: string[] = [];
+
+  for (const block of blocks) {
+    if (block.type === 'table') {
+      for (const row of block.rows) {
+        lines.push(row.map(cell => runsToText(cell).replace(/\s*\n\s*/g, ' ').trim()).join('\t'));
+      }
+    } else if (!isEmpty(block.runs)) {
+      const text = runsToText(block.runs);
+      lines.push(block.type === 'paragraph' && block.listItem ? `• ${text}` : text);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function blocksToHtml(blocks: TextBlock[]): string {
+  const html: string[] = [];
+  let inList = false;
+
+  for (const block of blocks) {
+    const isListItem = block.type === 'paragraph' && block.listItem;
+    if (inList && !isListItem) {
+      html.push('</ul>');
+      inList = false;
+    }
+
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(block.level, 1), 6);
+        if (!isEmpty(block.runs)) {
+          html.push(`<h${level}>${runsToHtml(block.runs)}</h${level}>`);
+        }
+        break;
+      }
+
+      case 'paragraph':
+        if (isEmpty(block.runs)) break;
+        if (block.listItem) {
+          if (!inList) {
+            html.push('<ul>');
+            inList = true;
+          }
+          html.push(`<li>${runsToHtml(block.runs)}</li>`);
+        } else {
+          html.push(`<p>${runsToHtml(block.runs)}</p>`);
+        }
+        break;
+
+      case 'table':
+        html.push('<table><tbody>');
+        for (const row of block.rows) {
+          html.push(`<tr>${row.map(cell => `<td>${runsToHtml(cell)}</td>`).join('')}</tr>`);
+        }
+        html.push('</tbody></table>');
+        break;
+    }
+  }
+
+  if (inList) {
+    html.push('</ul>');
+  }
+
+  return html.join('\n');
+}
+
+export function renderBlocks(blocks: TextBlock[]): TextAndHtml {
+  return {
+    rawText: blocksToText(blocks),
+    html: blocksToHtml(blocks),
+  };
+}
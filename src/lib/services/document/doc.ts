@@ -0,0 +1,231 @@
+import * as CFB from 'cfb';
+import { renderBlocks, TextAndHtml, TextBlock, TextRun } from './blocks';
+
+// Word 97-2003 binary format ([MS-DOC]). Text is stored in the WordDocument stream as a
+// sequence of pieces; the piece table (CLX) in the table stream maps character positions to it.
+
+const FIB_FLAGS_OFFSET = 0x000a;
+const FIB_FLAG_ENCRYPTED = 0x0100;
+const FIB_FLAG_TABLE_1 = 0x0200;
+const MIN_WORD97_NFIB = 0x00c1;
+
+// Index of the fcClx/lcbClx pair in FibRgFcLcb97
+const FC_CLX_INDEX = 33;
+
+// Index of ccpText (main document length in characters) in FibRgLw97
+const CCP_TEXT_INDEX = 3;
+
+const CELL_MARK = '\x07';
+const FIELD_BEGIN = '\x13';
+const FIELD_SEPARATOR = '\x14';
+const FIELD_END = '\x15';
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+function toUint8Array(blob: CFB.CFB$Blob): Uint8Array {
+  return blob instanceof Uint8Array ? blob : Uint8Array.from(blob);
+}
+
+function readStream(container: CFB.CFB$Container, name: string): Uint8Array | null {
+  const entry = CFB.find(container, name);
+  return entry ? toUint8Array(entry.content) : null;
+}
+
+// Locate the piece table inside the CLX, skipping any leading property modifiers (Prc)
+function readPieces(table: DataView, fcClx: number, lcbClx: number): Piece[] {
+  let offset = fcClx;
+  const end = fcClx + lcbClx;
+
+  while (offset < end && table.getUint8(offset) === 0x01) {
+    const cbGrpprl = table.getInt16(offset + 1, true);
+    offset += 3 + cbGrpprl;
+  }
+
+  if (offset >= end || table.getUint8(offset) !== 0x02) {
+    throw new Error('Word document piece table not found');
+  }
+
+  const lcb = table.getUint32(offset + 1, true);
+  const plcStart = offset + 5;
+  const count = (lcb - 4) / 12;
+  const pieces: Piece[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const cpStart = table.getUint32(plcStart + i * 4, true);
+    const cpEnd = table.getUint32(plcStart + (i + 1) * 4, true);
+    const pcdOffset = plcStart + (count + 1) * 4 + i * 8;
+    const fcValue = table.getUint32(pcdOffset + 2, true);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    pieces.push({
+      cpStart,
+      cpEnd,
+      fc: compressed ? (fcValue & 0x3fffffff) / 2 : fcValue,
+      compressed,
+    });
+  }
+
+  return pieces;
+}
+
+// Reassemble the main document text from its pieces
+function readText(wordDocument: Uint8Array, pieces: Piece[], ccpText: number): string {
+  const cp1252 = new TextDecoder('windows-1252');
+  const utf16 = new TextDecoder('utf-16le');
+  let text = '';
+
+  for (const piece of pieces) {
+    if (piece.cpStart >= ccpText) break;
+    const length = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+    if (length <= 0) continue;
+
+    if (piece.compressed) {
+      text += cp1252.decode(wordDocument.subarray(piece.fc, piece.fc + length));
+    } else {
+      text += utf16.decode(wordDocument.subarray(piece.fc, piece.fc + length * 2));
+    }
+  }
+
+  return text;
+}
+
+// Keep field results (e.g. hyperlink text) and drop field codes (e.g. HYPERLINK "...")
+function stripFieldCodes(text: string): string {
+  let result = '';
+  const stack: boolean[] = []; // per open field: still inside its code part?
+
+  for (const char of text) {
+    if (char === FIELD_BEGIN) {
+      stack.push(true);
+    } else if (char === FIELD_SEPARATOR) {
+      if (stack.length > 0) stack[stack.length - 1] = false;
+    } else if (char === FIELD_END) {
+      stack.pop();
+    } else if (!stack.some(inCode => inCode)) {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+// Map Word's special characters to text; other control characters (embedded objects,
+// page breaks, optional hyphens) are dropped
+function cleanText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code === 0x0b) {
+      result += '\n'; // manual line break
+    } else if (code === 0x1e) {
+      result += '-'; // non-breaking hyphen
+    } else if (code === 0xa0) {
+      result += ' ';
+    } else if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// Split the text into paragraphs and tables. Each table cell ends with a cell mark (0x07)
+// and each row with an extra row mark, so a mark directly after another closes the row.
+// Paragraph marks seen while a row is open belong to the current cell.
+function toBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let rows: TextRun[][][] = [];
+  let cells: TextRun[][] = [];
+  let current = '';
+  let columns = 0;
+
+  const flushTable = () => {
+    if (rows.length > 0) {
+      blocks.push({ type: 'table', rows });
+      rows = [];
+    }
+    columns = 0;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === CELL_MARK) {
+      // Without paragraph properties an empty cell looks like a row mark, so once the
+      // first row is known its width decides where later rows end
+      const rowEnd = columns > 0
+        ? cells.length >= columns
+        : current.length === 0 && text[i - 1] === CELL_MARK && cells.length > 0;
+      if (rowEnd) {
+        if (columns === 0) columns = cells.length;
+        rows.push(cells);
+        cells = [];
+      } else {
+        cells.push([{ text: cleanText(current.replace(/\r/g, '\n')).trim() }]);
+      }
+      current = '';
+    } else if (char === '\r' && cells.length > 0) {
+      current += char;
+    } else if (char === '\r') {
+      flushTable();
+      blocks.push({ type: 'paragraph', runs: [{ text: cleanText(current) }] });
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (cells.length > 0) {
+    rows.push(cells);
+  }
+  flushTable();
+  if (current.trim()) {
+    blocks.push({ type: 'paragraph', runs: [{ text: cleanText(current) }] });
+  }
+
+  return blocks;
+}
+
+// Parse a legacy Word (.doc) file into plain text and an HTML rendition
+export function extractDoc(content: ArrayBuffer): TextAndHtml {
+  const container = CFB.read(new Uint8Array(content), { type: 'array' });
+  const wordDocument = readStream(container, 'WordDocument');
+  if (!wordDocument) {
+    throw new Error('Not a Word 97-2003 document: WordDocument stream is missing');
+  }
+
+  const fib = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+  const nFib = fib.getUint16(0x0002, true);
+  const flags = fib.getUint16(FIB_FLAGS_OFFSET, true);
+
+  if (nFib < MIN_WORD97_NFIB) {
+    throw new Error('Word 6.0/95 documents are not supported. Please save the file as .docx');
+  }
+  if (flags & FIB_FLAG_ENCRYPTED) {
+    throw new Error('Password-protected Word documents cannot be read');
+  }
+
+  const table = readStream(container, flags & FIB_FLAG_TABLE_1 ? '1Table' : '0Table');
+  if (!table) {
+    throw new Error('Word document table stream is missing');
+  }
+
+  // FIB layout: base (32 bytes), csw + FibRgW, cslw + FibRgLw, cbRgFcLcb + FibRgFcLcb
+  const csw = fib.getUint16(32, true);
+  const fibRgLwOffset = 32 + 2 + csw * 2 + 2;
+  const cslw = fib.getUint16(fibRgLwOffset - 2, true);
+  const fibRgFcLcbOffset = fibRgLwOffset + cslw * 4 + 2;
+
+  const ccpText = fib.getInt32(fibRgLwOffset + CCP_TEXT_INDEX * 4, true);
+  const fcClx = fib.getUint32(fibRgFcLcbOffset + FC_CLX_INDEX * 8, true);
+  const lcbClx = fib.getUint32(fibRgFcLcbOffset + FC_CLX_INDEX * 8 + 4, true);
+
+  const tableView = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  const pieces = readPieces(tableView, fcClx, lcbClx);
+  const text = stripFieldCodes(readText(wordDocument, pieces, ccpText));
+
+  return renderBlocks(toBlocks(text));
+}
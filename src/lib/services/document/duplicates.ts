@@ -0,0 +1,100 @@
+import { Document } from '@/lib/types';
+
+// How an upload that duplicates an existing document is handled
+export type DuplicateResolution = 'skip' | 'replace' | 'keep';
+
+export interface DuplicateMatch {
+  document: Document; // Existing current document the upload duplicates
+  exact: boolean; // Same bytes; otherwise the extracted text is nearly the same
+  similarity: number; // Estimated share of common word shingles, 1 for exact duplicates
+}
+
+// Asks how to handle a duplicate, e.g. by prompting the user
+export type DuplicateResolver = (file: File, match: DuplicateMatch) => Promise<DuplicateResolution>;
+
+// Estimated similarity from which two texts count as near-duplicates
+export const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+// Texts shorter than this have too few shingles to compare meaningfully
+const MIN_WORDS = 20;
+const SHINGLE_SIZE = 3;
+const SIGNATURE_SIZE = 64;
+
+// SHA-256 of the file bytes as hex
+export async function hashContent(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Finalizer of murmur3, used to derive independent hash functions from one shingle hash
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// MinHash signature of the text's word shingles. Empty for texts too short to compare.
+export function textSignature(text: string): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length < MIN_WORDS) return [];
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle, i + 1);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+// Estimated Jaccard similarity of two signatures; 0 when either text was too short
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+// Best duplicate of an upload among existing documents: an exact content match first, otherwise
+// the most similar text above the near-duplicate threshold
+export function findDuplicate(
+  documents: Document[],
+  contentHash: string,
+  signature: number[]
+): DuplicateMatch | null {
+  const exact = documents.find(doc => doc.contentHash === contentHash);
+  if (exact) {
+    return { document: exact, exact: true, similarity: 1 };
+  }
+
+  let best: DuplicateMatch | null = null;
+  for (const doc of documents) {
+    const similarity = signatureSimilarity(signature, doc.textSignature || textSignature(doc.rawText));
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { document: doc, exact: false, similarity };
+    }
+  }
+  return best;
+}
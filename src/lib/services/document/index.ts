@@ -1,5 +1,11 @@
-export { DocumentService, documentService } from './service';
+export { DocumentService, documentService, isCurrentVersion, DOCUMENT_TYPES } from './service';
+export { isArchiveFile } from './archive';
+export { detectQuestionColumns, extractQuestionsFromSheets } from './spreadsheet';
 export { DocumentProcessor, documentProcessor } from './processor';
 export { QuestionIntegrationService } from './questionIntegration';
 export type { Document, QuestionDocument, ProcessingStatus } from '@/lib/types';
 export type { ParsedQuestion, DocumentProcessingResponse } from './processor';
+export type { QuestionColumnMapping } from './spreadsheet';
+export type { DocumentLocation, UploadResult } from './service';
+export type { DuplicateMatch, DuplicateResolution, DuplicateResolver } from './duplicates';
+export type { RedlineResult } from './redline';
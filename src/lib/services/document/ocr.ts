@@ -0,0 +1,124 @@
+import { createWorker, Worker as TesseractWorker } from 'tesseract.js';
+import * as UTIF from 'utif';
+import { Document, DocumentPage } from '@/lib/types';
+import { renderPdfPages } from './pdf';
+
+// Pages recognised below this mean word confidence (0-100) are flagged for review
+export const OCR_LOW_CONFIDENCE_THRESHOLD = 60;
+
+// Image extensions that are run through OCR on upload
+export const OCR_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'tif', 'tiff'];
+
+// Tesseract runs in its own Web Worker. It loads its worker script, wasm core and language
+// data from the copies the build puts in public/tesseract (English only); the VITE_OCR_*
+// variables point elsewhere, e.g. at a CDN for other languages.
+const OCR_LANGUAGES = import.meta.env.VITE_OCR_LANGUAGES || 'eng';
+
+// The worker starts from a blob URL, against which relative paths do not resolve
+function ocrWorkerOptions() {
+  const assets = new URL(`${import.meta.env.BASE_URL}tesseract/`, window.location.href).href;
+  return {
+    workerPath: import.meta.env.VITE_OCR_WORKER_PATH || `${assets}worker.min.js`,
+    corePath: import.meta.env.VITE_OCR_CORE_PATH || `${assets}core`,
+    langPath: import.meta.env.VITE_OCR_LANG_PATH || `${assets}lang`,
+  };
+}
+
+type OcrImage = HTMLCanvasElement | Blob;
+
+export class OcrService {
+  private worker: Promise<TesseractWorker> | null = null;
+
+  // Lazily start a single shared worker; language data is only loaded on first use
+  private getWorker(): Promise<TesseractWorker> {
+    if (!this.worker) {
+      this.worker = createWorker(OCR_LANGUAGES, undefined, ocrWorkerOptions()).catch(error => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+
+  // Recognise a single image, returning its text and mean confidence
+  async recognize(image: OcrImage): Promise<{ text: string; confidence: number }> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(image);
+    return {
+      text: data.text.trim(),
+      confidence: Math.round(data.confidence),
+    };
+  }
+
+  // OCR an uploaded image file; multi-page TIFFs produce one page per frame
+  async recognizeImageFile(content: ArrayBuffer, extension: string): Promise<DocumentPage[]> {
+    const images: OcrImage[] = extension === 'tif' || extension === 'tiff'
+      ? this.decodeTiff(content)
+      : [new Blob([content])];
+
+    const pages: DocumentPage[] = [];
+    for (let index = 0; index < images.length; index++) {
+      const { text, confidence } = await this.recognize(images[index]);
+      pages.push({
+        pageNumber: index + 1,
+        text,
+        source: 'ocr',
+        ocrConfidence: confidence,
+      });
+    }
+    return pages;
+  }
+
+  // OCR the PDF pages that have no text layer, leaving the other pages untouched
+  async recognizeEmptyPdfPages(content: ArrayBuffer, pages: DocumentPage[]): Promise<DocumentPage[]> {
+    const emptyPageNumbers = pages
+      .filter(page => page.text.trim().length === 0)
+      .map(page => page.pageNumber);
+
+    if (emptyPageNumbers.length === 0) {
+      return pages;
+    }
+
+    const recognised = new Map<number, DocumentPage>();
+    await renderPdfPages(content, emptyPageNumbers, async (pageNumber, canvas) => {
+      const { text, confidence } = await this.recognize(canvas);
+      recognised.set(pageNumber, {
+        pageNumber,
+        text,
+        source: 'ocr',
+        ocrConfidence: confidence,
+      });
+    });
+
+    return pages.map(page => recognised.get(page.pageNumber) || page);
+  }
+
+  // Browsers cannot decode TIFF natively, so draw each frame onto a canvas
+  private decodeTiff(content: ArrayBuffer): HTMLCanvasElement[] {
+    const ifds = UTIF.decode(content);
+    return ifds.map(ifd => {
+      UTIF.decodeImage(content, ifd);
+      const rgba = UTIF.toRGBA8(ifd);
+
+      const canvas = window.document.createElement('canvas');
+      canvas.width = ifd.width;
+      canvas.height = ifd.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+      context.putImageData(new ImageData(new Uint8ClampedArray(rgba), ifd.width, ifd.height), 0, 0);
+      return canvas;
+    });
+  }
+}
+
+// Pages of a document whose OCR confidence is below the review threshold
+export function getLowConfidencePages(document: Document): DocumentPage[] {
+  return (document.pages || []).filter(page =>
+    page.source === 'ocr' && (page.ocrConfidence ?? 0) < OCR_LOW_CONFIDENCE_THRESHOLD
+  );
+}
+
+// Export singleton instance
+export const ocrService = new OcrService();
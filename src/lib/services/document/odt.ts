@@ -0,0 +1,226 @@
+import JSZip from 'jszip';
+import { renderBlocks, TextAndHtml, TextBlock, TextRun } from './blocks';
+
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const STYLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+const FO_NS = 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0';
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+
+// Repeated cells/columns beyond this are padding to the sheet edge, not content
+const MAX_REPEATED_CELLS = 50;
+
+type RunFormat = Omit<TextRun, 'text'>;
+
+// Resolve bold/italic/underline for every named text style, following parent styles
+function readTextStyles(xmls: globalThis.Document[]): Map<string, RunFormat> {
+  const raw = new Map<string, { parent?: string; format: RunFormat }>();
+  const styleElements = xmls.flatMap(xml => Array.from(xml.getElementsByTagNameNS(STYLE_NS, 'style')));
+
+  for (const style of styleElements) {
+    const name = style.getAttributeNS(STYLE_NS, 'name');
+    if (!name) continue;
+
+    const format: RunFormat = {};
+    const properties = style.getElementsByTagNameNS(STYLE_NS, 'text-properties')[0];
+    if (properties) {
+      const weight = properties.getAttributeNS(FO_NS, 'font-weight');
+      const fontStyle = properties.getAttributeNS(FO_NS, 'font-style');
+      const underline = properties.getAttributeNS(STYLE_NS, 'text-underline-style');
+      if (weight) format.bold = weight === 'bold' || parseInt(weight, 10) >= 600;
+      if (fontStyle) format.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+      if (underline) format.underline = underline !== 'none';
+    }
+
+    raw.set(name, { parent: style.getAttributeNS(STYLE_NS, 'parent-style-name') || undefined, format });
+  }
+
+  const resolved = new Map<string, RunFormat>();
+  const resolve = (name: string, depth = 0): RunFormat => {
+    if (resolved.has(name)) return resolved.get(name)!;
+    const entry = raw.get(name);
+    if (!entry) return {};
+    const inherited = entry.parent && depth < 10 ? resolve(entry.parent, depth + 1) : {};
+    const format = { ...inherited, ...entry.format };
+    resolved.set(name, format);
+    return format;
+  };
+
+  for (const name of raw.keys()) {
+    resolve(name);
+  }
+  return resolved;
+}
+
+class OdtWalker {
+  blocks: TextBlock[] = [];
+
+  constructor(private styles: Map<string, RunFormat>) {}
+
+  private styleOf(element: Element): RunFormat {
+    const name = element.getAttributeNS(TEXT_NS, 'style-name');
+    return (name && this.styles.get(name)) || {};
+  }
+
+  // Collect the inline content of a paragraph or heading as formatted runs
+  private collectRuns(element: Element, format: RunFormat, runs: TextRun[] = []): TextRun[] {
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = node.textContent || '';
+        if (text) runs.push({ text, ...format });
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const child = node as Element;
+      if (child.namespaceURI === TEXT_NS) {
+        switch (child.localName) {
+          case 's': {
+            const count = parseInt(child.getAttributeNS(TEXT_NS, 'c') || '1', 10);
+            runs.push({ text: ' '.repeat(Math.max(count, 1)), ...format });
+            continue;
+          }
+          case 'tab':
+            runs.push({ text: '\t', ...format });
+            continue;
+          case 'line-break':
+            runs.push({ text: '\n', ...format });
+            continue;
+          case 'note':
+          case 'bookmark':
+          case 'bookmark-start':
+          case 'bookmark-end':
+          case 'soft-page-break':
+            continue;
+          case 'span':
+            this.collectRuns(child, { ...format, ...this.styleOf(child) }, runs);
+            continue;
+        }
+      }
+      if (child.namespaceURI === OFFICE_NS && child.localName === 'annotation') {
+        continue;
+      }
+      // Links, fields and other inline wrappers contribute their text
+      this.collectRuns(child, format, runs);
+    }
+    return runs;
+  }
+
+  walk(element: Element, listDepth = 0): void {
+    for (const child of Array.from(element.children)) {
+      if (child.namespaceURI === TEXT_NS) {
+        switch (child.localName) {
+          case 'h': {
+            const level = parseInt(child.getAttributeNS(TEXT_NS, 'outline-level') || '1', 10);
+            this.blocks.push({ type: 'heading', level, runs: this.collectRuns(child, this.styleOf(child)) });
+            continue;
+          }
+          case 'p':
+            this.blocks.push({
+              type: 'paragraph',
+              runs: this.collectRuns(child, this.styleOf(child)),
+              listItem: listDepth > 0,
+            });
+            continue;
+          case 'list':
+            this.walk(child, listDepth + 1);
+            continue;
+          case 'list-item':
+          case 'list-header':
+          case 'section':
+            this.walk(child, listDepth);
+            continue;
+          case 'table-of-content':
+          case 'tracked-changes':
+            continue;
+        }
+      }
+      if (child.namespaceURI === TABLE_NS && child.localName === 'table') {
+        this.blocks.push({ type: 'table', rows: this.readTable(child) });
+        continue;
+      }
+      this.walk(child, listDepth);
+    }
+  }
+
+  private readTable(table: Element): TextRun[][][] {
+    const rows: TextRun[][][] = [];
+
+    for (const row of Array.from(table.getElementsByTagNameNS(TABLE_NS, 'table-row'))) {
+      // Skip rows that belong to a nested table
+      if (!isOwnRow(row, table)) continue;
+
+      const cells: TextRun[][] = [];
+      for (const cell of Array.from(row.children)) {
+        if (cell.namespaceURI !== TABLE_NS) continue;
+        if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') continue;
+
+        const inner = new OdtWalker(this.styles);
+        inner.walk(cell);
+        const runs = inner.blocks.flatMap((block, index) => {
+          const blockRuns = block.type === 'table' ? [] : block.runs;
+          return index > 0 ? [{ text: '\n' }, ...blockRuns] : blockRuns;
+        });
+
+        const repeat = parseInt(cell.getAttributeNS(TABLE_NS, 'number-columns-repeated') || '1', 10);
+        const copies = runs.length > 0 ? Math.min(repeat, MAX_REPEATED_CELLS) : 1;
+        for (let i = 0; i < copies; i++) {
+          cells.push(runs);
+        }
+      }
+
+      // Drop trailing empty cells (spreadsheet-style padding)
+      while (cells.length > 0 && cells[cells.length - 1].every(run => !run.text.trim())) {
+        cells.pop();
+      }
+      if (cells.length > 0) {
+        rows.push(cells);
+      }
+    }
+
+    return rows;
+  }
+}
+
+// True when the row's nearest enclosing table is the given table
+function isOwnRow(row: Element, table: Element): boolean {
+  let parent = row.parentElement;
+  while (parent) {
+    if (parent.namespaceURI === TABLE_NS && parent.localName === 'table') {
+      return parent === table;
+    }
+    parent = parent.parentElement;
+  }
+  return false;
+}
+
+// Parse an OpenDocument Text (.odt) file into plain text and an HTML rendition
+export async function extractOdt(content: ArrayBuffer): Promise<TextAndHtml> {
+  const zip = await JSZip.loadAsync(content);
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('Not a valid OpenDocument file: content.xml is missing');
+  }
+
+  const parser = new DOMParser();
+  const contentXml = parser.parseFromString(await contentFile.async('string'), 'application/xml');
+  if (contentXml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Failed to parse OpenDocument content.xml');
+  }
+
+  // Named styles live in styles.xml, automatic styles in content.xml
+  const stylesFile = zip.file('styles.xml');
+  const stylesXml = stylesFile
+    ? parser.parseFromString(await stylesFile.async('string'), 'application/xml')
+    : null;
+  const styles = readTextStyles(stylesXml ? [stylesXml, contentXml] : [contentXml]);
+
+  const body = contentXml.getElementsByTagNameNS(OFFICE_NS, 'text')[0];
+  if (!body) {
+    throw new Error('OpenDocument file has no text body');
+  }
+
+  const walker = new OdtWalker(styles);
+  walker.walk(body);
+  return renderBlocks(walker.blocks);
+}
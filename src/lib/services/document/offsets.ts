@@ -0,0 +1,99 @@
+// Locate passages of a document's rawText whose whitespace or layout differs from the original,
+// e.g. chunks joined from trimmed sentences or answers quoted by the model
+
+export interface TextRange {
+  start: number; // Character offset into rawText, inclusive
+  end: number; // Exclusive
+}
+
+// Snippets this long or shorter are matched whole; longer ones also by their ends
+const ANCHOR_LENGTH = 60;
+
+// Lower-case a character unless that changes its length, which would shift offsets
+const fold = (char: string) => {
+  const lower = char.toLowerCase();
+  return lower.length === char.length ? lower : char;
+};
+
+export class TextLocator {
+  private normalized: string;
+  private offsets: number[]; // Offset in the original text of every normalized character
+
+  constructor(text: string) {
+    let normalized = '';
+    const offsets: number[] = [];
+    let inSpace = false;
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) {
+        if (!inSpace && normalized.length > 0) {
+          normalized += ' ';
+          offsets.push(i);
+        }
+        inSpace = true;
+      } else {
+        normalized += fold(text[i]);
+        offsets.push(i);
+        inSpace = false;
+      }
+    }
+    this.normalized = normalized;
+    this.offsets = offsets;
+  }
+
+  // Range of a snippet, searching from an offset of the original text onwards (then from the start).
+  // Long snippets whose middle differs are found by their first and last words.
+  locate(snippet: string, from = 0): TextRange | null {
+    const needle = Array.from(snippet.replace(/\s+/g, ' ').trim(), fold).join('');
+    if (!needle) return null;
+
+    const fromIndex = this.normalizedIndex(from);
+    const exact = this.find(needle, fromIndex);
+    if (exact >= 0) {
+      return this.toRange(exact, exact + needle.length);
+    }
+    if (needle.length <= ANCHOR_LENGTH * 2) {
+      return null;
+    }
+
+    const head = this.find(needle.slice(0, ANCHOR_LENGTH), fromIndex);
+    if (head < 0) return null;
+    const tailNeedle = needle.slice(-ANCHOR_LENGTH);
+    const tail = this.normalized.indexOf(tailNeedle, head + ANCHOR_LENGTH);
+    // A tail far beyond the snippet's own length belongs to another passage
+    if (tail < 0 || tail + ANCHOR_LENGTH - head > needle.length * 2) return null;
+    return this.toRange(head, tail + ANCHOR_LENGTH);
+  }
+
+  // Range spanning two anchors, e.g. the first and last cell of table rows
+  locateBetween(first: string, last: string, from = 0): TextRange | null {
+    const start = this.locate(first, from);
+    if (!start) return null;
+    const end = this.locate(last, start.start);
+    return end ? { start: start.start, end: Math.max(end.end, start.end) } : start;
+  }
+
+  private find(needle: string, fromIndex: number): number {
+    const index = this.normalized.indexOf(needle, fromIndex);
+    return index >= 0 || fromIndex === 0 ? index : this.normalized.indexOf(needle);
+  }
+
+  private normalizedIndex(offset: number): number {
+    if (offset <= 0) return 0;
+    // Binary search for the first normalized character at or after the offset
+    let low = 0;
+    let high = this.offsets.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.offsets[middle] < offset) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  private toRange(startIndex: number, endIndex: number): TextRange {
+    return {
+      start: this.offsets[startIndex],
+      end: this.offsets[endIndex - 1] + 1,
+    };
+  }
+}
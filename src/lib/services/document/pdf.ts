@@ -0,0 +1,175 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { DocumentPage } from '@/lib/types';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// A positioned run of text on a page, in PDF user space (origin bottom-left)
+interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Items whose baselines are closer than this fraction of the line height share a line
+const LINE_TOLERANCE = 0.5;
+
+// Horizontal gap (as a fraction of the font height) that is treated as a word break
+const WORD_GAP = 0.15;
+
+// Horizontal gap (as a fraction of the font height) that separates table columns
+const COLUMN_GAP = 2;
+
+// Vertical gap (in line heights) that starts a new paragraph
+const PARAGRAPH_GAP = 1.8;
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return typeof (item as TextItem).str === 'string';
+}
+
+// Convert pdf.js text items into positioned runs, dropping empty ones
+function toPositionedText(items: Array<TextItem | TextMarkedContent>): PositionedText[] {
+  return items
+    .filter(isTextItem)
+    .filter(item => item.str.length > 0)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: Math.abs(item.height) || Math.abs(item.transform[3]) || 10,
+    }));
+}
+
+// Group runs into lines (top to bottom), each line ordered left to right
+function groupIntoLines(runs: PositionedText[]): PositionedText[][] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PositionedText[][] = [];
+
+  for (const run of sorted) {
+    const current = lines[lines.length - 1];
+    if (current) {
+      const reference = current[0];
+      const tolerance = Math.max(reference.height, run.height) * LINE_TOLERANCE;
+      if (Math.abs(reference.y - run.y) <= tolerance) {
+        current.push(run);
+        continue;
+      }
+    }
+    lines.push([run]);
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+// Join the runs of a single line, inserting spaces where there is a visible gap and tabs where
+// the gap is wide enough to separate table columns
+function lineToText(line: PositionedText[]): string {
+  let text = '';
+  let previous: PositionedText | null = null;
+
+  for (const run of line) {
+    let runText = run.text;
+    if (previous) {
+      const gap = run.x - (previous.x + previous.width);
+      if (gap > run.height * COLUMN_GAP && runText.trim()) {
+        text = text.replace(/ +$/, '') + '\t';
+        runText = runText.replace(/^ +/, '');
+      } else if (gap > run.height * WORD_GAP && !/[ \t]$/.test(text) && !runText.startsWith(' ')) {
+        text += ' ';
+      }
+    }
+    text += runText;
+    previous = run;
+  }
+
+  return text.replace(/\s+$/, '');
+}
+
+// Build the page text in reading order, separating paragraphs with blank lines
+function pageText(runs: PositionedText[]): string {
+  const lines = groupIntoLines(runs);
+  const parts: string[] = [];
+  let previousLine: PositionedText[] | null = null;
+
+  for (const line of lines) {
+    const text = lineToText(line);
+    if (!text.trim()) continue;
+
+    if (previousLine) {
+      const lineHeight = Math.max(previousLine[0].height, line[0].height);
+      const gap = previousLine[0].y - line[0].y;
+      parts.push(gap > lineHeight * PARAGRAPH_GAP ? '\n\n' : '\n');
+    }
+    parts.push(text);
+    previousLine = line;
+  }
+
+  return parts.join('');
+}
+
+// Extract the text layer of every page of a PDF, keeping page numbers
+export async function extractPdfPages(content: ArrayBuffer): Promise<DocumentPage[]> {
+  // pdf.js transfers the buffer to its worker, so hand it a copy
+  const data = new Uint8Array(content.slice(0));
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  try {
+    const pages: DocumentPage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      pages.push({
+        pageNumber,
+        text: pageText(toPositionedText(textContent.items)),
+      });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Join page texts into a single document text
+export function pagesToText(pages: DocumentPage[]): string {
+  return pages
+    .map(page => page.text.trim())
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+// Render the given pages to canvases one at a time (used to OCR pages without a text layer)
+export async function renderPdfPages(
+  content: ArrayBuffer,
+  pageNumbers: number[],
+  onPage: (pageNumber: number, canvas: HTMLCanvasElement) => Promise<void>,
+  scale: number = 2
+): Promise<void> {
+  const data = new Uint8Array(content.slice(0));
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = window.document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      await onPage(pageNumber, canvas);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,6 +1,7 @@
 import { openaiService } from '@/lib/openai';
 import { QuestionCategory, Stakeholder } from '@/lib/services/question/types';
 import { Document, ProcessingStatus } from '@/lib/types';
+import { detectQuestionColumns, extractQuestionsFromSheets, QuestionColumnMapping } from './spreadsheet';
 
 // Debug utility to log question parsing details
 function debugQuestionParsing(question: any, index: number) {
@@ -15,8 +16,9 @@ function debugQuestionParsing(question: any, index: number) {
   });
 }
 
-// Interface for parsed questions from OpenAI
+// Interface for parsed questions from OpenAI or a question-list spreadsheet
 export interface ParsedQuestion {
+  number?: string; // Reference number from a spreadsheet request list
   content: string;
   category: QuestionCategory;
   stakeholder: Stakeholder;
@@ -87,6 +89,44 @@ export class DocumentProcessor {
     }
   }
 
+  // Read questions straight from a request-list spreadsheet, one per row, without OpenAI
+  processSpreadsheet(document: Document, mapping?: QuestionColumnMapping): {
+    success: boolean;
+    questions?: ParsedQuestion[];
+    error?: string;
+  } {
+    if (!document.sheets || document.sheets.length === 0) {
+      return {
+        success: false,
+        error: 'Spreadsheet has no rows to process'
+      };
+    }
+
+    const columnMapping = mapping || detectQuestionColumns(document.sheets);
+    if (!columnMapping) {
+      return {
+        success: false,
+        error: 'No question column found. Add a header such as "Question" or "Request" above the questions.'
+      };
+    }
+
+    try {
+      const questions = extractQuestionsFromSheets(document.sheets, columnMapping);
+      if (questions.length === 0) {
+        return {
+          success: false,
+          error: `No questions found in column ${columnMapping.question} of sheet "${columnMapping.sheetName}"`
+        };
+      }
+      return { success: true, questions };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred during processing'
+      };
+    }
+  }
+
   private createSystemPrompt(): string {
     return `You are an expert at analyzing business documents and extracting relevant questions that stakeholders might have.
 
@@ -22,6 +22,7 @@ export class QuestionIntegrationService {
     for (const parsedQuestion of parsedQuestions) {
       try {
         await questionService.createQuestion({
+          number: parsedQuestion.number,
           content: parsedQuestion.content,
           category: parsedQuestion.category,
           stakeholder: parsedQuestion.stakeholder,
@@ -0,0 +1,298 @@
+// Word-level redline between two versions of a document, rendered as HTML with <ins>/<del>
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffOperation;
+  tokens: string[];
+}
+
+export interface RedlineResult {
+  html: string;
+  insertions: number; // Inserted words
+  deletions: number; // Deleted words
+}
+
+// Edit budget for a single Myers pass; larger differences are diffed block by block instead
+const MAX_EDIT_DISTANCE = 2000;
+
+// Block-level closing tags that end a paragraph in mammoth's HTML
+const BLOCK_END_PATTERN = /^<\/(p|li|tr|h[1-6]|table|ul|ol|blockquote)>$/i;
+
+// Punctuation that ends a sentence or clause
+const PHRASE_END_PATTERN = /^[.!?;:,]$/;
+
+// Elements without a closing tag
+const VOID_TAG_PATTERN = /^<(br|img|hr)\b/i;
+
+const isTag = (token: string) => token.startsWith('<');
+const isWhitespace = (token: string) => /^\s+$/.test(token);
+
+// Boundaries a large difference is split at, coarsest first: paragraphs, then sentences and clauses,
+// so a long paragraph without line breaks is still diffed word by word
+const SPLIT_LEVELS: ((token: string, previous: string | undefined) => boolean)[] = [
+  token => BLOCK_END_PATTERN.test(token) || (isWhitespace(token) && token.includes('\n')),
+  (token, previous) => isWhitespace(token) && previous !== undefined && PHRASE_END_PATTERN.test(previous),
+];
+
+function tokenizeText(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || [];
+}
+
+function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]+>|\s+|&[#\w]+;|[\p{L}\p{N}]+|[^<\s\p{L}\p{N}]/gu) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffOperation, tokens: string[]) {
+  if (tokens.length === 0) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.tokens.push(...tokens);
+  } else {
+    parts.push({ type, tokens: [...tokens] });
+  }
+}
+
+// Myers' O(ND) shortest edit script. Returns null when the sequences differ by more than maxEdits.
+function myersDiff(a: string[], b: string[], maxEdits: number): DiffPart[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Keep only the diagonals reachable at this depth
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], depth: number): DiffPart[] {
+  const reversed: { type: DiffOperation; token: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    // trace[d] holds diagonals -d-1 .. d+1 as they were before step d
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      reversed.push({ type: 'insert', token: b[--y] });
+    } else {
+      reversed.push({ type: 'delete', token: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    reversed.push({ type: 'equal', token: a[--x] });
+    y--;
+  }
+
+  const parts: DiffPart[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushPart(parts, reversed[i].type, [reversed[i].token]);
+  }
+  return parts;
+}
+
+// Split tokens at the boundaries of a split level so large differences can be diffed block by block
+function splitBlocks(tokens: string[], isBoundary: (typeof SPLIT_LEVELS)[number]): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  tokens.forEach((token, index) => {
+    current.push(token);
+    if (isBoundary(token, tokens[index - 1])) {
+      blocks.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+}
+
+// Align the blocks of one split level, then diff replaced blocks at the next level down.
+// Returns null when the blocks themselves differ too much to align.
+function diffBlocks(a: string[], b: string[], level: number): DiffPart[] | null {
+  const blocksA = splitBlocks(a, SPLIT_LEVELS[level]);
+  const blocksB = splitBlocks(b, SPLIT_LEVELS[level]);
+  const blockDiff = myersDiff(blocksA.map(block => block.join('')), blocksB.map(block => block.join('')), MAX_EDIT_DISTANCE);
+  if (!blockDiff) return null;
+
+  const parts: DiffPart[] = [];
+  let indexA = 0;
+  let indexB = 0;
+  const takeA = (count: number) => blocksA.slice(indexA, (indexA += count)).flat();
+  const takeB = (count: number) => blocksB.slice(indexB, (indexB += count)).flat();
+
+  for (let i = 0; i < blockDiff.length; i++) {
+    const part = blockDiff[i];
+    if (part.type === 'equal') {
+      pushPart(parts, 'equal', takeA(part.tokens.length));
+      indexB += part.tokens.length;
+    } else if (part.type === 'delete' && blockDiff[i + 1]?.type === 'insert') {
+      // Replaced blocks: show the word-level changes inside them, block by block when they pair up
+      const deletedCount = part.tokens.length;
+      const insertedCount = blockDiff[++i].tokens.length;
+      const pairs = deletedCount === insertedCount
+        ? Array.from({ length: deletedCount }, () => [takeA(1), takeB(1)])
+        : [[takeA(deletedCount), takeB(insertedCount)]];
+      pairs.forEach(([deleted, inserted]) => {
+        diffTokens(deleted, inserted, level + 1).forEach(sub => pushPart(parts, sub.type, sub.tokens));
+      });
+    } else if (part.type === 'delete') {
+      pushPart(parts, 'delete', takeA(part.tokens.length));
+    } else {
+      pushPart(parts, 'insert', takeB(part.tokens.length));
+    }
+  }
+  return parts;
+}
+
+function diffTokens(a: string[], b: string[], level = 0): DiffPart[] {
+  // Common prefix and suffix are cheap to strip and keep the edit script small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, prefix));
+
+  // Too many changes for one pass: align blocks, finer ones at each level, and diff changed blocks word by word
+  let middle = myersDiff(middleA, middleB, MAX_EDIT_DISTANCE);
+  for (let split = level; !middle && split < SPLIT_LEVELS.length; split++) {
+    middle = diffBlocks(middleA, middleB, split);
+  }
+  if (middle) {
+    middle.forEach(part => pushPart(parts, part.type, part.tokens));
+  } else {
+    pushPart(parts, 'delete', middleA);
+    pushPart(parts, 'insert', middleB);
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix));
+  return parts;
+}
+
+const countWords = (tokens: string[]) => tokens.filter(token => /[\p{L}\p{N}]/u.test(token) && !isTag(token)).length;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Element name of an opening or closing tag; null for void, self-closing and other markup
+function parseTag(token: string): { name: string; closing: boolean } | null {
+  const match = /^<(\/?)([a-z0-9]+)/i.exec(token);
+  if (!match || token.endsWith('/>') || VOID_TAG_PATTERN.test(token)) return null;
+  return { name: match[2].toLowerCase(), closing: !!match[1] };
+}
+
+// Track the elements open in the rendered HTML
+function applyTag(open: string[], token: string) {
+  const tag = parseTag(token);
+  if (!tag) return;
+  if (!tag.closing) open.push(tag.name);
+  else if (open[open.length - 1] === tag.name) open.pop();
+}
+
+// Whether the markup of a deleted run can be rendered without changing the elements left open,
+// e.g. a whole removed paragraph or the end of one paragraph and the start of the next
+function keepsStructure(tokens: string[], open: string[]): boolean {
+  const stack = [...open];
+  for (const token of tokens.filter(isTag)) {
+    const tag = parseTag(token);
+    if (!tag) continue;
+    if (!tag.closing) stack.push(tag.name);
+    else if (stack.pop() !== tag.name) return false;
+  }
+  return stack.length === open.length && stack.every((name, index) => name === open[index]);
+}
+
+// Render diff parts, wrapping changed text between tags in <ins>/<del>. Markup of inserted text is
+// kept; markup of deleted text when it keeps the new version's structure, so removed paragraphs stay
+// in their own element instead of running into the surrounding text.
+function renderParts(parts: DiffPart[], markup: boolean): RedlineResult {
+  const escape = markup ? (token: string) => token : escapeHtml;
+  const open: string[] = [];
+  let html = '';
+  let insertions = 0;
+  let deletions = 0;
+
+  for (const part of parts) {
+    if (part.type === 'equal') {
+      html += part.tokens.map(escape).join('');
+      if (markup) part.tokens.filter(isTag).forEach(token => applyTag(open, token));
+      continue;
+    }
+
+    const tag = part.type === 'insert' ? 'ins' : 'del';
+    const words = countWords(part.tokens);
+    if (part.type === 'insert') insertions += words;
+    else deletions += words;
+
+    // Markup of a deletion without words (e.g. two paragraphs merged) follows the new version
+    const keepTags = part.type === 'insert' || (words > 0 && keepsStructure(part.tokens, open));
+    let run = '';
+    const flush = () => {
+      if (run.trim()) html += `<${tag}>${run}</${tag}>`;
+      else html += run;
+      run = '';
+    };
+    for (const token of part.tokens) {
+      if (markup && isTag(token)) {
+        flush();
+        if (keepTags) {
+          html += token;
+          applyTag(open, token);
+        } else if (words > 0 && BLOCK_END_PATTERN.test(token)) {
+          // Keep dropped paragraphs apart
+          html += ' ';
+        }
+      } else {
+        run += escape(token);
+      }
+    }
+    flush();
+  }
+
+  return { html, insertions, deletions };
+}
+
+// Redline of two plain texts; the result is escaped HTML meant for a white-space: pre-wrap container
+export function redlineText(oldText: string, newText: string): RedlineResult {
+  return renderParts(diffTokens(tokenizeText(oldText), tokenizeText(newText)), false);
+}
+
+// Redline of two HTML renditions (e.g. mammoth output), keeping the new version's formatting
+export function redlineHtml(oldHtml: string, newHtml: string): RedlineResult {
+  return renderParts(diffTokens(tokenizeHtml(oldHtml), tokenizeHtml(newHtml)), true);
+}
@@ -0,0 +1,308 @@
+import { renderBlocks, TextAndHtml, TextBlock, TextRun } from './blocks';
+
+// Destination groups whose content is not part of the document body
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr',
+  'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'fldinst', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'filetbl', 'revtbl', 'pgdsctbl', 'mmathPr', 'bkmkstart', 'bkmkend',
+]);
+
+// Control words that stand for a single character
+const CHARACTER_WORDS: Record<string, string> = {
+  line: '\n',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+interface GroupState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+// Collects formatted runs into paragraphs and tables as the parser walks the file
+class RtfBuilder {
+  blocks: TextBlock[] = [];
+  private runs: TextRun[] = [];
+  private cells: TextRun[][] = [];
+  private rows: TextRun[][][] = [];
+  inTable = false;
+
+  addText(text: string, state: GroupState): void {
+    const previous = this.runs[this.runs.length - 1];
+    if (previous && previous.bold === state.bold && previous.italic === state.italic && previous.underline === state.underline) {
+      previous.text += text;
+    } else {
+      this.runs.push({ text, bold: state.bold, italic: state.italic, underline: state.underline });
+    }
+  }
+
+  endParagraph(state: GroupState): void {
+    if (this.inTable) {
+      // Paragraph breaks inside a cell become line breaks within that cell
+      this.addText('\n', state);
+      return;
+    }
+    this.flushTable();
+    this.blocks.push({ type: 'paragraph', runs: this.runs });
+    this.runs = [];
+  }
+
+  endCell(): void {
+    this.cells.push(trimRuns(this.runs));
+    this.runs = [];
+  }
+
+  endRow(): void {
+    if (this.cells.length > 0) {
+      this.rows.push(this.cells);
+    }
+    this.cells = [];
+  }
+
+  finish(): TextBlock[] {
+    if (this.runs.length > 0) {
+      if (this.inTable) {
+        this.endCell();
+        this.endRow();
+      } else {
+        this.flushTable();
+        this.blocks.push({ type: 'paragraph', runs: this.runs });
+      }
+      this.runs = [];
+    }
+    this.flushTable();
+    return this.blocks;
+  }
+
+  private flushTable(): void {
+    if (this.cells.length > 0) {
+      this.endRow();
+    }
+    if (this.rows.length > 0) {
+      this.blocks.push({ type: 'table', rows: this.rows });
+      this.rows = [];
+    }
+  }
+}
+
+function trimRuns(runs: TextRun[]): TextRun[] {
+  const trimmed = runs.map(run => ({ ...run }));
+  if (trimmed.length > 0) {
+    trimmed[0].text = trimmed[0].text.replace(/^\s+/, '');
+    trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.replace(/\s+$/, '');
+  }
+  return trimmed.filter(run => run.text.length > 0);
+}
+
+function createDecoder(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(codePage === 65001 ? 'utf-8' : `windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+// Parse an RTF file into plain text and an HTML rendition
+export function extractRtf(content: ArrayBuffer): TextAndHtml {
+  // RTF is 7-bit ASCII; anything else arrives as \'hh escapes or \u control words
+  const source = new TextDecoder('latin1').decode(content);
+  if (!source.startsWith('{\\rtf')) {
+    throw new Error('Not a valid RTF file');
+  }
+
+  const builder = new RtfBuilder();
+  const stack: GroupState[] = [];
+  let state: GroupState = { bold: false, italic: false, underline: false, skip: false, unicodeSkip: 1 };
+  let decoder = createDecoder(1252);
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      if (!state.skip) {
+        builder.addText(decoder.decode(new Uint8Array(pendingBytes)), state);
+      }
+      pendingBytes = [];
+    }
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) {
+      builder.addText(text, state);
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      fallbackToSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      fallbackToSkip = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else {
+        emit(char);
+      }
+      i++;
+      continue;
+    }
+
+    // Control symbol or control word
+    const next = source[i + 1];
+
+    if (next === "'") {
+      const byte = parseInt(source.substr(i + 2, 2), 16);
+      i += 4;
+      if (fallbackToSkip > 0) {
+        fallbackToSkip--;
+      } else if (!Number.isNaN(byte)) {
+        pendingBytes.push(byte);
+      }
+      continue;
+    }
+
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+
+    if (next === '*') {
+      // Ignorable destination we do not understand
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+
+    if (next === '_') {
+      emit('-');
+      i += 2;
+      continue;
+    }
+
+    if (next === '\r' || next === '\n') {
+      // Escaped newline is an alias for \par
+      flushBytes();
+      if (!state.skip) builder.endParagraph(state);
+      i += 2;
+      continue;
+    }
+
+    const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(i + 1, i + 40));
+    if (!match) {
+      // Other control symbols (e.g. \- optional hyphen, \| formula) carry no text
+      i += 2;
+      continue;
+    }
+
+    i += 1 + match[0].length;
+    const word = match[1];
+    const param = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+
+    if (word === 'u' && param !== undefined) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      fallbackToSkip = state.unicodeSkip;
+      continue;
+    }
+
+    flushBytes();
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    if (word in CHARACTER_WORDS) {
+      emit(CHARACTER_WORDS[word]);
+      continue;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param) decoder = createDecoder(param);
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'par':
+      case 'sect':
+      case 'page':
+        if (!state.skip) builder.endParagraph(state);
+        break;
+      case 'pard':
+        builder.inTable = false;
+        break;
+      case 'intbl':
+        builder.inTable = true;
+        break;
+      case 'cell':
+      case 'nestcell':
+        if (!state.skip) builder.endCell();
+        break;
+      case 'row':
+      case 'nestrow':
+        if (!state.skip) builder.endRow();
+        break;
+      case 'b':
+        state.bold = param !== 0;
+        break;
+      case 'i':
+        state.italic = param !== 0;
+        break;
+      case 'ul':
+        state.underline = param !== 0;
+        break;
+      case 'ulnone':
+        state.underline = false;
+        break;
+      case 'plain':
+        state.bold = false;
+        state.italic = false;
+        state.underline = false;
+        break;
+    }
+  }
+
+  flushBytes();
+  return renderBlocks(builder.finish());
+}
@@ -1,38 +1,180 @@
-import { Document, ProcessingStatus } from '@/lib/types';
-import { LocalStorageService } from '@/lib/storage';
+import { Document, DocumentFolder, DocumentPage, DocumentSheet, ProcessingStatus } from '@/lib/types';
+import { createStorageService, StorageService } from '@/lib/storage';
+import { computeIndexNumbers, folderService } from '@/lib/services/folder';
+import { projectService } from '@/lib/services/project/service';
 import { documentProcessor, ParsedQuestion } from './processor';
+import { extractPdfPages, pagesToText } from './pdf';
+import { ocrService, OCR_IMAGE_EXTENSIONS } from './ocr';
+import { extractRtf } from './rtf';
+import { extractOdt } from './odt';
+import { extractDoc } from './doc';
+import { ArchiveFolder, unpackArchive } from './archive';
+import { extractSpreadsheet, QuestionColumnMapping, SPREADSHEET_EXTENSIONS } from './spreadsheet';
+import { redlineHtml, redlineText, RedlineResult } from './redline';
+import { DuplicateMatch, DuplicateResolution, DuplicateResolver, findDuplicate, hashContent, textSignature } from './duplicates';
 import * as mammoth from 'mammoth';
 
+// Text extracted from an uploaded file
+export interface ExtractedContent {
+  rawText: string;
+  pages?: DocumentPage[];
+  sheets?: DocumentSheet[];
+}
+
+// Position an index number gives within its folder, e.g. "3.2.4" -> 4
+function lastIndexSegment(indexNumber?: string): number | undefined {
+  return indexNumber ? parseInt(indexNumber.split('.').pop()!, 10) : undefined;
+}
+
+// Where an uploaded file sits in a data room
+export type DocumentLocation = Pick<Document, 'folderId' | 'folderPath' | 'position'>;
+
+// Versions replaced by a newer upload stay stored for the history but are hidden everywhere else
+export function isCurrentVersion(document: Document): boolean {
+  return !document.supersededById;
+}
+
+type DocumentResult<T> = { success: boolean; data?: T; error?: string };
+
+// File content ready to be stored as a document
+interface PreparedFile extends ExtractedContent {
+  content: string;
+  contentHash: string;
+  textSignature: number[];
+}
+
+type ResolvedDuplicate = DuplicateMatch & { resolution: DuplicateResolution };
+
+// On a skipped duplicate, data is the existing document
+export type UploadResult = DocumentResult<Document> & { duplicate?: ResolvedDuplicate };
+
+// Document.documentType of each supported extension
+const DOCUMENT_TYPE_BY_EXTENSION: Record<string, string> = {
+  'pdf': 'PDF',
+  'doc': 'Word Document',
+  'docx': 'Word Document',
+  'txt': 'Text File',
+  'rtf': 'Rich Text',
+  'odt': 'OpenDocument Text',
+  'xlsx': 'Spreadsheet',
+  'xls': 'Spreadsheet',
+  'csv': 'CSV',
+  'pages': 'Pages Document',
+  'png': 'Image',
+  'jpg': 'Image',
+  'jpeg': 'Image',
+  'tif': 'Image',
+  'tiff': 'Image',
+};
+
+export const DOCUMENT_TYPES = Array.from(new Set(Object.values(DOCUMENT_TYPE_BY_EXTENSION)));
+
 // Document service for handling Document operations
 export class DocumentService {
-  private storage: LocalStorageService<Document>;
+  private storage: StorageService<Document>;
 
   constructor() {
-    this.storage = new LocalStorageService<Document>('question-documents');
+    this.storage = createStorageService<Document>('question-documents');
   }
 
-  // Upload and create a new document
+  // Upload and create a new document, appended to its folder unless a position is given. With a
+  // resolver, an upload that duplicates a current document of the project is skipped, stored as a
+  // new version of that document (replace) or kept as a separate document, as the resolver decides.
   async uploadDocument(
     file: File,
     userId: string,
-    projectId: string
-  ): Promise<{ success: boolean; data?: Document; error?: string }> {
+    projectId: string,
+    location: DocumentLocation = {},
+    resolveDuplicate?: DuplicateResolver
+  ): Promise<UploadResult> {
+    const archived = await projectService.writableError(projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    let prepared: PreparedFile;
     try {
-      // Read file content as ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Convert ArrayBuffer to base64 string for localStorage compatibility
-      const content = this.arrayBufferToBase64(arrayBuffer);
-      
-      // For now, we'll extract text from the filename (in a real app, you'd use a library like pdf-parse)
-      // This is a placeholder - you'll need to implement proper text extraction based on file type
-      const rawText = await this.extractTextFromFile(file, arrayBuffer);
+      prepared = await this.prepareFile(file);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+    }
+
+    const duplicate = resolveDuplicate ? await this.resolveDuplicate(file, projectId, prepared, resolveDuplicate) : undefined;
+    if (duplicate?.resolution === 'skip') {
+      return { success: true, data: duplicate.document, duplicate };
+    }
+    if (duplicate?.resolution === 'replace') {
+      return { ...await this.createVersion(duplicate.document, file, userId, prepared), duplicate };
+    }
+
+    const result = await this.createDocument(file, prepared, userId, projectId, location);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    await this.renumberProject(projectId);
+    return { success: true, data: (await this.getDocumentById(result.data.id)) || result.data, duplicate };
+  }
+
+  // Read, hash and extract a file once, before duplicate checks and storage
+  private async prepareFile(file: File): Promise<PreparedFile> {
+    const arrayBuffer = await file.arrayBuffer();
+    const contentHash = await hashContent(arrayBuffer);
+
+    // Convert ArrayBuffer to base64 string for localStorage compatibility
+    const content = this.arrayBufferToBase64(arrayBuffer);
+
+    // Extract the text (and page layout for paginated formats) based on file type
+    const extracted = await this.extractTextFromFile(file, arrayBuffer);
+
+    return { ...extracted, content, contentHash, textSignature: textSignature(extracted.rawText) };
+  }
+
+  // Look for a current document the upload duplicates and ask the resolver what to do with it
+  private async resolveDuplicate(
+    file: File,
+    projectId: string,
+    prepared: PreparedFile,
+    resolveDuplicate: DuplicateResolver
+  ): Promise<ResolvedDuplicate | undefined> {
+    const documents = await this.getCurrentDocumentsByProject(projectId);
+    const match = findDuplicate(documents, prepared.contentHash, prepared.textSignature);
+    if (!match) {
+      return undefined;
+    }
+    return { ...match, resolution: await resolveDuplicate(file, match) };
+  }
+
+  private async createDocument(
+    file: File,
+    prepared: PreparedFile,
+    userId: string,
+    projectId: string,
+    location: DocumentLocation & Pick<Document, 'category' | 'versionGroupId' | 'versionNumber'>
+  ): Promise<DocumentResult<Document>> {
+    try {
+      const folderId = location.folderId || null;
+      const position = location.position ?? await folderService.getNextPosition(
+        projectId,
+        folderId,
+        await this.getDocumentsByProject(projectId)
+      );
 
       const document: Omit<Document, 'id' | 'createdAt' | 'updatedAt'> = {
         fileName: file.name,
         documentType: this.getDocumentType(file.name),
-        content,
-        rawText,
+        content: prepared.content,
+        rawText: prepared.rawText,
+        pages: prepared.pages,
+        sheets: prepared.sheets,
+        folderId,
+        folderPath: location.folderPath || undefined,
+        position,
+        category: location.category,
+        versionGroupId: location.versionGroupId,
+        versionNumber: location.versionNumber ?? 1,
+        contentHash: prepared.contentHash,
+        textSignature: prepared.textSignature,
         userId,
         projectId,
         processingStatus: 'not_started' as ProcessingStatus,
@@ -53,6 +195,360 @@ export class DocumentService {
     }
   }
 
+  // Upload a new version of a document. The new version takes over the document's place (and so
+  // its index number); the previous version is kept in the history but no longer searched.
+  async uploadNewVersion(
+    documentId: string,
+    file: File,
+    userId: string
+  ): Promise<DocumentResult<Document>> {
+    const previous = await this.getDocumentById(documentId);
+    if (!previous) {
+      return { success: false, error: 'Document not found' };
+    }
+    const archived = await projectService.writableError(previous.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    try {
+      return await this.createVersion(previous, file, userId, await this.prepareFile(file));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+    }
+  }
+
+  private async createVersion(
+    previous: Document,
+    file: File,
+    userId: string,
+    prepared: PreparedFile
+  ): Promise<DocumentResult<Document>> {
+    if (!isCurrentVersion(previous)) {
+      return { success: false, error: 'Only the current version of a document can be replaced' };
+    }
+
+    const versionGroupId = previous.versionGroupId || previous.id;
+    const result = await this.createDocument(file, prepared, userId, previous.projectId, {
+      folderId: previous.folderId,
+      folderPath: previous.folderPath,
+      position: previous.position,
+      category: previous.category,
+      versionGroupId,
+      versionNumber: (previous.versionNumber || 1) + 1,
+    });
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const updated = await this.storage.update(previous.id, { versionGroupId, supersededById: result.data.id });
+    if (!updated.success) {
+      await this.storage.delete(result.data.id);
+      return { success: false, error: updated.error?.message || 'Failed to update previous version' };
+    }
+
+    await this.renumberProject(previous.projectId);
+    return { success: true, data: (await this.getDocumentById(result.data.id)) || result.data };
+  }
+
+  // All versions of a document, newest first
+  async getVersions(documentId: string): Promise<Document[]> {
+    const document = await this.getDocumentById(documentId);
+    if (!document) {
+      return [];
+    }
+
+    const versionGroupId = document.versionGroupId || document.id;
+    const documents = await this.getDocumentsByProject(document.projectId);
+    return documents
+      .filter(doc => doc.id === versionGroupId || doc.versionGroupId === versionGroupId)
+      .sort((a, b) => (b.versionNumber || 1) - (a.versionNumber || 1));
+  }
+
+  // Upload every file of a ZIP data room as its own document. The archive's folders become
+  // project folders, and numbered names keep their place in the index. Duplicates are resolved
+  // per file as in uploadDocument; skipped files are listed in `skipped`.
+  async uploadArchive(
+    file: File,
+    userId: string,
+    projectId: string,
+    resolveDuplicate?: DuplicateResolver
+  ): Promise<{ success: boolean; data?: Document[]; error?: string; errors?: string[]; skipped?: string[] }> {
+    const archived = await projectService.writableError(projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    try {
+      const entries = await unpackArchive(file);
+      if (entries.length === 0) {
+        return { success: false, error: `${file.name} contains no documents` };
+      }
+
+      const documentIds: string[] = [];
+      const errors: string[] = [];
+      const skipped: string[] = [];
+      for (const entry of entries) {
+        const path = entry.folderPath ? `${entry.folderPath}/${entry.file.name}` : entry.file.name;
+        let result: DocumentResult<Document>;
+        try {
+          const prepared = await this.prepareFile(entry.file);
+          // Earlier files of the same archive count as existing documents
+          const duplicate = resolveDuplicate
+            ? await this.resolveDuplicate(entry.file, projectId, prepared, resolveDuplicate)
+            : undefined;
+
+          if (duplicate?.resolution === 'skip') {
+            skipped.push(path);
+            continue;
+          } else if (duplicate?.resolution === 'replace') {
+            result = await this.createVersion(duplicate.document, entry.file, userId, prepared);
+          } else {
+            const folderId = await this.ensureArchiveFolders(projectId, entry.folders);
+            result = await this.createDocument(entry.file, prepared, userId, projectId, {
+              folderId,
+              folderPath: entry.folderPath,
+              position: lastIndexSegment(entry.indexNumber),
+            });
+          }
+        } catch (error) {
+          result = { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+        }
+
+        if (result.success && result.data) {
+          documentIds.push(result.data.id);
+        } else {
+          errors.push(`${path}: ${result.error || 'Failed to save document'}`);
+        }
+      }
+
+      // Number the whole data room once every file is in place
+      await this.renumberProject(projectId);
+      const projectDocuments = await this.getDocumentsByProject(projectId);
+      const documents = documentIds
+        .map(id => projectDocuments.find(doc => doc.id === id))
+        .filter((doc): doc is Document => !!doc);
+
+      return {
+        success: documents.length > 0 || (skipped.length > 0 && errors.length === 0),
+        data: documents,
+        error: documents.length === 0 ? errors[0] : undefined,
+        errors,
+        skipped,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Create (or reuse) the folder chain of an archive entry and return the innermost folder id
+  private async ensureArchiveFolders(projectId: string, folders: ArchiveFolder[]): Promise<string | null> {
+    let parentId: string | null = null;
+    for (const folder of folders) {
+      const result = await folderService.ensureFolder(
+        projectId,
+        folder.name,
+        parentId,
+        lastIndexSegment(folder.indexNumber)
+      );
+      if (!result.success || !result.data) {
+        throw new Error(result.error || `Failed to create folder ${folder.name}`);
+      }
+      parentId = result.data.id;
+    }
+    return parentId;
+  }
+
+  // Recompute index numbers (1, 1.1, 1.1.2) and folder paths for every folder and document of a project
+  async renumberProject(projectId: string): Promise<void> {
+    const [folders, documents] = await Promise.all([
+      folderService.getFoldersByProject(projectId),
+      this.getCurrentDocumentsByProject(projectId),
+    ]);
+    const numbers = computeIndexNumbers(folders, documents);
+
+    await folderService.applyIndexNumbers(projectId, numbers);
+
+    const pathOf = (folderId?: string | null): string | undefined => {
+      const folder = folderId ? folders.find(f => f.id === folderId) : undefined;
+      if (!folder) return undefined;
+      const parentPath = pathOf(folder.parentId);
+      return parentPath ? `${parentPath}/${folder.name}` : folder.name;
+    };
+
+    const updates = documents
+      .map(doc => ({
+        doc,
+        changes: {
+          indexNumber: numbers.get(doc.id),
+          // Documents from before folders existed keep their archive path
+          folderPath: doc.folderId ? pathOf(doc.folderId) : doc.folderPath,
+        },
+      }))
+      .filter(({ doc, changes }) => changes.indexNumber !== doc.indexNumber || changes.folderPath !== doc.folderPath)
+      .map(({ doc, changes }) => ({ id: doc.id, changes }));
+    if (updates.length > 0) {
+      await this.storage.updateMany(updates);
+    }
+  }
+
+  // Move a document into a folder (null for the top level), appending it after existing items
+  async moveDocument(id: string, folderId: string | null): Promise<DocumentResult<Document>> {
+    const document = await this.getDocumentById(id);
+    if (!document) {
+      return { success: false, error: 'Document not found' };
+    }
+    const archived = await projectService.writableError(document.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+    if (folderId && !await folderService.getFolderById(folderId)) {
+      return { success: false, error: 'Folder not found' };
+    }
+
+    // Earlier versions move along so the history stays with the document
+    const versions = await this.getVersions(id);
+    const versionIds = new Set(versions.map(version => version.id));
+    const documents = await this.getDocumentsByProject(document.projectId);
+    const position = await folderService.getNextPosition(
+      document.projectId,
+      folderId,
+      documents.filter(doc => !versionIds.has(doc.id))
+    );
+    const result = await this.storage.updateMany(
+      versions.map(version => ({ id: version.id, changes: { folderId, folderPath: undefined, position } }))
+    );
+    if (!result.success) {
+      return { success: false, error: result.error?.message || 'Failed to move document' };
+    }
+
+    await this.renumberProject(document.projectId);
+    return { success: true, data: (await this.getDocumentById(id)) || undefined };
+  }
+
+  // Rename a document, keeping its extension when the new name leaves it out
+  async renameDocument(id: string, fileName: string): Promise<DocumentResult<Document>> {
+    const document = await this.getDocumentById(id);
+    if (!document) {
+      return { success: false, error: 'Document not found' };
+    }
+    const archived = await projectService.writableError(document.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    let name = fileName.trim();
+    if (!name) {
+      return { success: false, error: 'File name is required' };
+    }
+    const extension = document.fileName.includes('.') ? document.fileName.split('.').pop() : undefined;
+    if (extension && !name.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) {
+      name = `${name}.${extension}`;
+    }
+
+    const result = await this.storage.update(id, { fileName: name });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to rename document' };
+  }
+
+  // Set the category of a document and its earlier versions; undefined clears it
+  async setCategory(id: string, category: string | undefined): Promise<DocumentResult<Document>> {
+    const versions = await this.getVersions(id);
+    if (versions.length === 0) {
+      return { success: false, error: 'Document not found' };
+    }
+    const archived = await projectService.writableError(versions[0].projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const result = await this.storage.updateMany(versions.map(version => ({ id: version.id, changes: { category } })));
+    return result.success
+      ? { success: true, data: (await this.getDocumentById(id)) || undefined }
+      : { success: false, error: result.error?.message || 'Failed to update category' };
+  }
+
+  // Create a folder after the existing folders and documents of its parent
+  async createFolder(projectId: string, name: string, parentId: string | null = null): Promise<DocumentResult<DocumentFolder>> {
+    const archived = await projectService.writableError(projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const position = await folderService.getNextPosition(projectId, parentId, await this.getDocumentsByProject(projectId));
+    const result = await folderService.createFolder(projectId, name, parentId, position);
+    if (result.success) {
+      await this.renumberProject(projectId);
+    }
+    return result;
+  }
+
+  // Rename a folder; the paths of the documents inside follow
+  async renameFolder(id: string, name: string): Promise<DocumentResult<DocumentFolder>> {
+    const folder = await folderService.getFolderById(id);
+    if (!folder) {
+      return { success: false, error: 'Folder not found' };
+    }
+    const archived = await projectService.writableError(folder.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const result = await folderService.renameFolder(id, name);
+    if (result.success && result.data) {
+      await this.renumberProject(result.data.projectId);
+    }
+    return result;
+  }
+
+  // Move a folder (with its contents) under a new parent
+  async moveFolder(id: string, parentId: string | null): Promise<DocumentResult<DocumentFolder>> {
+    const folder = await folderService.getFolderById(id);
+    if (!folder) {
+      return { success: false, error: 'Folder not found' };
+    }
+    const archived = await projectService.writableError(folder.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const result = await folderService.moveFolder(id, parentId, await this.getDocumentsByProject(folder.projectId));
+    if (result.success) {
+      await this.renumberProject(folder.projectId);
+    }
+    return result;
+  }
+
+  // Delete an empty folder
+  async deleteFolder(id: string): Promise<DocumentResult<void>> {
+    const folder = await folderService.getFolderById(id);
+    if (!folder) {
+      return { success: false, error: 'Folder not found' };
+    }
+    const archived = await projectService.writableError(folder.projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const [folders, documents] = await Promise.all([
+      folderService.getFoldersByProject(folder.projectId),
+      this.getDocumentsByProject(folder.projectId),
+    ]);
+    if (folders.some(f => f.parentId === id) || documents.some(doc => doc.folderId === id)) {
+      return { success: false, error: 'Only empty folders can be deleted' };
+    }
+
+    if (!await folderService.deleteFolder(id)) {
+      return { success: false, error: 'Failed to delete folder' };
+    }
+    await this.renumberProject(folder.projectId);
+    return { success: true };
+  }
+
   // Get all documents for a project
   async getDocumentsByProject(projectId: string): Promise<Document[]> {
     const result = await this.storage.getAll();
@@ -62,15 +558,34 @@ export class DocumentService {
     return [];
   }
 
+  // Get the current version of every document in a project
+  async getCurrentDocumentsByProject(projectId: string): Promise<Document[]> {
+    const documents = await this.getDocumentsByProject(projectId);
+    return documents.filter(isCurrentVersion);
+  }
+
   // Get document by ID
   async getDocumentById(id: string): Promise<Document | null> {
     const result = await this.storage.getById(id);
     return result.success ? result.data : null;
   }
 
-  // Delete document
+  // Delete document. Deleting the current version makes the previous version current again.
+  // Throws a ProjectArchivedError when the project is archived.
   async deleteDocument(id: string): Promise<boolean> {
+    const document = await this.getDocumentById(id);
+    if (document) {
+      await projectService.assertWritable(document.projectId);
+    }
     const result = await this.storage.delete(id);
+    if (result.success && document) {
+      const documents = await this.getDocumentsByProject(document.projectId);
+      const previous = documents.find(doc => doc.supersededById === id);
+      if (previous) {
+        await this.storage.update(previous.id, { supersededById: document.supersededById });
+      }
+      await this.renumberProject(document.projectId);
+    }
     return result.success;
   }
 
@@ -91,6 +606,60 @@ export class DocumentService {
     return stats;
   }
 
+  // Formatted HTML rendition of a document, or null when its type has none
+  async extractHtml(document: Document): Promise<string | null> {
+    try {
+      return await this.convertToHtml(document);
+    } catch (error) {
+      console.error(`Error converting ${document.fileName} to HTML:`, error);
+      return `<p>Error converting document to HTML: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+    }
+  }
+
+  // HTML rendition for structure-aware chunking; null when the format has none or conversion fails,
+  // so callers fall back to the extracted text
+  async extractStructuredHtml(document: Document): Promise<string | null> {
+    try {
+      return await this.convertToHtml(document);
+    } catch (error) {
+      console.warn(`Could not convert ${document.fileName} to HTML, using its text:`, error);
+      return null;
+    }
+  }
+
+  private async convertToHtml(document: Document): Promise<string | null> {
+    const extension = document.fileName.split('.').pop()?.toLowerCase();
+
+    switch (extension) {
+      case 'docx':
+        return (await mammoth.convertToHtml({ arrayBuffer: this.base64ToArrayBuffer(document.content) })).value;
+      case 'doc':
+        return extractDoc(this.base64ToArrayBuffer(document.content)).html;
+      case 'odt':
+        return (await extractOdt(this.base64ToArrayBuffer(document.content))).html;
+      case 'rtf':
+        return extractRtf(this.base64ToArrayBuffer(document.content)).html;
+      default:
+        return null;
+    }
+  }
+
+  // Word-level redline from one document to another. Two .docx files are compared on their
+  // formatted HTML; anything else on the extracted text.
+  async compareDocuments(original: Document, revised: Document): Promise<RedlineResult & { format: 'html' | 'text' }> {
+    const isDocx = (document: Document) => document.fileName.split('.').pop()?.toLowerCase() === 'docx';
+
+    if (isDocx(original) && isDocx(revised)) {
+      const [originalHtml, revisedHtml] = await Promise.all([
+        this.extractHtmlFromDocx(original.content),
+        this.extractHtmlFromDocx(revised.content),
+      ]);
+      return { ...redlineHtml(originalHtml, revisedHtml), format: 'html' };
+    }
+
+    return { ...redlineText(original.rawText, revised.rawText), format: 'text' };
+  }
+
   // Extract HTML from .docx files (preserves formatting)
   async extractHtmlFromDocx(content: string): Promise<string> {
     try {
@@ -108,8 +677,9 @@ export class DocumentService {
     }
   }
 
-  // Process document to extract questions
-  async processDocument(documentId: string): Promise<{
+  // Process document to extract questions. Spreadsheets are read row by row using
+  // the given column mapping (auto-detected from the header row when omitted).
+  async processDocument(documentId: string, columnMapping?: QuestionColumnMapping): Promise<{
     success: boolean;
     questions?: ParsedQuestion[];
     error?: string;
@@ -125,12 +695,19 @@ export class DocumentService {
       }
 
       const document = documentResult.data;
+      // Checked first: even the processing status is not written to an archived project
+      const archived = await projectService.writableError(document.projectId);
+      if (archived) {
+        return { success: false, error: archived };
+      }
 
       // Update status to processing
       await this.updateProcessingStatus(documentId, 'processing');
 
       // Process the document
-      const processResult = await documentProcessor.processDocument(document);
+      const processResult = document.sheets
+        ? documentProcessor.processSpreadsheet(document, columnMapping)
+        : await documentProcessor.processDocument(document);
 
       if (processResult.success && processResult.questions) {
         // Update status to completed
@@ -211,27 +788,18 @@ export class DocumentService {
 
   private getDocumentType(fileName: string): string {
     const extension = fileName.split('.').pop()?.toLowerCase();
-    const typeMap: Record<string, string> = {
-      'pdf': 'PDF',
-      'doc': 'Word Document',
-      'docx': 'Word Document',
-      'txt': 'Text File',
-      'rtf': 'Rich Text',
-      'odt': 'OpenDocument Text',
-      'pages': 'Pages Document',
-    };
-    return typeMap[extension || ''] || 'Unknown';
+    return DOCUMENT_TYPE_BY_EXTENSION[extension || ''] || 'Unknown';
   }
 
-  private async extractTextFromFile(file: File, content: ArrayBuffer): Promise<string> {
+  private async extractTextFromFile(file: File, content: ArrayBuffer): Promise<ExtractedContent> {
     const extension = file.name.split('.').pop()?.toLowerCase();
     
     try {
       switch (extension) {
         case 'txt':
-          return new TextDecoder().decode(content);
+          return { rawText: new TextDecoder().decode(content) };
           
-        case 'docx':
+        case 'docx': {
           // Use mammoth to extract text from .docx files
           const result = await mammoth.extractRawText({ arrayBuffer: content });
           
@@ -240,27 +808,39 @@ export class DocumentService {
             console.warn(`Mammoth messages for ${file.name}:`, result.messages);
           }
           
-          return result.value; // mammoth returns { value: string, messages: any[] }
+          return { rawText: result.value }; // mammoth returns { value: string, messages: any[] }
+        }
           
         case 'doc':
-          // .doc files are more complex and would need a different library
-          // For now, return a placeholder
-          return `[Word Document (.doc) from ${file.name}] - .doc file support not implemented yet. Please use .docx format.`;
+          return { rawText: extractDoc(content).rawText };
+
+        case 'odt':
+          return { rawText: (await extractOdt(content)).rawText };
           
-        case 'pdf':
-          // Placeholder - would need pdf-parse library
-          return `[PDF Content from ${file.name}] - PDF text extraction not implemented yet`;
+        case 'pdf': {
+          // Use pdf.js to read the text layer page by page, falling back to OCR for scanned pages
+          const textPages = await extractPdfPages(content);
+          const pages = await ocrService.recognizeEmptyPdfPages(content, textPages);
+          return { rawText: pagesToText(pages), pages };
+        }
           
         case 'rtf':
-          // RTF files can be complex, for now return placeholder
-          return `[RTF Content from ${file.name}] - RTF text extraction not implemented yet`;
+          return { rawText: extractRtf(content).rawText };
           
         default:
-          return `[${this.getDocumentType(file.name)} Content from ${file.name}] - Text extraction not implemented for this file type`;
+          if (extension && SPREADSHEET_EXTENSIONS.includes(extension)) {
+            return extractSpreadsheet(content);
+          }
+          if (extension && OCR_IMAGE_EXTENSIONS.includes(extension)) {
+            // Scanned images have no text layer, so run them through OCR
+            const pages = await ocrService.recognizeImageFile(content, extension);
+            return { rawText: pagesToText(pages), pages };
+          }
+          return { rawText: `[${this.getDocumentType(file.name)} Content from ${file.name}] - Text extraction not implemented for this file type` };
       }
     } catch (error) {
       console.error(`Error extracting text from ${file.name}:`, error);
-      return `[Error extracting text from ${file.name}] - ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return { rawText: `[Error extracting text from ${file.name}] - ${error instanceof Error ? error.message : 'Unknown error'}` };
     }
   }
 }
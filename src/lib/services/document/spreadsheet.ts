@@ -0,0 +1,215 @@
+import * as XLSX from 'xlsx';
+import { QuestionCategory, Stakeholder } from '@/lib/services/question/types';
+import { DocumentSheet, DocumentSheetRow } from '@/lib/types';
+import type { ParsedQuestion } from './processor';
+
+// Spreadsheet extensions handled by this module
+export const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'csv'];
+
+// Header rows are looked for among the first few non-empty rows of a sheet
+const HEADER_SEARCH_ROWS = 10;
+
+// Which column holds which part of a question in a request list
+export interface QuestionColumnMapping {
+  sheetName: string;
+  headerRowNumber?: number; // Rows up to and including this one are skipped
+  question: string; // Column letter, e.g. "C"
+  number?: string;
+  category?: string;
+  stakeholder?: string;
+}
+
+// Header labels that identify each mapped column
+const COLUMN_PATTERNS: Record<Exclude<keyof QuestionColumnMapping, 'sheetName' | 'headerRowNumber'>, RegExp> = {
+  question: /question|request|query|requirement|information requested|description/i,
+  number: /^(#|no\.?|nr\.?|num(ber)?|ref(erence)?( no\.?)?|item( no\.?)?|id|request (no\.?|#|id))$/i,
+  category: /categor|topic|section|workstream|area/i,
+  stakeholder: /stakeholder|owner|responsible|assignee|assigned to|addressee/i,
+};
+
+// Free-text labels commonly used in request lists for each category
+const CATEGORY_ALIASES: [RegExp, QuestionCategory][] = [
+  [/legal|corporate|contract|litigation|ip\b|intellectual property/i, QuestionCategory.CORPORATE_LEGAL],
+  [/financ|tax|accounting|treasury/i, QuestionCategory.FINANCE],
+  [/\bit\b|technolog|software|cyber|data protection|security/i, QuestionCategory.TECHNOLOGY],
+  [/\bhr\b|human|people|employ|pension|personnel/i, QuestionCategory.HUMAN_RESOURCES],
+  [/esg|sustainab|environment/i, QuestionCategory.SUSTAINABILITY],
+  [/complian|regulat|permit|licen[cs]e/i, QuestionCategory.COMPLIANCE],
+  [/risk|insurance/i, QuestionCategory.RISK_MANAGEMENT],
+  [/marketing|commercial|sales|customer/i, QuestionCategory.MARKETING],
+  [/operation|supply|real estate|property/i, QuestionCategory.OPERATIONS],
+];
+
+const STAKEHOLDER_ALIASES: [RegExp, Stakeholder][] = [
+  [/legal|counsel|lawyer/i, Stakeholder.LEGAL],
+  [/\bit\b|cio|cto|technology/i, Stakeholder.IT],
+  [/financ|cfo|account|tax/i, Stakeholder.FINANCE],
+  [/\bhr\b|human|people/i, Stakeholder.HR],
+  [/complian/i, Stakeholder.COMPLIANCE],
+  [/ceo|executive|management/i, Stakeholder.EXECUTIVE],
+  [/board|director/i, Stakeholder.BOARD],
+  [/external|advis|auditor|consultant/i, Stakeholder.EXTERNAL],
+  [/operation|coo/i, Stakeholder.OPERATIONS],
+  [/marketing|sales/i, Stakeholder.MARKETING],
+];
+
+function isNumeric(value: string): boolean {
+  return /^[-+]?[\d.,\s%$€£]+$/.test(value);
+}
+
+// A header row has at least two cells, all of them text labels rather than figures
+function detectHeaderRow(rows: DocumentSheetRow[]): number | undefined {
+  const header = rows.slice(0, HEADER_SEARCH_ROWS).find(row => {
+    const filled = row.cells.filter(cell => cell.trim());
+    return filled.length >= 2 && filled.every(cell => !isNumeric(cell));
+  });
+  return header && header !== rows[rows.length - 1] ? header.rowNumber : undefined;
+}
+
+function readSheet(name: string, worksheet: XLSX.WorkSheet): DocumentSheet | null {
+  if (!worksheet['!ref']) return null;
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const values = XLSX.utils.sheet_to_json<string[]>(worksheet, {
+    header: 1,
+    raw: false, // formatted values, as the user sees them
+    defval: '',
+    blankrows: true,
+  });
+
+  const columns: string[] = [];
+  for (let column = range.s.c; column <= range.e.c; column++) {
+    columns.push(XLSX.utils.encode_col(column));
+  }
+
+  const rows: DocumentSheetRow[] = [];
+  values.forEach((cells, index) => {
+    const normalised = columns.map((_, column) => String(cells[column] ?? '').trim());
+    if (normalised.some(cell => cell)) {
+      rows.push({ rowNumber: range.s.r + index + 1, cells: normalised });
+    }
+  });
+
+  if (rows.length === 0) return null;
+  return { name, columns, headerRowNumber: detectHeaderRow(rows), rows };
+}
+
+// Column headers of a sheet, falling back to the column letter
+export function getSheetHeaders(sheet: DocumentSheet): string[] {
+  const headerRow = sheet.rows.find(row => row.rowNumber === sheet.headerRowNumber);
+  return sheet.columns.map((column, index) => headerRow?.cells[index] || column);
+}
+
+// Render one row as self-contained text with its sheet and cell references,
+// e.g. "[Financials!A5:C5] Item (A5): Revenue; FY2023 (C5): 1,200"
+export function formatSheetRow(sheet: DocumentSheet, row: DocumentSheetRow, headers = getSheetHeaders(sheet)): string {
+  const filled = row.cells
+    .map((value, index) => ({ value, index }))
+    .filter(cell => cell.value);
+  if (filled.length === 0) return '';
+
+  const first = sheet.columns[filled[0].index];
+  const last = sheet.columns[filled[filled.length - 1].index];
+  const values = filled.map(({ value, index }) => {
+    const cell = `${sheet.columns[index]}${row.rowNumber}`;
+    return headers[index] === sheet.columns[index]
+      ? `${cell}: ${value}`
+      : `${headers[index]} (${cell}): ${value}`;
+  });
+
+  return `[${sheet.name}!${first}${row.rowNumber}:${last}${row.rowNumber}] ${values.join('; ')}`;
+}
+
+export function sheetsToText(sheets: DocumentSheet[]): string {
+  return sheets.map(sheet => {
+    const headers = getSheetHeaders(sheet);
+    const lines = [`Sheet: ${sheet.name}`];
+    for (const row of sheet.rows) {
+      if (row.rowNumber === sheet.headerRowNumber) continue;
+      // Titles above the header row are not labelled with the headers
+      const isAboveHeader = sheet.headerRowNumber !== undefined && row.rowNumber < sheet.headerRowNumber;
+      lines.push(formatSheetRow(sheet, row, isAboveHeader ? sheet.columns : headers));
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+// Read every worksheet of an XLSX/XLS/CSV file
+export function extractSpreadsheet(content: ArrayBuffer): { rawText: string; sheets: DocumentSheet[] } {
+  const workbook = XLSX.read(content, { type: 'array', cellDates: true });
+  const sheets = workbook.SheetNames
+    .map(name => readSheet(name, workbook.Sheets[name]))
+    .filter((sheet): sheet is DocumentSheet => sheet !== null);
+
+  return { rawText: sheetsToText(sheets), sheets };
+}
+
+// Guess the question-list columns from the header row of the first sheet that has a question column
+export function detectQuestionColumns(sheets: DocumentSheet[]): QuestionColumnMapping | null {
+  for (const sheet of sheets) {
+    for (const row of sheet.rows.slice(0, HEADER_SEARCH_ROWS)) {
+      // Skip title rows; a header row labels at least two columns
+      if (row.cells.filter(cell => cell).length < 2) continue;
+
+      const findColumn = (pattern: RegExp, exclude?: RegExp) => {
+        const index = row.cells.findIndex(cell => cell && pattern.test(cell) && !exclude?.test(cell));
+        return index >= 0 ? sheet.columns[index] : undefined;
+      };
+
+      // "Request No." is a number column even though it mentions the request
+      const question = findColumn(COLUMN_PATTERNS.question, COLUMN_PATTERNS.number);
+      if (!question) continue;
+
+      return {
+        sheetName: sheet.name,
+        headerRowNumber: row.rowNumber,
+        question,
+        number: findColumn(COLUMN_PATTERNS.number),
+        category: findColumn(COLUMN_PATTERNS.category),
+        stakeholder: findColumn(COLUMN_PATTERNS.stakeholder),
+      };
+    }
+  }
+  return null;
+}
+
+function matchValue<T extends string>(value: string, values: T[], aliases: [RegExp, T][], fallback: T): T {
+  const exact = values.find(candidate => candidate.toLowerCase() === value.trim().toLowerCase());
+  if (exact) return exact;
+  const alias = aliases.find(([pattern]) => pattern.test(value));
+  return alias ? alias[1] : fallback;
+}
+
+// Turn the rows of a question-list sheet into questions, one per row
+export function extractQuestionsFromSheets(
+  sheets: DocumentSheet[],
+  mapping: QuestionColumnMapping
+): ParsedQuestion[] {
+  const sheet = sheets.find(candidate => candidate.name === mapping.sheetName);
+  if (!sheet) {
+    throw new Error(`Sheet "${mapping.sheetName}" not found`);
+  }
+
+  const cellOf = (row: DocumentSheetRow, column?: string) => {
+    const index = column ? sheet.columns.indexOf(column) : -1;
+    return index >= 0 ? row.cells[index] : '';
+  };
+
+  const questions: ParsedQuestion[] = [];
+  for (const row of sheet.rows) {
+    if (mapping.headerRowNumber !== undefined && row.rowNumber <= mapping.headerRowNumber) continue;
+
+    const content = cellOf(row, mapping.question).replace(/\s+/g, ' ').trim();
+    if (!content) continue;
+
+    questions.push({
+      number: cellOf(row, mapping.number) || undefined,
+      content,
+      category: matchValue(cellOf(row, mapping.category), Object.values(QuestionCategory), CATEGORY_ALIASES, QuestionCategory.OTHER),
+      stakeholder: matchValue(cellOf(row, mapping.stakeholder), Object.values(Stakeholder), STAKEHOLDER_ALIASES, Stakeholder.OTHER),
+      reasoning: `Imported from ${sheet.name} row ${row.rowNumber}`,
+    });
+  }
+
+  return questions;
+}
@@ -0,0 +1,268 @@
+// Document structure for chunking: blocks of text with the path of headings and numbered clauses
+// they belong to, e.g. ["12. Termination", "12.3 Change of Control"]
+
+export interface SectionHeading {
+  title: string;
+  rank: number; // Lower ranks contain higher ones; a heading closes open sections of equal or higher rank
+}
+
+export interface SectionBlock {
+  text: string;
+  sectionPath: string[];
+  heading?: boolean; // The block is the heading that opens its section
+  table?: string[][]; // Cells of a table block, header row first
+}
+
+export const SECTION_PATH_SEPARATOR = ' > ';
+
+// Ranks: HTML headings use their level (1-6), articles/parts/schedules and all-caps headings sit just
+// under the top level, numbered clauses nest below every heading by depth (12 -> 11, 12.3 -> 12)
+const ARTICLE_RANK = 2;
+const CAPS_HEADING_RANK = 3;
+const CLAUSE_RANK = 10;
+
+const MAX_HEADING_LENGTH = 80;
+
+// Tab-separated lines form a table from this many rows (header included)
+const MIN_TABLE_ROWS = 3;
+// Longer cells on average are columns of running text rather than a table
+const MAX_MEAN_CELL_LENGTH = 40;
+
+const ARTICLE_PATTERN = /^(article|part|schedule|annex|appendix|exhibit|section)\s+([0-9]+|[ivxlc]+|[a-z])\b/i;
+const CLAUSE_PATTERN = /^(\d{1,3}(?:\.\d{1,3})*)(\.?)\s+(?=[A-Z(“"])/;
+
+// Abbreviations that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'inc', 'ltd', 'llc', 'llp', 'plc', 'co', 'corp', 'bv', 'nv', 'gmbh', 'ag', 'sa', 'pty',
+  'no', 'nos', 'art', 'arts', 'sec', 'secs', 'cl', 'para', 'paras', 'sch', 'pp', 'p', 'vol', 'ch',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr',
+  'e.g', 'i.e', 'etc', 'viz', 'cf', 'vs', 'v', 'approx', 'incl', 'min', 'max', 'est', 'dept', 'fig',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+export const formatSectionPath = (path: string[]) => path.join(SECTION_PATH_SEPARATOR);
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Headings are short and capitalize their longer words ("Change of Control"), unlike clause text
+const isTitleCase = (text: string) => {
+  const words = text.split(/\s+/);
+  return words.length <= 8 && words.every(word => word.replace(/[^\p{L}]/gu, '').length < 4 || /^[^\p{L}]*\p{Lu}/u.test(word));
+};
+
+// Short heading phrase of a numbered clause, e.g. "12.3 Change of Control. If a party..." -> "12.3 Change of Control"
+function clauseTitle(number: string, rest: string): string {
+  const phrase = /^([^.;:]{1,60})[.:]\s+\S/.exec(rest);
+  if (phrase && isTitleCase(phrase[1].trim())) {
+    return `${number} ${phrase[1].trim()}`;
+  }
+  if (rest.length <= MAX_HEADING_LENGTH && !/[.;:,]$/.test(rest) && isTitleCase(rest)) {
+    return `${number} ${rest}`;
+  }
+  return number;
+}
+
+// Heading a line of text opens, if any
+function detectHeading(line: string): SectionHeading | null {
+  const text = normalizeSpace(line);
+  if (!text) return null;
+
+  const clause = CLAUSE_PATTERN.exec(text);
+  if (clause) {
+    const number = clause[1];
+    // Bare numbers ("2023 revenue") are not clauses; "12 Termination" is only a heading when short
+    if (!clause[2] && !number.includes('.') && text.length > MAX_HEADING_LENGTH) return null;
+    return {
+      title: clauseTitle(number + clause[2], text.slice(clause[0].length)),
+      rank: CLAUSE_RANK + number.split('.').length,
+    };
+  }
+
+  if (text.length <= MAX_HEADING_LENGTH) {
+    if (ARTICLE_PATTERN.test(text)) {
+      return { title: text, rank: ARTICLE_RANK };
+    }
+    const letters = text.replace(/[^\p{L}]/gu, '');
+    if (letters.length >= 3 && letters === letters.toUpperCase() && letters !== letters.toLowerCase() && !/[.;,]$/.test(text)) {
+      return { title: text, rank: CAPS_HEADING_RANK };
+    }
+  }
+  return null;
+}
+
+// Open a heading, closing sections it ends
+function openSection(path: SectionHeading[], heading: SectionHeading): SectionHeading[] {
+  const kept = path.filter(open => open.rank < heading.rank);
+  return [...kept, heading];
+}
+
+const titles = (path: SectionHeading[]) => path.map(heading => heading.title);
+
+// Table starting at a line: consecutive tab-separated lines (blank lines between rows allowed)
+function readTable(lines: string[], start: number): { rows: string[][]; end: number } | null {
+  const rows: string[][] = [];
+  let end = start;
+  for (let i = start; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const cells = lines[i].split('\t').map(normalizeSpace);
+    if (cells.filter(Boolean).length < 2) break;
+    rows.push(cells);
+    end = i + 1;
+  }
+  if (rows.length < MIN_TABLE_ROWS) return null;
+
+  const cells = rows.flat().filter(Boolean);
+  if (cells.join('').length / cells.length > MAX_MEAN_CELL_LENGTH) return null;
+
+  // Rows with empty trailing cells come out shorter
+  const width = Math.max(...rows.map(row => row.length));
+  return { rows: rows.map(row => [...row, ...new Array(width - row.length).fill('')]), end };
+}
+
+// Blocks of plain text, one per paragraph or table; a heading line starts a new paragraph (a
+// numbered clause usually carries its text). Pass the path returned for the previous page to
+// continue sections across pages.
+export function textBlocks(text: string, path: SectionHeading[] = []): { blocks: SectionBlock[]; path: SectionHeading[] } {
+  const blocks: SectionBlock[] = [];
+  const lines = text.split('\n');
+  let current = path;
+  let paragraph: string[] = [];
+  let opensSection = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ text: paragraph.join('\n'), sectionPath: titles(current), heading: opensSection || undefined });
+    }
+    paragraph = [];
+    opensSection = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const table = line.includes('\t') ? readTable(lines, i) : null;
+    if (table) {
+      flush();
+      blocks.push({
+        text: lines.slice(i, table.end).filter(row => row.trim()).join('\n'),
+        sectionPath: titles(current),
+        table: table.rows,
+      });
+      i = table.end - 1;
+      continue;
+    }
+
+    const heading = detectHeading(line);
+    if (heading) {
+      flush();
+      current = openSection(current, heading);
+      opensSection = true;
+    }
+    paragraph.push(line.trim());
+  }
+  flush();
+
+  return { blocks, path: current };
+}
+
+// Blocks of an HTML rendition (mammoth for .docx): headings open sections, paragraphs and list
+// items become blocks, and paragraphs starting with a clause number open numbered sections
+export function htmlBlocks(html: string): SectionBlock[] {
+  const container = new DOMParser().parseFromString(html, 'text/html').body;
+  const blocks: SectionBlock[] = [];
+  let path: SectionHeading[] = [];
+
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const tag = child.tagName.toLowerCase();
+      const text = normalizeSpace(child.textContent || '');
+      const headingLevel = /^h([1-6])$/.exec(tag);
+
+      if (headingLevel) {
+        if (!text) continue;
+        path = openSection(path, { title: text, rank: Number(headingLevel[1]) });
+        blocks.push({ text, sectionPath: titles(path), heading: true });
+      } else if (tag === 'table') {
+        const rows = Array.from(child.querySelectorAll('tr'))
+          .map(row => Array.from(row.children).map(cell => normalizeSpace(cell.textContent || '')))
+          .filter(cells => cells.some(Boolean));
+        // Single-row or single-column tables are layout, not data
+        if (rows.length >= 2 && Math.max(...rows.map(row => row.length)) >= 2) {
+          const width = Math.max(...rows.map(row => row.length));
+          blocks.push({
+            text: rows.map(row => row.join(' | ')).join('\n'),
+            sectionPath: titles(path),
+            table: rows.map(row => [...row, ...new Array(width - row.length).fill('')]),
+          });
+        } else {
+          visit(child);
+        }
+      } else if (tag === 'p' || tag === 'li' || tag === 'td' || tag === 'th') {
+        if (!text) continue;
+        if (tag === 'li' && child.querySelector('ul, ol')) {
+          // Text of the item itself, then its nested list
+          const ownText = normalizeSpace(Array.from(child.childNodes)
+            .filter(node => !(node instanceof Element && /^(ul|ol)$/i.test(node.tagName)))
+            .map(node => node.textContent || '')
+            .join(' '));
+          if (ownText) blocks.push({ text: ownText, sectionPath: titles(path) });
+          visit(child);
+          continue;
+        }
+        const heading = tag === 'p' ? detectHeading(text) : null;
+        if (heading) {
+          path = openSection(path, heading);
+          blocks.push({ text, sectionPath: titles(path), heading: true });
+        } else {
+          blocks.push({ text, sectionPath: titles(path) });
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(container);
+
+  return blocks;
+}
+
+// Markdown table with the given header row
+export function formatTable(header: string[], rows: string[][]): string {
+  const line = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n');
+}
+
+// Split text into sentences without breaking at abbreviations ("Inc."), initials, decimals or clause
+// numbers ("12.3"). Whitespace between sentences stays with the preceding sentence.
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["'”’)\]]*(\s+)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const next = text.slice(end, end + 1);
+    const before = text.slice(start, match.index);
+    const lastWord = (/[\p{L}\p{N}.]+$/u.exec(before)?.[0] || '').replace(/\.+$/, '').toLowerCase();
+
+    const isAbbreviation = text[match.index] === '.' && (
+      ABBREVIATIONS.has(lastWord) ||
+      /^\p{L}$/u.test(lastWord) || // Initials
+      /^\d+(\.\d+)*$/.test(before.trim()) // Clause number opening the sentence
+    );
+    // Sentences start with a capital, digit, quote or bracket
+    if (isAbbreviation || (next && /\p{Ll}/u.test(next))) continue;
+
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+  return sentences.filter(sentence => sentence.trim());
+}
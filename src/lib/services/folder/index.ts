@@ -0,0 +1,4 @@
+// Export the service, its instance and the tree helpers
+export { FolderService, folderService, buildFolderTree, computeIndexNumbers } from './service';
+export type { FolderTree, FolderTreeNode } from './service';
+export type { DocumentFolder } from '@/lib/types';
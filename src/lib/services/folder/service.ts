@@ -0,0 +1,218 @@
+import { Document, DocumentFolder } from '@/lib/types';
+import { createStorageService, StorageService } from '@/lib/storage';
+
+// Folder with its sub-folders and documents, in index order
+export interface FolderTreeNode {
+  folder: DocumentFolder;
+  children: FolderTreeNode[];
+  documents: Document[];
+}
+
+// Top level of a project's data room
+export interface FolderTree {
+  folders: FolderTreeNode[];
+  documents: Document[]; // Documents outside any folder
+}
+
+type FolderResult<T> = { success: boolean; data?: T; error?: string };
+
+// Items without a position (e.g. uploaded before folders existed) sort after positioned ones
+function comparePosition(
+  a: { position?: number; createdAt: Date },
+  b: { position?: number; createdAt: Date }
+): number {
+  const positionA = a.position ?? Number.MAX_SAFE_INTEGER;
+  const positionB = b.position ?? Number.MAX_SAFE_INTEGER;
+  return positionA - positionB || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+// Build the folder tree of a project. Folders and documents share one numbering per parent.
+export function buildFolderTree(folders: DocumentFolder[], documents: Document[]): FolderTree {
+  const folderIds = new Set(folders.map(folder => folder.id));
+  const parentOf = (folderId?: string | null) => (folderId && folderIds.has(folderId) ? folderId : null);
+
+  const build = (parentId: string | null): FolderTree => {
+    const childFolders = folders.filter(folder => parentOf(folder.parentId) === parentId);
+    const childDocuments = documents.filter(doc => parentOf(doc.folderId) === parentId);
+
+    return {
+      folders: childFolders.sort(comparePosition).map(folder => {
+        const subtree = build(folder.id);
+        return { folder, children: subtree.folders, documents: subtree.documents };
+      }),
+      documents: childDocuments.sort(comparePosition),
+    };
+  };
+
+  return build(null);
+}
+
+// Assign index numbers (1, 1.1, 1.1.2) by walking the tree in position order. An item's number is
+// its position, so numbers stay stable when siblings are removed (citations keep pointing at the
+// same document); items without a position, or sharing one, take the next free number.
+export function computeIndexNumbers(folders: DocumentFolder[], documents: Document[]): Map<string, string> {
+  const numbers = new Map<string, string>();
+
+  const visit = (prefix: string, childFolders: FolderTreeNode[], childDocuments: Document[]) => {
+    const items = [
+      ...childFolders.map(node => ({ id: node.folder.id, position: node.folder.position, createdAt: node.folder.createdAt, node })),
+      ...childDocuments.map(doc => ({ id: doc.id, position: doc.position, createdAt: doc.createdAt, node: undefined })),
+    ].sort(comparePosition);
+
+    let previous = 0;
+    items.forEach(item => {
+      const position = item.position && item.position > previous ? item.position : previous + 1;
+      previous = position;
+      const number = prefix ? `${prefix}.${position}` : `${position}`;
+      numbers.set(item.id, number);
+      if (item.node) {
+        visit(number, item.node.children, item.node.documents);
+      }
+    });
+  };
+
+  const tree = buildFolderTree(folders, documents);
+  visit('', tree.folders, tree.documents);
+  return numbers;
+}
+
+// Folder service for a project's data-room hierarchy
+export class FolderService {
+  private storage: StorageService<DocumentFolder>;
+
+  constructor() {
+    this.storage = createStorageService<DocumentFolder>('document-folders');
+  }
+
+  async getFoldersByProject(projectId: string): Promise<DocumentFolder[]> {
+    const result = await this.storage.getAll();
+    if (result.success && result.data) {
+      return result.data.filter(folder => folder.projectId === projectId);
+    }
+    return [];
+  }
+
+  async getFolderById(id: string): Promise<DocumentFolder | null> {
+    const result = await this.storage.getById(id);
+    return result.success ? result.data || null : null;
+  }
+
+  // Next free position under a parent, after its existing folders and documents
+  async getNextPosition(projectId: string, parentId: string | null, documents: Document[] = []): Promise<number> {
+    const folders = await this.getFoldersByProject(projectId);
+    const positions = [
+      ...folders.filter(folder => (folder.parentId || null) === parentId).map(folder => folder.position),
+      ...documents.filter(doc => (doc.folderId || null) === parentId).map(doc => doc.position ?? 0),
+    ];
+    return positions.length > 0 ? Math.max(...positions) + 1 : 1;
+  }
+
+  async createFolder(
+    projectId: string,
+    name: string,
+    parentId: string | null = null,
+    position?: number
+  ): Promise<FolderResult<DocumentFolder>> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return { success: false, error: 'Folder name is required' };
+    }
+
+    const result = await this.storage.create({
+      projectId,
+      name: trimmed,
+      parentId,
+      position: position ?? await this.getNextPosition(projectId, parentId),
+    });
+
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to create folder' };
+  }
+
+  // Find a folder by name under a parent, creating it when missing
+  async ensureFolder(
+    projectId: string,
+    name: string,
+    parentId: string | null,
+    position?: number
+  ): Promise<FolderResult<DocumentFolder>> {
+    const folders = await this.getFoldersByProject(projectId);
+    const existing = folders.find(folder =>
+      (folder.parentId || null) === parentId && folder.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    return existing ? { success: true, data: existing } : this.createFolder(projectId, name, parentId, position);
+  }
+
+  async renameFolder(id: string, name: string): Promise<FolderResult<DocumentFolder>> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return { success: false, error: 'Folder name is required' };
+    }
+
+    const result = await this.storage.update(id, { name: trimmed });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to rename folder' };
+  }
+
+  // Move a folder under a new parent (null for top level), appending it after existing items
+  async moveFolder(id: string, parentId: string | null, documents: Document[] = []): Promise<FolderResult<DocumentFolder>> {
+    const folder = await this.getFolderById(id);
+    if (!folder) {
+      return { success: false, error: 'Folder not found' };
+    }
+
+    // A folder cannot be moved into itself or one of its descendants
+    const folders = await this.getFoldersByProject(folder.projectId);
+    for (let ancestor = parentId; ancestor; ancestor = folders.find(f => f.id === ancestor)?.parentId || null) {
+      if (ancestor === id) {
+        return { success: false, error: 'A folder cannot be moved into itself' };
+      }
+    }
+
+    const result = await this.storage.update(id, {
+      parentId,
+      position: await this.getNextPosition(folder.projectId, parentId, documents),
+    });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to move folder' };
+  }
+
+  // Ids of some folders and every folder nested in them
+  async getDescendantFolderIds(projectId: string, folderIds: string[]): Promise<string[]> {
+    const folders = await this.getFoldersByProject(projectId);
+    const ids = new Set(folderIds);
+    for (let added = true; added; ) {
+      added = false;
+      for (const folder of folders) {
+        if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+          ids.add(folder.id);
+          added = true;
+        }
+      }
+    }
+    return [...ids];
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    const result = await this.storage.delete(id);
+    return result.success;
+  }
+
+  // Persist folder index numbers that changed
+  async applyIndexNumbers(projectId: string, numbers: Map<string, string>): Promise<void> {
+    const folders = await this.getFoldersByProject(projectId);
+    const updates = folders
+      .filter(folder => numbers.has(folder.id) && numbers.get(folder.id) !== folder.indexNumber)
+      .map(folder => ({ id: folder.id, changes: { indexNumber: numbers.get(folder.id) } }));
+
+    if (updates.length > 0) {
+      await this.storage.updateMany(updates);
+    }
+  }
+}
+
+// Export singleton instance
+export const folderService = new FolderService();
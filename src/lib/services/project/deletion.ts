@@ -0,0 +1,105 @@
+import { BaseEntity, Document, DocumentFolder, Project, QuestionAnswer } from '@/lib/types';
+import { Question } from '@/lib/services/question/types';
+import { createStorageService, StorageService } from '@/lib/storage';
+import { AnswerService } from '@/lib/answer';
+import { QuestionAnalyzerService } from '@/lib/services/questionAnalyzer/service';
+import { logError } from '@/lib/debug';
+
+type ProjectResult<T> = { success: boolean; data?: T; error?: string };
+
+// What a project deletion removed, besides the project and its search index
+export interface ProjectDeletionSummary {
+  folders: number;
+  documents: number;
+  questions: number;
+  questionAnswers: number;
+}
+
+// Deletes a project with everything that refers to it. Kept apart from ProjectService, which the
+// answer and document services depend on.
+export class ProjectDeletionService {
+  private projectStorage: StorageService<Project> = createStorageService<Project>('basic/PROJECTS');
+  private folderStorage: StorageService<DocumentFolder> = createStorageService<DocumentFolder>('document-folders');
+  private documentStorage: StorageService<Document> = createStorageService<Document>('question-documents');
+  private questionStorage: StorageService<Question> = createStorageService<Question>('basic/QUESTIONS');
+  private questionAnswerStorage: StorageService<QuestionAnswer> = createStorageService<QuestionAnswer>('basic/QUESTION_ANSWERS');
+  private answerService = new AnswerService();
+  private analyzerService = new QuestionAnalyzerService();
+
+  // The backend collection goes first: when it cannot be dropped nothing is deleted, so the
+  // deletion can be retried instead of leaving the collection without a project
+  async deleteProject(projectId: string): Promise<ProjectResult<ProjectDeletionSummary>> {
+    try {
+      const project = (await this.projectStorage.getById(projectId)).data;
+      if (!project) {
+        return { success: false, error: 'Project not found' };
+      }
+
+      await this.answerService.removeProject(projectId);
+
+      return { success: true, data: await this.deleteStoredData(project) };
+    } catch (error) {
+      logError('ProjectDeletion', 'deleteProject', error, { component: 'ProjectDeletion', operation: 'deleteProject', projectId });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete project' };
+    }
+  }
+
+  // Delete a project's stored data but leave the backend alone, for projects that never had a
+  // collection, such as a half-finished import
+  async deleteProjectData(projectId: string): Promise<ProjectResult<ProjectDeletionSummary>> {
+    try {
+      const project = (await this.projectStorage.getById(projectId)).data;
+      if (!project) {
+        return { success: false, error: 'Project not found' };
+      }
+
+      return { success: true, data: await this.deleteStoredData(project) };
+    } catch (error) {
+      logError('ProjectDeletion', 'deleteProjectData', error, { component: 'ProjectDeletion', operation: 'deleteProjectData', projectId });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete project' };
+    }
+  }
+
+  private async deleteStoredData(project: Project): Promise<ProjectDeletionSummary> {
+    const projectId = project.id;
+    const questions = await this.listAll(this.questionStorage, question => question.projectId === projectId);
+    const questionIds = new Set(questions.map(question => question.id));
+    const questionAnswers = await this.listAll(this.questionAnswerStorage, answer => questionIds.has(answer.questionId));
+    const documents = await this.listAll(this.documentStorage, doc => doc.projectId === projectId);
+    const folders = await this.listAll(this.folderStorage, folder => folder.projectId === projectId);
+
+    await this.deleteAll(this.questionAnswerStorage, questionAnswers);
+    await this.analyzerService.removeAnalysisResults(questionIds);
+    await this.deleteAll(this.questionStorage, questions);
+    await this.deleteAll(this.documentStorage, documents);
+    await this.deleteAll(this.folderStorage, folders);
+    await this.deleteAll(this.projectStorage, [project]);
+
+    return {
+      folders: folders.length,
+      documents: documents.length,
+      questions: questions.length,
+      questionAnswers: questionAnswers.length,
+    };
+  }
+
+  private async listAll<T extends BaseEntity>(storage: StorageService<T>, filter: (item: T) => boolean): Promise<T[]> {
+    const result = await storage.getAll();
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to read stored data');
+    }
+    return (result.data || []).filter(filter);
+  }
+
+  private async deleteAll<T extends BaseEntity>(storage: StorageService<T>, items: T[]): Promise<void> {
+    for (const item of items) {
+      const result = await storage.delete(item.id);
+      if (!result.success) {
+        throw new Error(result.error?.message || `Failed to delete ${item.id}`);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const projectDeletionService = new ProjectDeletionService();
@@ -0,0 +1,5 @@
+// Export the services and their instances
+export { ProjectService, projectService, ProjectArchivedError } from './service';
+export { ProjectDeletionService, projectDeletionService } from './deletion';
+export type { ProjectDeletionSummary } from './deletion';
+export type { ChunkingConfig, ChunkingSettings, ChunkingStrategy, Project, RerankingSettings } from '@/lib/types';
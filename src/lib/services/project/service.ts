@@ -0,0 +1,117 @@
+import { ChunkingSettings, Project, RerankingSettings } from '@/lib/types';
+import { createStorageService, StorageService } from '@/lib/storage';
+import { validateChunkingSettings, validateRerankingSettings } from '@/lib/validation';
+
+type ProjectResult<T> = { success: boolean; data?: T; error?: string };
+
+// Raised by operations that would change an archived project
+export class ProjectArchivedError extends Error {
+  constructor(projectName?: string) {
+    super(`${projectName ? `Project "${projectName}"` : 'The project'} is archived and read-only`);
+    this.name = 'ProjectArchivedError';
+  }
+}
+
+// Project settings and archiving outside React, e.g. while indexing. Projects themselves are
+// created and listed through useProjects, which shares this storage key.
+export class ProjectService {
+  private storage: StorageService<Project>;
+
+  constructor() {
+    this.storage = createStorageService<Project>('basic/PROJECTS');
+  }
+
+  async getProjectById(id: string): Promise<Project | null> {
+    const result = await this.storage.getById(id);
+    return result.success ? result.data || null : null;
+  }
+
+  async isArchived(projectId: string): Promise<boolean> {
+    return !!(await this.getProjectById(projectId))?.archivedAt;
+  }
+
+  // Throws a ProjectArchivedError unless the project can be changed. Every write path of a project
+  // checks this before changing anything.
+  async assertWritable(projectId: string): Promise<void> {
+    const project = await this.getProjectById(projectId);
+    if (project?.archivedAt) {
+      throw new ProjectArchivedError(project.name);
+    }
+  }
+
+  // assertWritable for services that report errors in their results: the error message, or
+  // undefined when the project can be changed
+  async writableError(projectId: string): Promise<string | undefined> {
+    try {
+      await this.assertWritable(projectId);
+      return undefined;
+    } catch (error) {
+      if (error instanceof ProjectArchivedError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  // Archived projects keep all their data but cannot be changed until they are restored
+  async archiveProject(projectId: string): Promise<ProjectResult<Project>> {
+    const result = await this.storage.update(projectId, { archivedAt: new Date() });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to archive project' };
+  }
+
+  async unarchiveProject(projectId: string): Promise<ProjectResult<Project>> {
+    const result = await this.storage.update(projectId, { archivedAt: undefined });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to restore project' };
+  }
+
+  // Chunking settings of a project; undefined when it uses the defaults
+  async getChunkingSettings(projectId: string): Promise<ChunkingSettings | undefined> {
+    return (await this.getProjectById(projectId))?.chunking;
+  }
+
+  async updateChunkingSettings(projectId: string, chunking: ChunkingSettings): Promise<ProjectResult<Project>> {
+    const validation = validateChunkingSettings(chunking);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors.map(error => error.message).join(', ') };
+    }
+
+    const archived = await this.writableError(projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const result = await this.storage.update(projectId, { chunking });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to update chunking settings' };
+  }
+
+  // Reranking settings of a project; undefined when it uses the defaults
+  async getRerankingSettings(projectId: string): Promise<RerankingSettings | undefined> {
+    return (await this.getProjectById(projectId))?.reranking;
+  }
+
+  async updateRerankingSettings(projectId: string, reranking: RerankingSettings): Promise<ProjectResult<Project>> {
+    const validation = validateRerankingSettings(reranking);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors.map(error => error.message).join(', ') };
+    }
+
+    const archived = await this.writableError(projectId);
+    if (archived) {
+      return { success: false, error: archived };
+    }
+
+    const result = await this.storage.update(projectId, { reranking });
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error?.message || 'Failed to update reranking settings' };
+  }
+}
+
+// Export singleton instance
+export const projectService = new ProjectService();
@@ -0,0 +1,3 @@
+// Export the service, its instance and the bundle format
+export { ProjectBundleService, projectBundleService, BUNDLE_FORMAT, BUNDLE_FORMAT_VERSION } from './service';
+export type { BundleManifest, ImportSummary } from './service';
@@ -0,0 +1,389 @@
+import JSZip from 'jszip';
+import { BaseEntity, Document, DocumentFolder, Project, QuestionAnswer } from '@/lib/types';
+import { Question } from '@/lib/services/question/types';
+import { createStorageService, StorageService } from '@/lib/storage';
+import { AnswerService, ReindexProgress } from '@/lib/answer';
+import { DEFAULT_CHUNKING_CONFIG, DocumentChunk, ProjectRag } from '@/lib/rag';
+import { QuestionAnalysisResult, QuestionAnalyzerService } from '@/lib/services/questionAnalyzer/service';
+import { projectDeletionService } from '@/lib/services/project/deletion';
+import { logError } from '@/lib/debug';
+
+export const BUNDLE_FORMAT = 'dairo-project';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+type BundleResult<T> = { success: boolean; data?: T; error?: string };
+
+/*
+A project bundle is a zip archive:
+
+manifest.json               BundleManifest
+project.json                Project
+folders.json                DocumentFolder[]
+documents.json              BundleDocument[], documents without their content
+files/<documentId>/<name>   Original bytes of each document
+questions.json              Question[]
+question-answers.json       QuestionAnswer[]
+analysis-results.json       QuestionAnalysisResult[] of the project's questions
+indexed-documents.json      Ids of the documents indexed for answer search
+chunks.json                 DocumentChunk[] the indexed documents were split into at export
+
+Ids are the exporting browser's; importing assigns new ones and rewrites every reference.
+*/
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  projectName: string;
+  counts: {
+    folders: number;
+    documents: number;
+    questions: number;
+    questionAnswers: number;
+    analysisResults: number;
+    indexedDocuments: number;
+    chunks: number;
+  };
+}
+
+type BundleDocument = Omit<Document, 'content'> & { file: string };
+
+// The JSON entries of a bundle, as read before import
+interface BundleContents {
+  project: Project;
+  folders: DocumentFolder[];
+  documents: BundleDocument[];
+  questions: Question[];
+  questionAnswers: QuestionAnswer[];
+  analysisResults: QuestionAnalysisResult[];
+  indexedDocumentIds: string[];
+}
+
+export interface ImportSummary {
+  project: Project;
+  documents: number;
+  questions: number;
+  questionAnswers: number;
+  indexed: number;
+  failed: string[]; // File names of documents that could not be re-indexed
+}
+
+type NewEntity<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
+
+function withoutIdentity<T extends BaseEntity>(entity: T): NewEntity<T> {
+  const { id, createdAt, updatedAt, ...rest } = entity;
+  return rest;
+}
+
+// Zip path of a document's bytes; the id keeps files with the same name apart
+function bundleFilePath(doc: Pick<Document, 'id' | 'fileName'>): string {
+  return `files/${doc.id}/${doc.fileName.replace(/[\\/]/g, '_')}`;
+}
+
+async function readJson<T>(zip: JSZip, path: string): Promise<T> {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`The bundle has no ${path}`);
+  }
+  try {
+    return JSON.parse(await file.async('string')) as T;
+  } catch (error) {
+    throw new Error(`${path} in the bundle is not valid JSON`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Check every entry the import reads before anything is written, so a damaged bundle is rejected
+// without leaving a partial project behind
+function validateBundle(zip: JSZip, contents: BundleContents): void {
+  if (!isRecord(contents.project) || typeof contents.project.name !== 'string') {
+    throw new Error('project.json in the bundle does not describe a project');
+  }
+
+  // Fields each entry must hold as strings, by file
+  const entries: [string, unknown, string[]][] = [
+    ['folders.json', contents.folders, ['id', 'name']],
+    ['documents.json', contents.documents, ['id', 'fileName', 'file']],
+    ['questions.json', contents.questions, ['id', 'content']],
+    ['question-answers.json', contents.questionAnswers, ['id', 'questionId', 'documentId']],
+    ['analysis-results.json', contents.analysisResults, ['questionId']],
+  ];
+  for (const [path, items, fields] of entries) {
+    if (!Array.isArray(items)) {
+      throw new Error(`${path} in the bundle is not a list`);
+    }
+    const invalid = items.findIndex(item => !isRecord(item) || fields.some(field => typeof item[field] !== 'string'));
+    if (invalid >= 0) {
+      throw new Error(`Entry ${invalid + 1} of ${path} in the bundle lacks ${fields.join(', ')}`);
+    }
+  }
+  if (contents.analysisResults.some(result => !Array.isArray(result.answers))) {
+    throw new Error('analysis-results.json in the bundle has results without answers');
+  }
+  if (!Array.isArray(contents.indexedDocumentIds) || contents.indexedDocumentIds.some(id => typeof id !== 'string')) {
+    throw new Error('indexed-documents.json in the bundle is not a list of ids');
+  }
+
+  const missing = contents.documents.find(doc => !zip.file(doc.file));
+  if (missing) {
+    throw new Error(`The bundle has no file for ${missing.fileName}`);
+  }
+}
+
+// Moves a project with its data room, questions and answers between browsers or storage backends
+export class ProjectBundleService {
+  private projectStorage: StorageService<Project> = createStorageService<Project>('basic/PROJECTS');
+  private folderStorage: StorageService<DocumentFolder> = createStorageService<DocumentFolder>('document-folders');
+  private documentStorage: StorageService<Document> = createStorageService<Document>('question-documents');
+  private questionStorage: StorageService<Question> = createStorageService<Question>('basic/QUESTIONS');
+  private questionAnswerStorage: StorageService<QuestionAnswer> = createStorageService<QuestionAnswer>('basic/QUESTION_ANSWERS');
+  private answerService = new AnswerService();
+  private analyzerService = new QuestionAnalyzerService();
+
+  async exportProject(projectId: string): Promise<BundleResult<Blob>> {
+    try {
+      const project = (await this.projectStorage.getById(projectId)).data;
+      if (!project) {
+        return { success: false, error: 'Project not found' };
+      }
+
+      const [folders, documents, questions, allAnswers] = await Promise.all([
+        this.listAll(this.folderStorage, folder => folder.projectId === projectId),
+        this.listAll(this.documentStorage, doc => doc.projectId === projectId),
+        this.listAll(this.questionStorage, question => question.projectId === projectId),
+        this.listAll(this.questionAnswerStorage),
+      ]);
+      const questionIds = new Set(questions.map(question => question.id));
+      const questionAnswers = allAnswers.filter(answer => questionIds.has(answer.questionId));
+      const storedResults = await this.analyzerService.getAnalysisResults();
+      const analysisResults = questions
+        .map(question => storedResults.get(question.id))
+        .filter((result): result is QuestionAnalysisResult => !!result);
+
+      const documentIds = new Set(documents.map(doc => doc.id));
+      const indexedDocumentIds = (await this.answerService.getIndexedDocumentIds(projectId))
+        .filter(id => documentIds.has(id));
+
+      // Chunks as the project's chunking settings produce them now
+      const rag = new ProjectRag(projectId, project.chunking || { default: DEFAULT_CHUNKING_CONFIG });
+      const chunks: DocumentChunk[] = [];
+      for (const doc of documents.filter(doc => indexedDocumentIds.includes(doc.id))) {
+        chunks.push(...await rag.buildChunks(doc));
+      }
+
+      const zip = new JSZip();
+      const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        formatVersion: BUNDLE_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        projectName: project.name,
+        counts: {
+          folders: folders.length,
+          documents: documents.length,
+          questions: questions.length,
+          questionAnswers: questionAnswers.length,
+          analysisResults: analysisResults.length,
+          indexedDocuments: indexedDocumentIds.length,
+          chunks: chunks.length,
+        },
+      };
+      const bundleDocuments: BundleDocument[] = documents.map(({ content, ...doc }) => {
+        const file = bundleFilePath(doc);
+        zip.file(file, content, { base64: true });
+        return { ...doc, file };
+      });
+
+      zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+      zip.file('project.json', JSON.stringify(project, null, 2));
+      zip.file('folders.json', JSON.stringify(folders));
+      zip.file('documents.json', JSON.stringify(bundleDocuments));
+      zip.file('questions.json', JSON.stringify(questions));
+      zip.file('question-answers.json', JSON.stringify(questionAnswers));
+      zip.file('analysis-results.json', JSON.stringify(analysisResults));
+      zip.file('indexed-documents.json', JSON.stringify(indexedDocumentIds));
+      zip.file('chunks.json', JSON.stringify(chunks));
+
+      return { success: true, data: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }) };
+    } catch (error) {
+      logError('ProjectBundle', 'exportProject', error, { component: 'ProjectBundle', operation: 'exportProject', projectId });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to export project' };
+    }
+  }
+
+  // Recreate a bundled project under new ids, owned by userId, and index its answer documents again.
+  // When a write fails, whatever was created is deleted again.
+  async importProject(
+    bundle: Blob,
+    userId: string,
+    onProgress?: (progress: ReindexProgress) => void
+  ): Promise<BundleResult<ImportSummary>> {
+    let zip: JSZip;
+    let manifest: BundleManifest;
+    try {
+      zip = await JSZip.loadAsync(await bundle.arrayBuffer());
+      manifest = await readJson<BundleManifest>(zip, 'manifest.json');
+    } catch (error) {
+      return { success: false, error: 'The file is not a project bundle' };
+    }
+    if (manifest.format !== BUNDLE_FORMAT) {
+      return { success: false, error: 'The file is not a project bundle' };
+    }
+    if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+      return { success: false, error: `The bundle was made by a newer version of the app (format ${manifest.formatVersion})` };
+    }
+
+    let contents: BundleContents;
+    try {
+      const [project, folders, documents, questions, questionAnswers, analysisResults, indexedDocumentIds] = await Promise.all([
+        readJson<Project>(zip, 'project.json'),
+        readJson<DocumentFolder[]>(zip, 'folders.json'),
+        readJson<BundleDocument[]>(zip, 'documents.json'),
+        readJson<Question[]>(zip, 'questions.json'),
+        readJson<QuestionAnswer[]>(zip, 'question-answers.json'),
+        readJson<QuestionAnalysisResult[]>(zip, 'analysis-results.json'),
+        readJson<string[]>(zip, 'indexed-documents.json'),
+      ]);
+      contents = { project, folders, documents, questions, questionAnswers, analysisResults, indexedDocumentIds };
+      validateBundle(zip, contents);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'The project bundle is damaged' };
+    }
+
+    let projectId: string | undefined;
+    try {
+      const { project, folders, documents, questions, questionAnswers, analysisResults, indexedDocumentIds } = contents;
+      const newProject = this.unwrap(await this.projectStorage.create(withoutIdentity(project)), 'project');
+      projectId = newProject.id;
+
+      // Folders first with their parents left out, then linked once every folder has its new id
+      const folderIds = new Map<string, string>();
+      for (const folder of folders) {
+        const created = this.unwrap(
+          await this.folderStorage.create({ ...withoutIdentity(folder), projectId, parentId: null }),
+          'folder'
+        );
+        folderIds.set(folder.id, created.id);
+      }
+      await this.folderStorage.updateMany(folders
+        .filter(folder => folder.parentId && folderIds.has(folder.parentId))
+        .map(folder => ({ id: folderIds.get(folder.id)!, changes: { parentId: folderIds.get(folder.parentId!)! } })));
+
+      // Same for documents, whose version links point at other documents
+      const documentIds = new Map<string, string>();
+      for (const { file, ...doc } of documents) {
+        const created = this.unwrap(await this.documentStorage.create({
+          ...withoutIdentity(doc),
+          content: await zip.file(file)!.async('base64'),
+          projectId,
+          userId,
+          folderId: doc.folderId ? folderIds.get(doc.folderId) ?? null : doc.folderId,
+          versionGroupId: undefined,
+          supersededById: undefined,
+        }), 'document');
+        documentIds.set(doc.id, created.id);
+      }
+      const imported = this.unwrap(await this.documentStorage.updateMany(documents.map(doc => ({
+        id: documentIds.get(doc.id)!,
+        changes: {
+          versionGroupId: doc.versionGroupId ? documentIds.get(doc.versionGroupId) ?? documentIds.get(doc.id) : undefined,
+          supersededById: doc.supersededById ? documentIds.get(doc.supersededById) : undefined,
+        },
+      }))), 'documents');
+
+      const questionIds = new Map<string, string>();
+      for (const question of questions) {
+        const created = this.unwrap(
+          await this.questionStorage.create({ ...withoutIdentity(question), projectId, userId }),
+          'question'
+        );
+        questionIds.set(question.id, created.id);
+      }
+
+      // Answers citing documents the bundle does not hold keep the old id, like answers whose
+      // document was deleted
+      const remapAnswer = <T extends QuestionAnswer>(answer: T): T => ({
+        ...answer,
+        questionId: questionIds.get(answer.questionId) ?? answer.questionId,
+        documentId: documentIds.get(answer.documentId) ?? answer.documentId,
+        replacedByDocumentId: answer.replacedByDocumentId
+          ? documentIds.get(answer.replacedByDocumentId) ?? answer.replacedByDocumentId
+          : undefined,
+      });
+      const answerIds = new Map<string, string>();
+      for (const answer of questionAnswers.filter(answer => questionIds.has(answer.questionId))) {
+        const created = this.unwrap(
+          await this.questionAnswerStorage.create(withoutIdentity(remapAnswer(answer))),
+          'answer'
+        );
+        answerIds.set(answer.id, created.id);
+      }
+
+      await this.analyzerService.saveAnalysisResults(analysisResults
+        .filter(result => questionIds.has(result.questionId))
+        .map(result => ({
+          ...result,
+          questionId: questionIds.get(result.questionId)!,
+          answers: result.answers.map(answer => ({ ...remapAnswer(answer), id: answerIds.get(answer.id) ?? answer.id })),
+        })));
+
+      // Chunks are rebuilt by indexing through the backend, which embeds them for the new project
+      const toIndex = imported.filter(doc => indexedDocumentIds.some(id => documentIds.get(id) === doc.id));
+      const failed: string[] = [];
+      onProgress?.({ completed: 0, total: toIndex.length });
+      for (const [index, doc] of toIndex.entries()) {
+        try {
+          await this.answerService.uploadAnswerDocument(projectId, doc);
+        } catch (error) {
+          failed.push(doc.fileName);
+        }
+        onProgress?.({ completed: index + 1, total: toIndex.length, documentName: doc.fileName });
+      }
+
+      return {
+        success: true,
+        data: {
+          project: newProject,
+          documents: documentIds.size,
+          questions: questionIds.size,
+          questionAnswers: answerIds.size,
+          indexed: toIndex.length - failed.length,
+          failed,
+        },
+      };
+    } catch (error) {
+      logError('ProjectBundle', 'importProject', error, { component: 'ProjectBundle', operation: 'importProject', projectId });
+      const message = error instanceof Error ? error.message : 'Failed to import project';
+      if (!projectId) {
+        return { success: false, error: message };
+      }
+      // Nothing has been indexed yet when a write fails, so there is no collection to drop
+      const rollback = await projectDeletionService.deleteProjectData(projectId);
+      return {
+        success: false,
+        error: rollback.success
+          ? message
+          : `${message}. The partly imported project could not be removed: ${rollback.error}`,
+      };
+    }
+  }
+
+  private async listAll<T extends BaseEntity>(storage: StorageService<T>, filter?: (item: T) => boolean): Promise<T[]> {
+    const result = await storage.getAll();
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to read stored data');
+    }
+    return filter ? (result.data || []).filter(filter) : result.data || [];
+  }
+
+  private unwrap<T>(result: { success: boolean; data?: T; error?: { message: string } }, what: string): T {
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || `Failed to create ${what}`);
+    }
+    return result.data;
+  }
+}
+
+// Export singleton instance
+export const projectBundleService = new ProjectBundleService();
@@ -7,6 +7,7 @@ export interface BaseEntity {
 
 // Question interface
 export interface Question extends BaseEntity {
+  number?: string; // Reference from the source request list, e.g. "3.2.1"
   content: string;
   category: QuestionCategory;
   stakeholder: Stakeholder;
@@ -62,6 +63,7 @@ export interface CreateQuestionForm {
 
 // Question service request types
 export interface CreateQuestionRequest {
+  number?: string;
   content: string;
   category: QuestionCategory;
   stakeholder: Stakeholder;
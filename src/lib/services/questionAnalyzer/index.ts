@@ -1,2 +1,2 @@
-export { QuestionAnalyzerService } from './service';
-export type { QuestionAnalysisResult, BulkAnalysisResult } from './service';
+export { QuestionAnalyzerService, ANALYSIS_RESULTS_STORAGE_KEY } from './service';
+export type { QuestionAnalysisResult, BulkAnalysisResult, StoredAnalysisResult } from './service';
@@ -1,16 +1,48 @@
-import { QuestionAnswer } from "@/lib/types";
+import { BaseEntity, QuestionAnswer } from "@/lib/types";
 import { Question } from "./types";
-import { AnswerService } from "@/lib/answer";
+import { AnswerService, SearchFilters, SearchOptions, SearchResult } from "@/lib/answer";
+import { DocumentChunk } from "@/lib/rag";
+import { documentService } from "@/lib/services/document/service";
+import { projectService } from "@/lib/services/project/service";
+import { rerankerService, DEFAULT_RERANKING_SETTINGS, RankedResult } from "@/lib/services/reranker";
+import { TextLocator } from "@/lib/services/document/offsets";
 import { openaiService } from "@/lib/openai";
 import { debugLogger, logQuestionAnalysis, logError } from "@/lib/debug";
 import { createStorageService } from "@/lib/storage";
 
+// Questions quote clause numbers, standards and party names verbatim, so keyword matches count
+// alongside semantic similarity
+const ANALYSIS_SEARCH_OPTIONS: SearchOptions = { mode: 'hybrid' };
+
+// Storage key of the latest analysis result of each question
+export const ANALYSIS_RESULTS_STORAGE_KEY = 'basic/ANALYSIS_RESULTS';
+
+// localStorage item that held every result as { results: Record<questionId, QuestionAnalysisResult>, timestamp }
+// before results were stored one per question
+const LEGACY_ANALYSIS_RESULTS_KEY = 'question-analysis-results';
+
 export interface QuestionAnalysisResult {
   questionId: string;
   answers: QuestionAnswer[];
   isAnswered: boolean;
 }
 
+export interface StoredAnalysisResult extends BaseEntity, QuestionAnalysisResult {}
+
+// Stored results come back with their answers' dates as strings from JSON storages
+function toAnalysisResult(stored: QuestionAnalysisResult): QuestionAnalysisResult {
+  return {
+    questionId: stored.questionId,
+    isAnswered: stored.isAnswered,
+    answers: stored.answers.map(answer => ({
+      ...answer,
+      compliant: answer.compliant ?? false,
+      createdAt: new Date(answer.createdAt),
+      updatedAt: new Date(answer.updatedAt)
+    })),
+  };
+}
+
 export interface BulkAnalysisResult {
   results: QuestionAnalysisResult[];
   totalAnalyzed: number;
@@ -21,18 +53,27 @@ export interface BulkAnalysisResult {
 export class QuestionAnalyzerService {
   private answerService: AnswerService;
   private questionAnswerStorage = createStorageService<QuestionAnswer>('basic/QUESTION_ANSWERS');
+  private analysisResultStorage = createStorageService<StoredAnalysisResult>(ANALYSIS_RESULTS_STORAGE_KEY);
 
   constructor() {
     this.answerService = new AnswerService();
   }
 
   /**
-   * Analyzes a single question to determine if it has answers
+   * Analyzes a single question to determine if it has answers, optionally searching only the
+   * documents matching some filters
    */
   async analyzeQuestion(
     question: Question,
-    projectId: string
+    projectId: string,
+    filters?: SearchFilters
   ): Promise<QuestionAnalysisResult> {
+    // Analyses store answers, which an archived project does not take
+    await projectService.assertWritable(projectId);
+    const searchOptions: SearchOptions = { ...ANALYSIS_SEARCH_OPTIONS, filters };
+    const reranking = (await projectService.getRerankingSettings(projectId)) || DEFAULT_RERANKING_SETTINGS;
+    // A wider candidate set is only worth retrieving when something reranks it
+    const limit = reranking.reranker === 'none' ? reranking.topN : reranking.candidateCount;
     logQuestionAnalysis('analyzeQuestion_start', question.id, projectId, {
       questionContent: question.content,
       questionCategory: question.category,
@@ -46,13 +87,15 @@ export class QuestionAnalyzerService {
         operation: 'analyzeQuestion',
         questionId: question.id,
         projectId
-      }, { query: question.content, limit: 10 });
+      }, { query: question.content, limit, ...searchOptions });
 
-      const searchResults = await this.answerService.searchDocuments(
+      const candidates = await this.answerService.searchDocuments(
         projectId,
         question.content,
-        10 // Get more results for better analysis
+        limit,
+        searchOptions
       );
+      const searchResults = await rerankerService.rerank(question.content, candidates, reranking);
 
       debugLogger.info('Document search completed for question analysis', { 
         component: 'QuestionAnalyzer', 
@@ -60,11 +103,13 @@ export class QuestionAnalyzerService {
         questionId: question.id,
         projectId
       }, { 
+        candidateCount: candidates.length,
         searchResultCount: searchResults.length,
         searchResults: searchResults.map(r => ({
           chunkId: r.chunk?.id,
           documentId: r.chunk?.documentId,
           score: r.score,
+          ranking: r.ranking,
           contentPreview: r.chunk?.content?.substring(0, 100) + '...'
         }))
       });
@@ -73,11 +118,14 @@ export class QuestionAnalyzerService {
         logQuestionAnalysis('analyzeQuestion_no_results', question.id, projectId, {
           questionContent: question.content
         });
-        return {
+        await this.removeStaleAnswers(question.id);
+        const result = {
           questionId: question.id,
           answers: [],
           isAnswered: false,
         };
+        await this.saveAnalysisResults([result]);
+        return result;
       }
 
       // Use OpenAI to analyze if the question is answered by the search results
@@ -108,7 +156,12 @@ export class QuestionAnalyzerService {
               questionId: answer.questionId,
               content: answer.content,
               documentId: answer.documentId,
-              compliant: answer.compliant
+              compliant: answer.compliant,
+              sectionPath: answer.sectionPath,
+              startOffset: answer.startOffset,
+              endOffset: answer.endOffset,
+              pageNumber: answer.pageNumber,
+              ranking: answer.ranking
             });
           }
 
@@ -132,6 +185,9 @@ export class QuestionAnalyzerService {
           });
           // Continue even if persistence fails
         }
+      } else {
+        // Evidence from replaced versions no longer answers the question
+        await this.removeStaleAnswers(question.id);
       }
 
       const result = {
@@ -139,6 +195,7 @@ export class QuestionAnalyzerService {
         answers,
         isAnswered: answers.length > 0,
       };
+      await this.saveAnalysisResults([result]);
 
       logQuestionAnalysis('analyzeQuestion_completed', question.id, projectId, {
         questionContent: question.content,
@@ -171,8 +228,10 @@ export class QuestionAnalyzerService {
    */
   async analyzeQuestions(
     questions: Question[],
-    projectId: string
+    projectId: string,
+    filters?: SearchFilters
   ): Promise<BulkAnalysisResult> {
+    await projectService.assertWritable(projectId);
     debugLogger.info('Starting bulk question analysis', { 
       component: 'QuestionAnalyzer', 
       operation: 'analyzeQuestions',
@@ -188,7 +247,7 @@ export class QuestionAnalyzerService {
 
     for (const question of questions) {
       try {
-        const result = await this.analyzeQuestion(question, projectId);
+        const result = await this.analyzeQuestion(question, projectId, filters);
         results.push(result);
         
         if (result.isAnswered) {
@@ -239,7 +298,7 @@ export class QuestionAnalyzerService {
    */
   private async analyzeWithOpenAI(
     question: Question,
-    searchResults: any[]
+    searchResults: RankedResult[]
   ): Promise<QuestionAnswer[]> {
     debugLogger.debug('Starting OpenAI analysis', { 
       component: 'QuestionAnalyzer', 
@@ -264,6 +323,7 @@ Return your response as a JSON array of objects with the following structure:
   {
     "content": "The specific content from the document that answers the question",
     "documentId": "The document ID from the search result",
+    "chunk": The number of the chunk the content was taken from,
     "compliant": true/false
   }
 ]
@@ -285,6 +345,7 @@ Guidelines:
 - Extract the most relevant portion of the chunk content
 - Be precise and concise in your extracted content
 - If a chunk only partially answers the question, still include it but extract only the relevant part
+- Chunks marked as tables are Markdown tables whose first row is the header; read every row against the header and quote the relevant rows with their column names
 - Determine compliance based on whether the answer indicates adherence to requirements
 - Return ONLY the JSON array, no additional text or formatting`;
 
@@ -293,9 +354,12 @@ Guidelines:
 Document chunks to analyze:
 ${searchResults.map((result, index) => `
 Chunk ${index + 1}:
-Document ID: ${result.chunk?.documentId || result.documentId}
-Content: ${result.chunk?.content || result.content}
-Relevance Score: ${result.score}
+Document ID: ${result.chunk.documentId}${result.chunk?.metadata?.sectionPath ? `
+Section: ${result.chunk.metadata.sectionPath}` : ''}${result.chunk?.metadata?.table ? `
+Content (table):
+${result.chunk.content}` : `
+Content: ${result.chunk.content}`}
+Relevance Score: ${result.ranking.rerankScore ?? result.score}
 `).join('\n')}
 
 Please analyze these chunks and return the JSON array of answers as specified.`;
@@ -386,15 +450,25 @@ Please analyze these chunks and return the JSON array of answers as specified.`;
       });
 
       // Convert to QuestionAnswer format
-      return answers.map((answer: any) => ({
-        id: crypto.randomUUID(),
-        questionId: question.id,
-        content: answer.content,
-        documentId: answer.documentId,
-        compliant: answer.compliant ?? false, // Default to false if not specified
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }));
+      const questionAnswers: QuestionAnswer[] = [];
+      for (const answer of answers) {
+        const sourceResult = this.findSourceResult(answer, searchResults);
+        const source = sourceResult?.chunk;
+        questionAnswers.push({
+          id: crypto.randomUUID(),
+          questionId: question.id,
+          content: answer.content,
+          documentId: answer.documentId,
+          compliant: answer.compliant ?? false, // Default to false if not specified
+          sectionPath: source?.metadata?.sectionPath,
+          pageNumber: source?.metadata?.pageNumber,
+          ranking: sourceResult?.ranking,
+          ...await this.locateAnswer(answer.documentId, answer.content, source),
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+      }
+      return questionAnswers;
 
     } catch (error) {
       logError('QuestionAnalyzer', 'analyzeWithOpenAI', error, {
@@ -406,10 +480,191 @@ Please analyze these chunks and return the JSON array of answers as specified.`;
     }
   }
 
+  /**
+   * Finds the search result an answer was taken from: the chunk number the model cited when it
+   * belongs to the answer's document, otherwise the document's chunk containing the answer text
+   */
+  private findSourceResult<T extends SearchResult>(
+    answer: { documentId?: string; content?: string; chunk?: number },
+    searchResults: T[]
+  ): T | undefined {
+    const cited = searchResults[Number(answer.chunk) - 1];
+    if (cited && cited.chunk?.documentId === answer.documentId) {
+      return cited;
+    }
+
+    const candidates = searchResults.filter(result => result.chunk?.documentId === answer.documentId);
+    const excerpt = String(answer.content || '').slice(0, 80);
+    return candidates.find(result => excerpt && result.chunk.content.includes(excerpt)) || candidates[0];
+  }
+
+  /**
+   * Offsets of the passage supporting an answer: the quoted text when it is found within its source
+   * chunk, otherwise the whole chunk
+   */
+  private async locateAnswer(
+    documentId: string,
+    content: string,
+    source?: DocumentChunk
+  ): Promise<Pick<QuestionAnswer, 'startOffset' | 'endOffset'>> {
+    const chunkStart = source?.metadata?.startOffset;
+    const chunkEnd = source?.metadata?.endOffset;
+    if (chunkStart === undefined || chunkEnd === undefined) {
+      return {};
+    }
+
+    const document = await documentService.getDocumentById(documentId);
+    const range = document && content ? new TextLocator(document.rawText).locate(content, chunkStart) : null;
+    if (range && range.start >= chunkStart && range.end <= chunkEnd) {
+      return { startOffset: range.start, endOffset: range.end };
+    }
+    return { startOffset: chunkStart, endOffset: chunkEnd };
+  }
+
+  /**
+   * Flags answers citing a document as stale once a newer version replaces it.
+   * Re-analyzing the question replaces stale answers with fresh ones.
+   */
+  async markAnswersStale(documentId: string, replacedByDocumentId: string): Promise<number> {
+    try {
+      const result = await this.questionAnswerStorage.getAll();
+      if (!result.success || !result.data) {
+        return 0;
+      }
+
+      const affected = result.data.filter(answer => answer.documentId === documentId && !answer.stale);
+      for (const answer of affected) {
+        await this.questionAnswerStorage.update(answer.id, { stale: true, replacedByDocumentId });
+      }
+
+      debugLogger.info('Answers flagged as stale', {
+        component: 'QuestionAnalyzer',
+        operation: 'markAnswersStale'
+      }, { documentId, replacedByDocumentId, staleCount: affected.length });
+
+      return affected.length;
+    } catch (error) {
+      logError('QuestionAnalyzer', 'markAnswersStale', error, {
+        component: 'QuestionAnalyzer',
+        operation: 'markAnswersStale'
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Deletes answers citing a deleted document. Answers flagged as stale because the document replaced
+   * theirs are current again, since deleting a version restores the previous one.
+   */
+  async removeAnswersForDocument(documentId: string): Promise<number> {
+    try {
+      const result = await this.questionAnswerStorage.getAll();
+      if (!result.success || !result.data) {
+        return 0;
+      }
+
+      const citing = result.data.filter(answer => answer.documentId === documentId);
+      for (const answer of citing) {
+        await this.questionAnswerStorage.delete(answer.id);
+      }
+      const restored = result.data.filter(answer => answer.replacedByDocumentId === documentId && answer.documentId !== documentId);
+      await this.questionAnswerStorage.updateMany(restored.map(answer => ({
+        id: answer.id,
+        changes: { stale: false, replacedByDocumentId: undefined },
+      })));
+
+      debugLogger.info('Answers of deleted document removed', {
+        component: 'QuestionAnalyzer',
+        operation: 'removeAnswersForDocument'
+      }, { documentId, removedCount: citing.length, restoredCount: restored.length });
+
+      return citing.length;
+    } catch (error) {
+      logError('QuestionAnalyzer', 'removeAnswersForDocument', error, {
+        component: 'QuestionAnalyzer',
+        operation: 'removeAnswersForDocument'
+      });
+      return 0;
+    }
+  }
+
+  // Latest analysis result of each analysed question, by question id
+  async getAnalysisResults(): Promise<Map<string, QuestionAnalysisResult>> {
+    await this.importLegacyResults();
+    const stored = await this.listAnalysisResults();
+    return new Map(stored.map(result => [result.questionId, toAnalysisResult(result)]));
+  }
+
+  // Store results, replacing earlier results of the same questions
+  async saveAnalysisResults(results: QuestionAnalysisResult[]): Promise<void> {
+    await this.importLegacyResults();
+    await this.writeAnalysisResults(results);
+  }
+
+  async removeAnalysisResults(questionIds: Set<string>): Promise<void> {
+    await this.importLegacyResults();
+    for (const stored of await this.listAnalysisResults()) {
+      if (!questionIds.has(stored.questionId)) continue;
+      const deleted = await this.analysisResultStorage.delete(stored.id);
+      if (!deleted.success) {
+        throw new Error(deleted.error?.message || 'Failed to delete analysis result');
+      }
+    }
+  }
+
+  async clearAnalysisResults(): Promise<void> {
+    localStorage.removeItem(LEGACY_ANALYSIS_RESULTS_KEY);
+    const cleared = await this.analysisResultStorage.clear();
+    if (!cleared.success) {
+      throw new Error(cleared.error?.message || 'Failed to clear analysis results');
+    }
+  }
+
+  private async writeAnalysisResults(results: QuestionAnalysisResult[]): Promise<void> {
+    const existing = new Map((await this.listAnalysisResults()).map(stored => [stored.questionId, stored]));
+    for (const { questionId, answers, isAnswered } of results) {
+      const stored = existing.get(questionId);
+      const saved = stored
+        ? await this.analysisResultStorage.update(stored.id, { answers, isAnswered })
+        : await this.analysisResultStorage.create({ questionId, answers, isAnswered });
+      if (!saved.success) {
+        throw new Error(saved.error?.message || 'Failed to save analysis result');
+      }
+    }
+  }
+
+  private async listAnalysisResults(): Promise<StoredAnalysisResult[]> {
+    const result = await this.analysisResultStorage.getAll();
+    if (!result.success) {
+      throw new Error(result.error?.message || 'Failed to load analysis results');
+    }
+    return result.data || [];
+  }
+
+  // Move results kept in the legacy localStorage item into the storage, once, before anything
+  // reads or changes the stored results
+  private async importLegacyResults(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_ANALYSIS_RESULTS_KEY);
+    if (!stored) return;
+
+    const results = Object.values(JSON.parse(stored).results || {}) as QuestionAnalysisResult[];
+    await this.writeAnalysisResults(results);
+    localStorage.removeItem(LEGACY_ANALYSIS_RESULTS_KEY);
+  }
+
+  private async removeStaleAnswers(questionId: string): Promise<void> {
+    const result = await this.questionAnswerStorage.getAll();
+    if (result.success && result.data) {
+      for (const answer of result.data.filter(a => a.questionId === questionId && a.stale)) {
+        await this.questionAnswerStorage.delete(answer.id);
+      }
+    }
+  }
+
   /**
    * Checks if a question has any answers (without full analysis)
    */
-  async hasAnswers(question: Question, projectId: string): Promise<boolean> {
+  async hasAnswers(question: Question, projectId: string, filters?: SearchFilters): Promise<boolean> {
     debugLogger.debug('Checking if question has answers', { 
       component: 'QuestionAnalyzer', 
       operation: 'hasAnswers',
@@ -421,7 +676,8 @@ Please analyze these chunks and return the JSON array of answers as specified.`;
       const searchResults = await this.answerService.searchDocuments(
         projectId,
         question.content,
-        5
+        5,
+        { ...ANALYSIS_SEARCH_OPTIONS, filters }
       );
       
       const hasAnswers = searchResults.length > 0;
@@ -0,0 +1,37 @@
+import { SearchResult } from '@/lib/rag';
+import { Reranker, RerankScore } from './types';
+
+// Self-hosted cross-encoder with a text-embeddings-inference style /rerank endpoint, e.g.
+// BAAI/bge-reranker-base served by Hugging Face TEI
+const RERANKER_URL = import.meta.env.VITE_RERANKER_URL || 'http://localhost:8080';
+
+// Scores each (question, passage) pair jointly with a cross-encoder model
+export class CrossEncoderReranker implements Reranker {
+  readonly kind = 'cross-encoder' as const;
+
+  constructor(private baseUrl: string = RERANKER_URL) {}
+
+  async score(query: string, candidates: SearchResult[]): Promise<RerankScore[]> {
+    const response = await fetch(`${this.baseUrl}/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        query,
+        texts: candidates.map(result => result.chunk.content),
+        truncate: true,
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Cross-encoder request failed: HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Scores come back sorted by relevance, keyed by the index of their text
+    const results: { index: number; score: number }[] = await response.json();
+    const scores = new Map(results.map(result => [result.index, result.score]));
+    return candidates.map((_, index) => ({
+      score: Math.min(Math.max(scores.get(index) ?? 0, 0), 1),
+    }));
+  }
+}
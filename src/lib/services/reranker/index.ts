@@ -0,0 +1,7 @@
+// Export the service, its instance and the rerankers
+export { RerankerService, rerankerService, createReranker, DEFAULT_RERANKING_SETTINGS, RERANKER_KINDS } from './service';
+export { LexicalReranker } from './lexical';
+export { LlmReranker } from './llm';
+export { CrossEncoderReranker } from './crossEncoder';
+export type { Reranker, RerankScore, RankedResult } from './types';
+export type { EvidenceRanking, RerankerKind, RerankingSettings } from '@/lib/types';
@@ -0,0 +1,87 @@
+import { SearchResult } from '@/lib/rag';
+import { Reranker, RerankScore } from './types';
+
+// Words too common to say anything about relevance
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'if', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'there', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Weights of the term score, the share of query word pairs found verbatim and the retrieval order
+const TERM_WEIGHT = 0.6;
+const PHRASE_WEIGHT = 0.2;
+const RETRIEVAL_WEIGHT = 0.2;
+
+// Words are cut to this many characters so "certified" matches "certification"
+const STEM_LENGTH = 6;
+// Codes such as clause numbers and standards ("12.3", "45001") say more than words
+const CODE_WEIGHT = 2;
+
+const isCode = (token: string) => /\d/.test(token);
+
+const stem = (word: string) => (isCode(word) ? word : word.slice(0, STEM_LENGTH));
+
+// Lower-case words without stop words
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.-][\p{L}\p{N}]+)*/gu) || [])
+    .filter(word => !STOP_WORDS.has(word) && (word.length > 1 || isCode(word)));
+}
+
+const tokenize = (text: string) => words(text).map(stem);
+
+// Scores candidates by BM25 over the candidate set, rewards query word pairs found verbatim (clause
+// numbers, standards, party names) and keeps part of the retrieval order. Runs locally and offline.
+export class LexicalReranker implements Reranker {
+  readonly kind = 'lexical' as const;
+
+  async score(query: string, candidates: SearchResult[]): Promise<RerankScore[]> {
+    const queryWords = words(query);
+    const queryTokens = queryWords.map(stem);
+    const queryTerms = [...new Set(queryTokens)];
+    const queryPairs = queryTokens.slice(1).map((token, i) => `${queryTokens[i]} ${token}`);
+
+    const documents = candidates.map(result =>
+      tokenize([result.chunk.metadata?.sectionPath, result.chunk.content].filter(Boolean).join(' '))
+    );
+    const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / (documents.length || 1);
+    const documentFrequency = new Map(queryTerms.map(term => [
+      term,
+      documents.filter(tokens => tokens.includes(term)).length,
+    ]));
+
+    const scored = documents.map(tokens => {
+      const counts = new Map<string, number>();
+      tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+
+      let bm25 = 0;
+      const matched: string[] = [];
+      for (const term of queryTerms) {
+        const frequency = counts.get(term) || 0;
+        if (frequency === 0) continue;
+        matched.push(queryWords[queryTokens.indexOf(term)]);
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        bm25 += (isCode(term) ? CODE_WEIGHT : 1) * idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * tokens.length / (averageLength || 1)));
+      }
+
+      const text = ` ${tokens.join(' ')} `;
+      const phrases = queryPairs.filter(pair => text.includes(` ${pair} `));
+      return { bm25, matched, phraseCoverage: queryPairs.length > 0 ? phrases.length / queryPairs.length : 0 };
+    });
+
+    const maxBm25 = Math.max(0, ...scored.map(s => s.bm25));
+    return scored.map((s, index) => ({
+      score: TERM_WEIGHT * (maxBm25 > 0 ? s.bm25 / maxBm25 : 0)
+        + PHRASE_WEIGHT * s.phraseCoverage
+        + RETRIEVAL_WEIGHT * (1 - index / candidates.length),
+      reason: s.matched.length > 0
+        ? `Matched ${s.matched.length} of ${queryTerms.length} query terms: ${s.matched.join(', ')}`
+        : 'No query terms matched',
+    }));
+  }
+}
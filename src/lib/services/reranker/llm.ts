@@ -0,0 +1,60 @@
+import { SearchResult } from '@/lib/rag';
+import { openaiService } from '@/lib/openai';
+import { Reranker, RerankScore } from './types';
+
+// Longer chunks are cut to keep the prompt within bounds for wide candidate sets
+const MAX_PASSAGE_LENGTH = 1500;
+
+const SYSTEM_PROMPT = `You rank document passages by how well they answer a due diligence question.
+
+Rate every passage from 0 to 10:
+- 10: directly answers the question
+- 5: relevant context, but no direct answer
+- 0: unrelated
+
+IMPORTANT: Return ONLY valid JSON. Do not wrap your response in markdown code blocks or any other formatting.
+
+Return a JSON array with one object per passage:
+[
+  { "passage": The number of the passage, "score": 0-10, "reason": "One short sentence on why" }
+]`;
+
+// Asks the chat model to rate each candidate's relevance, with a short reason
+export class LlmReranker implements Reranker {
+  readonly kind = 'llm' as const;
+
+  async score(query: string, candidates: SearchResult[]): Promise<RerankScore[]> {
+    const prompt = `Question: "${query}"
+
+Passages:
+${candidates.map((result, index) => `
+Passage ${index + 1}:${result.chunk.metadata?.sectionPath ? `
+Section: ${result.chunk.metadata.sectionPath}` : ''}
+${result.chunk.content.slice(0, MAX_PASSAGE_LENGTH)}
+`).join('\n')}`;
+
+    const response = await openaiService.prompt(prompt, {
+      model: 'gpt-4o-mini',
+      systemMessage: SYSTEM_PROMPT,
+      temperature: 0,
+      maxTokens: 60 * candidates.length + 200,
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'No response from OpenAI');
+    }
+
+    const cleaned = response.data.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+    const parsed = JSON.parse(cleaned);
+    const ratings: { passage?: number; score?: number; reason?: string }[] = Array.isArray(parsed) ? parsed : [];
+
+    // Passages the model skipped count as unrelated
+    return candidates.map((_, index) => {
+      const rating = ratings.find(r => Number(r.passage) === index + 1);
+      const score = Number(rating?.score);
+      return {
+        score: Number.isFinite(score) ? Math.min(Math.max(score, 0), 10) / 10 : 0,
+        reason: rating?.reason,
+      };
+    });
+  }
+}
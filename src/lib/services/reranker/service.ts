@@ -0,0 +1,95 @@
+import { SearchResult } from '@/lib/rag';
+import { RerankerKind, RerankingSettings } from '@/lib/types';
+import { debugLogger, logError } from '@/lib/debug';
+import { CrossEncoderReranker } from './crossEncoder';
+import { LexicalReranker } from './lexical';
+import { LlmReranker } from './llm';
+import { RankedResult, Reranker } from './types';
+
+export const DEFAULT_RERANKING_SETTINGS: RerankingSettings = {
+  reranker: 'lexical',
+  candidateCount: 30,
+  topN: 10,
+};
+
+export const RERANKER_KINDS: RerankerKind[] = ['none', 'lexical', 'llm', 'cross-encoder'];
+
+// Reranker of a kind; null for 'none'
+export function createReranker(kind: RerankerKind): Reranker | null {
+  switch (kind) {
+    case 'lexical':
+      return new LexicalReranker();
+    case 'llm':
+      return new LlmReranker();
+    case 'cross-encoder':
+      return new CrossEncoderReranker();
+    default:
+      return null;
+  }
+}
+
+// Candidates in retrieval order, cut to the best topN
+function keepRetrievalOrder(candidates: SearchResult[], topN: number): RankedResult[] {
+  return candidates.slice(0, topN).map((result, index) => ({
+    ...result,
+    ranking: { reranker: 'none', retrievalRank: index + 1, retrievalScore: result.score, rerank: index + 1 },
+  }));
+}
+
+export class RerankerService {
+  private rerankers = new Map<RerankerKind, Reranker | null>();
+
+  private getReranker(kind: RerankerKind): Reranker | null {
+    if (!this.rerankers.has(kind)) {
+      this.rerankers.set(kind, createReranker(kind));
+    }
+    return this.rerankers.get(kind)!;
+  }
+
+  // Rerank search results for a query and keep the best settings.topN. Results keep the retrieval
+  // order when reranking is off or the reranker fails, so analysis never depends on it.
+  async rerank(query: string, candidates: SearchResult[], settings: RerankingSettings): Promise<RankedResult[]> {
+    const reranker = this.getReranker(settings.reranker);
+    if (!reranker || candidates.length === 0) {
+      return keepRetrievalOrder(candidates, settings.topN);
+    }
+
+    try {
+      const scores = await reranker.score(query, candidates);
+      const ranked = candidates
+        .map((result, index) => ({ result, index, ...scores[index] }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, settings.topN)
+        .map(({ result, index, score, reason }, rank) => ({
+          ...result,
+          ranking: {
+            reranker: reranker.kind,
+            retrievalRank: index + 1,
+            retrievalScore: result.score,
+            rerank: rank + 1,
+            rerankScore: score,
+            reason,
+          },
+        }));
+
+      debugLogger.info('Search results reranked', {
+        component: 'RerankerService',
+        operation: 'rerank'
+      }, {
+        reranker: reranker.kind,
+        candidateCount: candidates.length,
+        kept: ranked.map(r => ({ chunkId: r.chunk.id, ...r.ranking }))
+      });
+      return ranked;
+    } catch (error) {
+      logError('RerankerService', 'rerank', error, {
+        component: 'RerankerService',
+        operation: 'rerank'
+      });
+      return keepRetrievalOrder(candidates, settings.topN);
+    }
+  }
+}
+
+// Export singleton instance
+export const rerankerService = new RerankerService();
@@ -0,0 +1,20 @@
+import { SearchResult } from '@/lib/rag';
+import { EvidenceRanking, RerankerKind } from '@/lib/types';
+
+// Relevance of one candidate as judged by a reranker
+export interface RerankScore {
+  score: number; // 0-1, higher is more relevant
+  reason?: string;
+}
+
+// Scores retrieved chunks against the query they were retrieved for
+export interface Reranker {
+  readonly kind: RerankerKind;
+  // One score per candidate, in the order of the candidates
+  score(query: string, candidates: SearchResult[]): Promise<RerankScore[]>;
+}
+
+// Search result kept after reranking, with the ranking that explains its choice
+export interface RankedResult extends SearchResult {
+  ranking: EvidenceRanking;
+}
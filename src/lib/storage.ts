@@ -7,18 +7,129 @@ import {
   PaginationOptions,
   PaginatedResult
 } from './types';
+import { migrateItems, migrationFailures, storageVersion } from './migrations';
+import { debugLogger } from './debug';
 
 // Storage version for data migration
 const STORAGE_VERSION = '1.0.0';
 
+// 'indexeddb' (the default), 'local' (browser localStorage) or 'server' (SQLite behind the backend's
+// REST routes)
+const STORAGE_BACKEND = import.meta.env.VITE_STORAGE_BACKEND || 'indexeddb';
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Storage keys kept on the server when STORAGE_BACKEND is 'server', by backend resource. Keys not
+// listed here (settings) stay in the browser.
+const SERVER_RESOURCES: Record<StorageKey, string> = {
+  'basic/PROJECTS': 'projects',
+  'question-documents': 'documents',
+  'document-folders': 'document-folders',
+  'basic/QUESTIONS': 'questions',
+  'basic/QUESTION_ANSWERS': 'question-answers',
+  'basic/ANALYSIS_RESULTS': 'analysis-results',
+  'storage/src/lib/user.ts:main': 'users',
+};
+
+// Per-project storage keys, ending in the project id, by the server resource they share. Each key
+// only sees the items carrying its projectId.
+const SERVER_PROJECT_RESOURCES: Record<string, string> = {
+  'storage/src/lib/answer.ts:main:': 'indexed-documents',
+};
+
+// Operations shared by every storage backend
+export interface StorageService<T extends BaseEntity> {
+  getAll(): Promise<StorageResult<T[]>>;
+  getById(id: string): Promise<StorageResult<T | null>>;
+  create(item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): Promise<StorageResult<T>>;
+  update(id: string, updates: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<StorageResult<T>>;
+  updateMany(updates: { id: string; changes: Partial<Omit<T, 'id' | 'createdAt'>> }[]): Promise<StorageResult<T[]>>;
+  delete(id: string): Promise<StorageResult<boolean>>;
+  getPaginated(options: PaginationOptions): Promise<StorageResult<PaginatedResult<T>>>;
+  clear(): Promise<StorageResult<boolean>>;
+}
+
+// Fields holding base64 file bytes, by storage key. IndexedDB stores them as Blobs.
+const BLOB_FIELDS: Record<StorageKey, string[]> = {
+  'question-documents': ['content'],
+};
+
+// Error of reads while a key's data cannot be upgraded
+function migrationError(fromVersion: string, toVersion: string, error: unknown): StorageError {
+  return {
+    code: 'MIGRATION_FAILED',
+    message: `Stored data could not be upgraded from version ${fromVersion} to ${toVersion}: ${
+      isQuotaError(error) ? 'browser storage is full' : error instanceof Error ? error.message : 'Unknown error'
+    }`,
+    details: error
+  };
+}
+
+// localStorage key holding a key's payload as it was before an upgrade from version
+function backupKey(key: StorageKey, version: string): string {
+  return `${key}:backup:${version}`;
+}
+
+function generateId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// Error of a failed write; a full storage gets its own code so callers can explain it
+function toStorageError(error: unknown, code: string, message: string): StorageError {
+  if (isQuotaError(error)) {
+    return {
+      code: 'QUOTA_EXCEEDED',
+      message: 'Browser storage is full. Delete documents that are no longer needed and try again.',
+      details: error
+    };
+  }
+  return { code, message, details: error };
+}
+
+// Sort and slice items for one page
+function paginate<T>(items: T[], options: PaginationOptions): PaginatedResult<T> {
+  const data = [...items];
+
+  // Sort data
+  if (options.sortBy) {
+    data.sort((a, b) => {
+      const aVal = (a as Record<string, unknown>)[options.sortBy!];
+      const bVal = (b as Record<string, unknown>)[options.sortBy!];
+      
+      if (aVal < bVal) return options.sortOrder === 'desc' ? 1 : -1;
+      if (aVal > bVal) return options.sortOrder === 'desc' ? -1 : 1;
+      return 0;
+    });
+  }
+
+  // Calculate pagination
+  const total = data.length;
+  const totalPages = Math.ceil(total / options.limit);
+  const startIndex = (options.page - 1) * options.limit;
+  const endIndex = startIndex + options.limit;
+
+  return {
+    data: data.slice(startIndex, endIndex),
+    total,
+    page: options.page,
+    limit: options.limit,
+    totalPages
+  };
+}
+
 // Generic storage service class
-export class LocalStorageService<T extends BaseEntity> {
+export class LocalStorageService<T extends BaseEntity> implements StorageService<T> {
   private key: string;
   private version: string;
 
+  // version is the base version; keys with upgrade steps (see STORAGE_MIGRATIONS) use their latest
   constructor(key: StorageKey, version: string = STORAGE_VERSION) {
     this.key = key;
-    this.version = version;
+    this.version = storageVersion(key, version);
   }
 
   // Get all data from storage
@@ -31,15 +142,9 @@ export class LocalStorageService<T extends BaseEntity> {
 
       const parsed: StorageData<T> = JSON.parse(stored);
       
-      // Check version compatibility
+      // Upgrade data stored by an older version
       if (parsed.version !== this.version) {
-        return {
-          success: false,
-          error: {
-            code: 'VERSION_MISMATCH',
-            message: `Data version ${parsed.version} is incompatible with current version ${this.version}`
-          }
-        };
+        return this.upgrade(stored, parsed);
       }
 
       // Convert date strings back to Date objects
@@ -100,7 +205,7 @@ export class LocalStorageService<T extends BaseEntity> {
 
       const newItem: T = {
         ...item,
-        id: this.generateId(),
+        id: generateId(),
         createdAt: new Date(),
         updatedAt: new Date()
       } as T;
@@ -112,11 +217,7 @@ export class LocalStorageService<T extends BaseEntity> {
     } catch (error) {
       return {
         success: false,
-        error: {
-          code: 'CREATE_ERROR',
-          message: 'Failed to create item',
-          details: error
-        }
+        error: toStorageError(error, 'CREATE_ERROR', 'Failed to create item')
       };
     }
   }
@@ -157,11 +258,40 @@ export class LocalStorageService<T extends BaseEntity> {
     } catch (error) {
       return {
         success: false,
-        error: {
-          code: 'UPDATE_ERROR',
-          message: 'Failed to update item',
-          details: error
-        }
+        error: toStorageError(error, 'UPDATE_ERROR', 'Failed to update item')
+      };
+    }
+  }
+
+  // Update several items with a single write
+  async updateMany(updates: { id: string; changes: Partial<Omit<T, 'id' | 'createdAt'>> }[]): Promise<StorageResult<T[]>> {
+    try {
+      const result = await this.getAll();
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error
+        };
+      }
+
+      const changesById = new Map(updates.map(update => [update.id, update.changes]));
+      const updatedItems: T[] = [];
+      const updatedData = result.data.map(item => {
+        const changes = changesById.get(item.id);
+        if (!changes) return item;
+        const updatedItem: T = { ...item, ...changes, updatedAt: new Date() };
+        updatedItems.push(updatedItem);
+        return updatedItem;
+      });
+
+      if (updatedItems.length > 0) {
+        await this.saveAll(updatedData);
+      }
+      return { success: true, data: updatedItems };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError(error, 'UPDATE_ERROR', 'Failed to update items')
       };
     }
   }
@@ -193,11 +323,7 @@ export class LocalStorageService<T extends BaseEntity> {
     } catch (error) {
       return {
         success: false,
-        error: {
-          code: 'DELETE_ERROR',
-          message: 'Failed to delete item',
-          details: error
-        }
+        error: toStorageError(error, 'DELETE_ERROR', 'Failed to delete item')
       };
     }
   }
@@ -213,37 +339,7 @@ export class LocalStorageService<T extends BaseEntity> {
         };
       }
 
-      const data = [...result.data];
-
-      // Sort data
-      if (options.sortBy) {
-        data.sort((a, b) => {
-          const aVal = (a as Record<string, unknown>)[options.sortBy!];
-          const bVal = (b as Record<string, unknown>)[options.sortBy!];
-          
-          if (aVal < bVal) return options.sortOrder === 'desc' ? 1 : -1;
-          if (aVal > bVal) return options.sortOrder === 'desc' ? -1 : 1;
-          return 0;
-        });
-      }
-
-      // Calculate pagination
-      const total = data.length;
-      const totalPages = Math.ceil(total / options.limit);
-      const startIndex = (options.page - 1) * options.limit;
-      const endIndex = startIndex + options.limit;
-      const paginatedData = data.slice(startIndex, endIndex);
-
-      return {
-        success: true,
-        data: {
-          data: paginatedData,
-          total,
-          page: options.page,
-          limit: options.limit,
-          totalPages
-        }
-      };
+      return { success: true, data: paginate(result.data, options) };
     } catch (error) {
       return {
         success: false,
@@ -273,6 +369,56 @@ export class LocalStorageService<T extends BaseEntity> {
     }
   }
 
+  // Run the upgrade steps, keeping the payload as it was under a backup key when it fits. A failure
+  // leaves the payload untouched and is reported for the recovery screen.
+  private async upgrade(stored: string, parsed: StorageData<T>): Promise<StorageResult<T[]>> {
+    let data: T[];
+    try {
+      data = migrateItems(this.key, parsed.data, parsed.version, this.version);
+      this.backUp(stored, parsed.version);
+      await this.saveAll(data);
+    } catch (error) {
+      const failure = migrationError(parsed.version, this.version, error);
+      migrationFailures.report({
+        key: this.key,
+        fromVersion: parsed.version,
+        toVersion: this.version,
+        message: failure.message,
+        exportData: async () => stored,
+        discardData: async () => {
+          localStorage.removeItem(this.key);
+          localStorage.setItem(backupKey(this.key, parsed.version), stored);
+          migrationFailures.resolve(this.key);
+        },
+      });
+      return { success: false, error: failure };
+    }
+    migrationFailures.resolve(this.key);
+
+    return {
+      success: true,
+      data: data.map(item => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        updatedAt: new Date(item.updatedAt)
+      }))
+    };
+  }
+
+  // Keep the payload as it was before an upgrade. A second copy of a large key may not fit next to
+  // the first; the upgrade then goes ahead without a backup rather than failing.
+  private backUp(stored: string, version: string) {
+    try {
+      localStorage.setItem(backupKey(this.key, version), stored);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      debugLogger.warn('Stored items upgraded without a backup, browser storage is full', {
+        component: 'LocalStorageService',
+        operation: 'upgrade'
+      }, { key: this.key, fromVersion: version, size: stored.length });
+    }
+  }
+
   // Private helper methods
   private async saveAll(data: T[]): Promise<void> {
     const storageData: StorageData<T> = {
@@ -282,13 +428,586 @@ export class LocalStorageService<T extends BaseEntity> {
     };
     localStorage.setItem(this.key, JSON.stringify(storageData));
   }
+}
+
+const INDEXED_DB_NAME = 'dairo';
+const INDEXED_DB_VERSION = 2;
+const ITEMS_STORE = 'items'; // { storageKey, id, item }, keyed by [storageKey, id]
+const KEYS_STORE = 'keys'; // { storageKey, version, migratedAt }, one per storage key in use
+const BACKUPS_STORE = 'backups'; // { storageKey, version, createdAt, items }, items before an upgrade
+
+interface IndexedDBRecord {
+  storageKey: StorageKey;
+  id: string;
+  item: Record<string, unknown>;
+}
+
+let indexedDatabase: Promise<IDBDatabase> | null = null;
+
+function openIndexedDatabase(): Promise<IDBDatabase> {
+  if (!indexedDatabase) {
+    indexedDatabase = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(INDEXED_DB_NAME, INDEXED_DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const items = db.createObjectStore(ITEMS_STORE, { keyPath: ['storageKey', 'id'] });
+          items.createIndex('storageKey', 'storageKey');
+          db.createObjectStore(KEYS_STORE, { keyPath: 'storageKey' });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(BACKUPS_STORE, { keyPath: ['storageKey', 'version'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      indexedDatabase = null;
+      throw error;
+    });
+  }
+  return indexedDatabase;
+}
 
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+function requestResult<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once the transaction committed; quota errors surface here, when the write is flushed
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function base64ToBlob(base64: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
   }
+  return new Blob([bytes], { type: 'application/octet-stream' });
 }
 
-// Factory function to create storage services
-export function createStorageService<T extends BaseEntity>(key: StorageKey): LocalStorageService<T> {
-  return new LocalStorageService<T>(key);
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked, as String.fromCharCode cannot take millions of arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Storage keys whose localStorage data is being moved to IndexedDB, so services sharing a key
+// migrate it once
+const migrations = new Map<StorageKey, Promise<StorageResult<boolean>>>();
+// Storage keys whose items are being upgraded to a newer version
+const upgrades = new Map<StorageKey, Promise<StorageResult<boolean>>>();
+
+// Same API as LocalStorageService on IndexedDB, which holds far more than localStorage's ~5 MB.
+// File bytes (BLOB_FIELDS) are stored as Blobs and handed out as base64, like before. Data of the
+// key still in localStorage is moved over on first use.
+export class IndexedDBStorageService<T extends BaseEntity> implements StorageService<T> {
+  private key: StorageKey;
+  private version: string;
+  private blobFields: string[];
+
+  // version is the base version; keys with upgrade steps (see STORAGE_MIGRATIONS) use their latest
+  constructor(key: StorageKey, version: string = STORAGE_VERSION, blobFields: string[] = BLOB_FIELDS[key] || []) {
+    this.key = key;
+    this.version = storageVersion(key, version);
+    this.blobFields = blobFields;
+  }
+
+  async getAll(): Promise<StorageResult<T[]>> {
+    try {
+      const ready = await this.ready();
+      if (!ready.success) {
+        return { success: false, error: ready.error };
+      }
+
+      const db = await openIndexedDatabase();
+      const index = db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).index('storageKey');
+      const records: IndexedDBRecord[] = await requestResult(index.getAll(this.key));
+      const data = await Promise.all(records.map(record => this.fromRecord(record.item)));
+
+      // Records come back ordered by id; keep creation order as localStorage did
+      data.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      return { success: true, data };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'PARSE_ERROR',
+          message: 'Failed to read stored data',
+          details: error
+        }
+      };
+    }
+  }
+
+  async getById(id: string): Promise<StorageResult<T | null>> {
+    try {
+      const ready = await this.ready();
+      if (!ready.success) {
+        return { success: false, error: ready.error };
+      }
+
+      const db = await openIndexedDatabase();
+      const record: IndexedDBRecord | undefined = await requestResult(
+        db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).get([this.key, id])
+      );
+      return { success: true, data: record ? await this.fromRecord(record.item) : null };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'GET_ERROR',
+          message: 'Failed to get item by ID',
+          details: error
+        }
+      };
+    }
+  }
+
+  async create(item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): Promise<StorageResult<T>> {
+    try {
+      const ready = await this.ready();
+      if (!ready.success) {
+        return { success: false, error: ready.error };
+      }
+
+      const newItem = {
+        ...item,
+        id: generateId(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      } as T;
+
+      const db = await openIndexedDatabase();
+      const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+      transaction.objectStore(ITEMS_STORE).add(await this.toRecord(newItem));
+      await transactionDone(transaction);
+      return { success: true, data: newItem };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError(error, 'CREATE_ERROR', 'Failed to create item')
+      };
+    }
+  }
+
+  async update(id: string, updates: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<StorageResult<T>> {
+    const result = await this.updateMany([{ id, changes: updates }]);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    if (result.data.length === 0) {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Item not found'
+        }
+      };
+    }
+    return { success: true, data: result.data[0] };
+  }
+
+  // Update several items in one transaction; unknown ids are skipped
+  async updateMany(updates: { id: string; changes: Partial<Omit<T, 'id' | 'createdAt'>> }[]): Promise<StorageResult<T[]>> {
+    try {
+      const ready = await this.ready();
+      if (!ready.success) {
+        return { success: false, error: ready.error };
+      }
+
+      // Blobs are built before the transaction, which would commit while awaiting them
+      const changes = await Promise.all(updates.map(async update => ({
+        id: update.id,
+        changes: (await this.toRecord(update.changes as Partial<T>)).item,
+      })));
+
+      const db = await openIndexedDatabase();
+      const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+      const store = transaction.objectStore(ITEMS_STORE);
+      const updatedRecords: IndexedDBRecord[] = [];
+      for (const update of changes) {
+        const record: IndexedDBRecord | undefined = await requestResult(store.get([this.key, update.id]));
+        if (!record) continue;
+        const updatedRecord = { ...record, item: { ...record.item, ...update.changes, updatedAt: new Date() } };
+        store.put(updatedRecord);
+        updatedRecords.push(updatedRecord);
+      }
+      await transactionDone(transaction);
+
+      const data = await Promise.all(updatedRecords.map(record => this.fromRecord(record.item)));
+      return { success: true, data };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError(error, 'UPDATE_ERROR', updates.length === 1 ? 'Failed to update item' : 'Failed to update items')
+      };
+    }
+  }
+
+  async delete(id: string): Promise<StorageResult<boolean>> {
+    try {
+      const ready = await this.ready();
+      if (!ready.success) {
+        return { success: false, error: ready.error };
+      }
+
+      const db = await openIndexedDatabase();
+      const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+      const store = transaction.objectStore(ITEMS_STORE);
+      const count = await requestResult(store.count([this.key, id]));
+      if (count === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Item not found'
+          }
+        };
+      }
+      store.delete([this.key, id]);
+      await transactionDone(transaction);
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError(error, 'DELETE_ERROR', 'Failed to delete item')
+      };
+    }
+  }
+
+  async getPaginated(options: PaginationOptions): Promise<StorageResult<PaginatedResult<T>>> {
+    const result = await this.getAll();
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error
+      };
+    }
+    return { success: true, data: paginate(result.data, options) };
+  }
+
+  async clear(): Promise<StorageResult<boolean>> {
+    try {
+      const db = await openIndexedDatabase();
+      const transaction = db.transaction(ITEMS_STORE, 'readwrite');
+      // Every [storageKey, id]: arrays sort after strings, so [key, []] closes the range
+      transaction.objectStore(ITEMS_STORE).delete(IDBKeyRange.bound([this.key], [this.key, []]));
+      await transactionDone(transaction);
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'CLEAR_ERROR',
+          message: 'Failed to clear data',
+          details: error
+        }
+      };
+    }
+  }
+
+  // Move the key's localStorage data over once, then upgrade items stored by an older version
+  private async ready(): Promise<StorageResult<boolean>> {
+    if (!migrations.has(this.key)) {
+      migrations.set(this.key, this.migrateFromLocalStorage());
+    }
+    const migration = await migrations.get(this.key)!;
+    if (!migration.success) {
+      // Retry on next use, e.g. after the user freed some space
+      migrations.delete(this.key);
+      return migration;
+    }
+
+    const db = await openIndexedDatabase();
+    const key = await requestResult(db.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(this.key));
+    if (key && key.version !== this.version) {
+      if (!upgrades.has(this.key)) {
+        upgrades.set(this.key, this.upgrade(key.version).finally(() => upgrades.delete(this.key)));
+      }
+      return upgrades.get(this.key)!;
+    }
+    return { success: true, data: true };
+  }
+
+  // Run the upgrade steps and save the items together with a backup of them as they were, in one
+  // transaction. A failure leaves the items untouched and is reported for the recovery screen.
+  private async upgrade(fromVersion: string): Promise<StorageResult<boolean>> {
+    const db = await openIndexedDatabase();
+    const transaction = db.transaction([ITEMS_STORE, KEYS_STORE, BACKUPS_STORE], 'readwrite');
+    const items = transaction.objectStore(ITEMS_STORE);
+    const records: IndexedDBRecord[] = await requestResult(items.index('storageKey').getAll(this.key));
+
+    try {
+      const upgraded = migrateItems(this.key, records.map(record => record.item), fromVersion, this.version);
+      transaction.objectStore(BACKUPS_STORE).put({
+        storageKey: this.key,
+        version: fromVersion,
+        createdAt: new Date(),
+        items: records.map(record => record.item),
+      });
+      upgraded.forEach((item, index) => items.put({ ...records[index], item }));
+      const key = await requestResult(transaction.objectStore(KEYS_STORE).get(this.key));
+      transaction.objectStore(KEYS_STORE).put({ ...key, version: this.version });
+      await transactionDone(transaction);
+    } catch (error) {
+      // Nothing was written yet when a step failed; drop the pending requests
+      try {
+        transaction.abort();
+      } catch {
+        // Already aborted or committed
+      }
+      const failure = migrationError(fromVersion, this.version, error);
+      migrationFailures.report({
+        key: this.key,
+        fromVersion,
+        toVersion: this.version,
+        message: failure.message,
+        exportData: () => this.exportItems(fromVersion),
+        discardData: () => this.discardItems(fromVersion),
+      });
+      return { success: false, error: failure };
+    }
+
+    migrationFailures.resolve(this.key);
+    debugLogger.info('Stored items upgraded', {
+      component: 'IndexedDBStorageService',
+      operation: 'upgrade'
+    }, { key: this.key, count: records.length, fromVersion, toVersion: this.version });
+    return { success: true, data: true };
+  }
+
+  // The key's items as stored, with file bytes as base64, in the StorageData layout of localStorage
+  private async exportItems(version: string): Promise<string> {
+    const db = await openIndexedDatabase();
+    const index = db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).index('storageKey');
+    const records: IndexedDBRecord[] = await requestResult(index.getAll(this.key));
+    const data = await Promise.all(records.map(record => this.fromRecord(record.item)));
+    return JSON.stringify({ data, lastUpdated: new Date(), version }, null, 2);
+  }
+
+  // Move the items to the backups and start the key over, empty, at the current version
+  private async discardItems(version: string): Promise<void> {
+    const db = await openIndexedDatabase();
+    const transaction = db.transaction([ITEMS_STORE, KEYS_STORE, BACKUPS_STORE], 'readwrite');
+    const items = transaction.objectStore(ITEMS_STORE);
+    const records: IndexedDBRecord[] = await requestResult(items.index('storageKey').getAll(this.key));
+    transaction.objectStore(BACKUPS_STORE).put({
+      storageKey: this.key,
+      version,
+      createdAt: new Date(),
+      items: records.map(record => record.item),
+    });
+    items.delete(IDBKeyRange.bound([this.key], [this.key, []]));
+    const key = await requestResult(transaction.objectStore(KEYS_STORE).get(this.key));
+    transaction.objectStore(KEYS_STORE).put({ ...key, storageKey: this.key, version: this.version });
+    await transactionDone(transaction);
+    migrationFailures.resolve(this.key);
+  }
+
+  // Copy the items in one transaction, together with the marker that the key was migrated, and
+  // only then free the localStorage key
+  private async migrateFromLocalStorage(): Promise<StorageResult<boolean>> {
+    try {
+      const db = await openIndexedDatabase();
+      const migrated = await requestResult(db.transaction(KEYS_STORE).objectStore(KEYS_STORE).count(this.key));
+      if (migrated > 0) {
+        return { success: true, data: true };
+      }
+
+      // Items keep the version they were stored with; ready() upgrades them afterwards
+      const stored = localStorage.getItem(this.key);
+      const legacy: StorageData<T> = stored ? JSON.parse(stored) : { data: [], lastUpdated: new Date(), version: this.version };
+      const records = await Promise.all(legacy.data.map(item => this.toRecord({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        updatedAt: new Date(item.updatedAt)
+      })));
+
+      const transaction = db.transaction([ITEMS_STORE, KEYS_STORE], 'readwrite');
+      records.forEach(record => transaction.objectStore(ITEMS_STORE).put(record));
+      transaction.objectStore(KEYS_STORE).put({ storageKey: this.key, version: legacy.version, migratedAt: new Date() });
+      await transactionDone(transaction);
+
+      localStorage.removeItem(this.key);
+      if (records.length > 0) {
+        debugLogger.info('Stored items moved from localStorage', {
+          component: 'IndexedDBStorageService',
+          operation: 'migrateFromLocalStorage'
+        }, { key: this.key, count: records.length });
+      }
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: toStorageError(error, 'MIGRATION_ERROR', `Failed to move ${this.key} from localStorage to IndexedDB`)
+      };
+    }
+  }
+
+  private async toRecord(item: Partial<T>): Promise<IndexedDBRecord> {
+    const stored: Record<string, unknown> = { ...item };
+    for (const field of this.blobFields) {
+      if (typeof stored[field] === 'string') {
+        stored[field] = base64ToBlob(stored[field] as string);
+      }
+    }
+    return { storageKey: this.key, id: item.id as string, item: stored };
+  }
+
+  private async fromRecord(stored: Record<string, unknown>): Promise<T> {
+    const item: Record<string, unknown> = { ...stored };
+    for (const field of this.blobFields) {
+      if (item[field] instanceof Blob) {
+        item[field] = await blobToBase64(item[field] as Blob);
+      }
+    }
+    return item as unknown as T;
+  }
+}
+
+// Storage on the backend's SQLite database, one REST resource per storage key. Items are shared by
+// everyone using the same backend; every call is a request, nothing is cached. With a scope, the
+// service only lists and clears the items of the resource matching it, and stamps it on new items.
+export class ServerStorageService<T extends BaseEntity> implements StorageService<T> {
+  private url: string;
+  private scope: Record<string, string>;
+
+  constructor(resource: string, scope: Record<string, string> = {}, apiBaseUrl: string = API_BASE_URL) {
+    this.url = `${apiBaseUrl}/${resource}`;
+    this.scope = scope;
+  }
+
+  async getAll(): Promise<StorageResult<T[]>> {
+    const result = await this.request<T[]>(this.scopeQuery(), { method: 'GET' }, 'PARSE_ERROR', 'Failed to load stored data');
+    return result.success ? { success: true, data: (result.data || []).map(item => this.toEntity(item)) } : result;
+  }
+
+  async getById(id: string): Promise<StorageResult<T | null>> {
+    const result = await this.request<T | null>(`/${encodeURIComponent(id)}`, { method: 'GET' }, 'GET_ERROR', 'Failed to get item by ID');
+    return result.success ? { success: true, data: result.data ? this.toEntity(result.data) : null } : result;
+  }
+
+  async create(item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): Promise<StorageResult<T>> {
+    const result = await this.request<T>('', this.jsonBody('POST', { ...item, ...this.scope }), 'CREATE_ERROR', 'Failed to create item');
+    return result.success && result.data ? { success: true, data: this.toEntity(result.data) } : result;
+  }
+
+  async update(id: string, updates: Partial<Omit<T, 'id' | 'createdAt'>>): Promise<StorageResult<T>> {
+    const result = await this.request<T>(
+      `/${encodeURIComponent(id)}`,
+      this.jsonBody('PATCH', this.toChanges(updates)),
+      'UPDATE_ERROR',
+      'Failed to update item'
+    );
+    return result.success && result.data ? { success: true, data: this.toEntity(result.data) } : result;
+  }
+
+  async updateMany(updates: { id: string; changes: Partial<Omit<T, 'id' | 'createdAt'>> }[]): Promise<StorageResult<T[]>> {
+    if (updates.length === 0) {
+      return { success: true, data: [] };
+    }
+    const body = { updates: updates.map(update => ({ id: update.id, changes: this.toChanges(update.changes) })) };
+    const result = await this.request<T[]>('', this.jsonBody('PATCH', body), 'UPDATE_ERROR', 'Failed to update items');
+    return result.success ? { success: true, data: (result.data || []).map(item => this.toEntity(item)) } : result;
+  }
+
+  async delete(id: string): Promise<StorageResult<boolean>> {
+    return this.request<boolean>(`/${encodeURIComponent(id)}`, { method: 'DELETE' }, 'DELETE_ERROR', 'Failed to delete item');
+  }
+
+  async getPaginated(options: PaginationOptions): Promise<StorageResult<PaginatedResult<T>>> {
+    const result = await this.getAll();
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error
+      };
+    }
+    return { success: true, data: paginate(result.data, options) };
+  }
+
+  async clear(): Promise<StorageResult<boolean>> {
+    return this.request<boolean>(this.scopeQuery(), { method: 'DELETE' }, 'CLEAR_ERROR', 'Failed to clear data');
+  }
+
+  private scopeQuery(): string {
+    const query = new URLSearchParams(this.scope).toString();
+    return query ? `?${query}` : '';
+  }
+
+  // The server answers with a StorageResult; network failures and non-JSON replies become one too
+  private async request<R>(path: string, init: RequestInit, code: string, message: string): Promise<StorageResult<R>> {
+    try {
+      const response = await fetch(`${this.url}${path}`, init);
+      const result: StorageResult<R> = await response.json();
+      if (!response.ok || !result.success) {
+        return { success: false, error: result.error || { code, message: `${message} (HTTP ${response.status})` } };
+      }
+      return result;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code,
+          message: `${message}: the server is unreachable`,
+          details: error
+        }
+      };
+    }
+  }
+
+  private jsonBody(method: string, body: unknown): RequestInit {
+    return {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    };
+  }
+
+  // JSON drops undefined, so fields cleared by setting them to undefined are sent as null
+  private toChanges(updates: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value === undefined ? null : value]));
+  }
+
+  // Convert date strings back to Date objects, as LocalStorageService does. Scope fields are not
+  // part of the item in the browser storages either.
+  private toEntity(item: T): T {
+    const entity = {
+      ...item,
+      createdAt: new Date(item.createdAt),
+      updatedAt: new Date(item.updatedAt)
+    };
+    Object.keys(this.scope).forEach(field => delete entity[field as keyof T]);
+    return entity;
+  }
+}
+
+// Factory function to create storage services. Keys with a server resource use the backend when
+// VITE_STORAGE_BACKEND is 'server'; everything else stays in the browser, in IndexedDB unless
+// VITE_STORAGE_BACKEND is 'local' or the browser has no IndexedDB.
+export function createStorageService<T extends BaseEntity>(key: StorageKey, version?: string): StorageService<T> {
+  if (STORAGE_BACKEND === 'server' && SERVER_RESOURCES[key]) {
+    return new ServerStorageService<T>(SERVER_RESOURCES[key]);
+  }
+  const projectPrefix = Object.keys(SERVER_PROJECT_RESOURCES).find(prefix => key.startsWith(prefix));
+  if (STORAGE_BACKEND === 'server' && projectPrefix) {
+    return new ServerStorageService<T>(SERVER_PROJECT_RESOURCES[projectPrefix], { projectId: key.slice(projectPrefix.length) });
+  }
+  if (STORAGE_BACKEND !== 'local' && typeof indexedDB !== 'undefined') {
+    return new IndexedDBStorageService<T>(key, version);
+  }
+  return new LocalStorageService<T>(key, version);
 }
@@ -11,17 +11,101 @@ export type StorageKey = string;
 export interface Project extends BaseEntity {
   name: string;
   description?: string;
+  chunking?: ChunkingSettings; // Defaults apply when omitted
+  reranking?: RerankingSettings; // Defaults apply when omitted
+  archivedAt?: Date; // Set while the project is archived: read-only and hidden from the project selector
+}
+
+// How documents are split for indexing: along headings and numbered clauses, by sentences
+// regardless of structure, or in fixed-size character windows
+export type ChunkingStrategy = 'sections' | 'sentences' | 'fixed';
+
+export interface ChunkingConfig {
+  strategy?: ChunkingStrategy; // 'sections' if omitted
+  maxChunkSize: number; // Characters
+  overlapSize: number; // Characters repeated from the end of the previous chunk
+  minChunkSize: number; // Shorter chunks are merged into their neighbour
+}
+
+// Chunking profile of a project, with overrides keyed by Document.documentType (e.g. "Spreadsheet")
+export interface ChunkingSettings {
+  default: ChunkingConfig;
+  byDocumentType?: Record<string, ChunkingConfig>;
+}
+
+// Second-stage ranking of retrieved chunks before they reach the answer model: none (retrieval
+// order), a lexical heuristic, LLM relevance scoring or a self-hosted cross-encoder
+export type RerankerKind = 'none' | 'lexical' | 'llm' | 'cross-encoder';
+
+export interface RerankingSettings {
+  reranker: RerankerKind;
+  candidateCount: number; // Chunks retrieved for reranking
+  topN: number; // Best chunks kept after reranking
+}
+
+// Why a chunk was chosen as evidence
+export interface EvidenceRanking {
+  reranker: RerankerKind;
+  retrievalRank: number; // 1-based position in the search results
+  retrievalScore: number;
+  rerank: number; // 1-based position after reranking
+  rerankScore?: number; // 0-1, omitted without a reranker
+  reason?: string; // Reranker's explanation, when it gives one
 }
 
 // Document processing status
 export type ProcessingStatus = 'not_started' | 'processing' | 'completed' | 'failed';
 
+// Text extracted from a single page of a paginated document
+export interface DocumentPage {
+  pageNumber: number; // 1-based page number
+  text: string;
+  source?: 'text' | 'ocr'; // Where the text came from; text layer if omitted
+  ocrConfidence?: number; // Mean OCR word confidence (0-100) for OCR'd pages
+}
+
+// A non-empty row of a worksheet; cells line up with DocumentSheet.columns
+export interface DocumentSheetRow {
+  rowNumber: number; // 1-based row number as shown in the spreadsheet
+  cells: string[];
+}
+
+// Worksheet of an uploaded spreadsheet, kept row by row for table-aware indexing
+export interface DocumentSheet {
+  name: string;
+  columns: string[]; // Column letters (A, B, ...) of the used range
+  headerRowNumber?: number; // Row holding the column headers, if one was detected
+  rows: DocumentSheetRow[];
+}
+
+// Folder in a project's data room. Index numbers (1, 1.1, 1.1.2) follow from the
+// folder tree and are kept up to date by the folder service.
+export interface DocumentFolder extends BaseEntity {
+  projectId: string;
+  name: string;
+  parentId: string | null; // null for top-level folders
+  position: number; // Order among the parent's folders and documents
+  indexNumber?: string;
+}
+
 // Document interface
 export interface Document extends BaseEntity {
   fileName: string;
   documentType: string; // pdf, word, etc.
   content: string; // base64 encoded byte data for localStorage compatibility
   rawText: string;
+  pages?: DocumentPage[]; // Per-page text for paginated formats (PDF)
+  sheets?: DocumentSheet[]; // Per-sheet rows for spreadsheets (XLSX, CSV)
+  folderPath?: string; // Path of the containing folder, e.g. "Legal/Material Contracts"
+  folderId?: string | null; // Containing DocumentFolder; top level when empty
+  position?: number; // Order among the folder's folders and documents
+  indexNumber?: string; // Data-room index number, e.g. "3.2.4"
+  category?: string; // Subject area, from the question categories (e.g. "Human Resources"); unset when uncategorized
+  versionGroupId?: string; // Logical document shared by all versions (the first version's id)
+  versionNumber?: number; // 1-based; documents uploaded once are version 1
+  supersededById?: string; // Newer version that replaced this one; unset on the current version
+  contentHash?: string; // SHA-256 of the file bytes, for exact duplicate detection
+  textSignature?: number[]; // MinHash of the extracted text, for near-duplicate detection
   userId: string;
   projectId: string;
   processingStatus: ProcessingStatus;
@@ -37,6 +121,13 @@ export interface QuestionAnswer extends BaseEntity {
   content: string;
   documentId: string; // The document that contains this answer
   compliant: boolean; // true if the answer is compliant to the question, false if it answers but is not compliant
+  sectionPath?: string; // Section of the document the answer was found in, e.g. "12. Termination > 12.3 Change of Control"
+  startOffset?: number; // Passage of the document's rawText supporting the answer
+  endOffset?: number;
+  pageNumber?: number; // Page of the passage, for paginated documents
+  ranking?: EvidenceRanking; // Ranking of the chunk the answer was taken from
+  stale?: boolean; // The cited document was replaced by a newer version since the answer was found
+  replacedByDocumentId?: string; // Version that replaced the cited document
 }
 
 
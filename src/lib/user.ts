@@ -1,4 +1,4 @@
-import { LocalStorageService } from "./storage";
+import { createStorageService } from "./storage";
 import { BaseEntity } from "./types";
 
 export enum Role {
@@ -20,10 +20,10 @@ export class UserStorage {
     USER_STORAGE_KEY = 'storage/src/lib/user.ts:main';
     USER_VERSION_KEY = '1.0';
     CURRENT_USER_KEY = 'storage/src/lib/user.ts:current';
-    private localStorage = new LocalStorageService<User>(this.USER_STORAGE_KEY, this.USER_VERSION_KEY);
+    private storage = createStorageService<User>(this.USER_STORAGE_KEY, this.USER_VERSION_KEY);
     
     async create(name: string, role: Role): Promise<User> {
-        const result = await this.localStorage.create({ name, role });
+        const result = await this.storage.create({ name, role });
         if (!result.success || !result.data) {
             throw new Error(result.error?.message || 'Failed to create user');
         }
@@ -31,7 +31,7 @@ export class UserStorage {
     }
     
     async list(role?: Role): Promise<User[]> {
-        const result = await this.localStorage.getAll();
+        const result = await this.storage.getAll();
         if (!result.success || !result.data) {
             return [];
         }
@@ -42,7 +42,7 @@ export class UserStorage {
     }
     
     async delete(id: UserId): Promise<void> {
-        const result = await this.localStorage.delete(id);
+        const result = await this.storage.delete(id);
         if (!result.success) {
             throw new Error(result.error?.message || 'Failed to delete user');
         }
@@ -55,7 +55,7 @@ export class UserStorage {
     }
     
     async getById(id: UserId): Promise<User | null> {
-        const result = await this.localStorage.getById(id);
+        const result = await this.storage.getById(id);
         if (!result.success) {
             return null;
         }
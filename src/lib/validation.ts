@@ -1,4 +1,4 @@
-import { Question, Answer, User, AppSettings, Project } from './types';
+import { Question, Answer, User, AppSettings, Project, ChunkingConfig, ChunkingSettings, RerankingSettings } from './types';
 
 // Validation error interface
 export interface ValidationError {
@@ -250,6 +250,92 @@ export function validateProject(project: Partial<Project>): ValidationResult {
     if (descriptionMaxError) errors.push(descriptionMaxError);
   }
 
+  if (project.chunking) {
+    errors.push(...validateChunkingSettings(project.chunking).errors);
+  }
+
+  if (project.reranking) {
+    errors.push(...validateRerankingSettings(project.reranking).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Chunking profile validation
+export function validateChunkingConfig(config: Partial<ChunkingConfig>, fieldPrefix = 'chunking'): ValidationResult {
+  const errors: ValidationError[] = [];
+  const field = (name: string) => `${fieldPrefix}.${name}`;
+
+  const strategyError = validators.oneOf(config.strategy, ['sections', 'sentences', 'fixed'], field('strategy'));
+  if (strategyError) errors.push(strategyError);
+
+  for (const name of ['maxChunkSize', 'overlapSize', 'minChunkSize'] as const) {
+    const requiredError = validators.required(config[name], field(name));
+    if (requiredError) errors.push(requiredError);
+
+    const positiveError = validators.positiveNumber(config[name] as number, field(name));
+    if (positiveError) errors.push(positiveError);
+  }
+
+  if (config.maxChunkSize !== undefined && config.maxChunkSize < 50) {
+    errors.push({ field: field('maxChunkSize'), message: `${field('maxChunkSize')} must be at least 50`, code: 'TOO_SMALL' });
+  }
+  if (config.maxChunkSize !== undefined && config.overlapSize !== undefined && config.overlapSize >= config.maxChunkSize) {
+    errors.push({ field: field('overlapSize'), message: `${field('overlapSize')} must be smaller than the chunk size`, code: 'TOO_LARGE' });
+  }
+  if (config.maxChunkSize !== undefined && config.minChunkSize !== undefined && config.minChunkSize > config.maxChunkSize) {
+    errors.push({ field: field('minChunkSize'), message: `${field('minChunkSize')} cannot exceed the chunk size`, code: 'TOO_LARGE' });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+export function validateChunkingSettings(settings: Partial<ChunkingSettings>): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const defaultError = validators.required(settings.default, 'chunking.default');
+  if (defaultError) errors.push(defaultError);
+  if (settings.default) {
+    errors.push(...validateChunkingConfig(settings.default, 'chunking.default').errors);
+  }
+
+  for (const [documentType, config] of Object.entries(settings.byDocumentType || {})) {
+    errors.push(...validateChunkingConfig(config, `chunking.${documentType}`).errors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+// Reranking settings validation
+export function validateRerankingSettings(settings: Partial<RerankingSettings>): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const rerankerError = validators.required(settings.reranker, 'reranking.reranker')
+    || validators.oneOf(settings.reranker, ['none', 'lexical', 'llm', 'cross-encoder'], 'reranking.reranker');
+  if (rerankerError) errors.push(rerankerError);
+
+  for (const name of ['candidateCount', 'topN'] as const) {
+    const value = settings[name];
+    const requiredError = validators.required(value, `reranking.${name}`);
+    if (requiredError) errors.push(requiredError);
+    if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > 100)) {
+      errors.push({ field: `reranking.${name}`, message: `reranking.${name} must be a whole number from 1 to 100`, code: 'OUT_OF_RANGE' });
+    }
+  }
+
+  if (settings.candidateCount !== undefined && settings.topN !== undefined && settings.topN > settings.candidateCount) {
+    errors.push({ field: 'reranking.topN', message: 'reranking.topN cannot exceed the candidate count', code: 'TOO_LARGE' });
+  }
+
   return {
     isValid: errors.length === 0,
     errors
@@ -6,15 +6,24 @@ import { DashboardHeader } from "@/components/DashboardHeader";
 import { DocumentUpload } from "@/components/DocumentUpload";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, FileText, CheckCircle2, Trash2 } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ArrowLeft, FileText, CheckCircle2, Trash2, SlidersHorizontal, ListOrdered, Download, Archive } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useUserContext } from "@/contexts/UserContext";
-import { useActiveProject } from "@/hooks/useStorage";
-import { documentService } from "@/lib/services/document";
-import { AnswerService } from "@/lib/answer";
+import { useActiveProject, useProjects } from "@/hooks/useStorage";
+import { documentService, isArchiveFile } from "@/lib/services/document";
+import { AnswerService, ReindexResult } from "@/lib/answer";
+import { QuestionAnalyzerService } from "@/lib/services/questionAnalyzer";
+import { projectBundleService } from "@/lib/services/projectBundle";
+import { DuplicateUploadDialog } from "@/components/DuplicateUploadDialog";
+import { useDuplicateResolver } from "@/hooks/useDuplicateResolver";
+import { ChunkingSettingsDialog } from "@/components/ChunkingSettingsDialog";
+import { RerankingSettingsDialog } from "@/components/RerankingSettingsDialog";
+import { ArchivedProjectNotice } from "@/components/ArchivedProjectNotice";
 import { Document } from "@/lib/types";
 
 const answerService = new AnswerService();
+const questionAnalyzerService = new QuestionAnalyzerService();
 
 export default function Answers() {
   const [isUploading, setIsUploading] = useState(false);
@@ -23,10 +32,17 @@ export default function Answers() {
   const [previousDocuments, setPreviousDocuments] = useState<Document[]>([]);
   const [indexedDocumentIds, setIndexedDocumentIds] = useState<Set<string>>(new Set());
   const [isLoadingDocuments, setIsLoadingDocuments] = useState(false);
+  const [isChunkingSettingsOpen, setIsChunkingSettingsOpen] = useState(false);
+  const [isRerankingSettingsOpen, setIsRerankingSettingsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
   const { currentUser } = useUserContext();
-  const { activeProject } = useActiveProject();
+  const { activeProject, clearActive } = useActiveProject();
+  const { archive, deleteProject } = useProjects();
+  const [isChangingProject, setIsChangingProject] = useState(false);
+  const readOnly = !!activeProject?.archivedAt;
+  const { pending: pendingDuplicate, resolveDuplicate, respond: respondToDuplicate, reset: resetDuplicates } = useDuplicateResolver();
 
   const loadPreviousDocuments = async () => {
     if (!activeProject) return;
@@ -34,7 +50,7 @@ export default function Answers() {
     setIsLoadingDocuments(true);
     try {
       const [documents, indexedIds] = await Promise.all([
-        documentService.getDocumentsByProject(activeProject.id),
+        documentService.getCurrentDocumentsByProject(activeProject.id),
         answerService.getIndexedDocumentIds(activeProject.id)
       ]);
 
@@ -60,19 +76,64 @@ export default function Answers() {
     setIsUploading(true);
     setUploadError(null);
     const uploadedFileNames: string[] = [];
+    let skipped = 0;
+    // Uploads whose content was already indexed under another document
+    let alreadyIndexed = 0;
 
     try {
       for (const file of files) {
+        if (isArchiveFile(file.name)) {
+          // Unpack the data room and index every file it contains
+          const result = await documentService.uploadArchive(file, currentUser.id, activeProject.id, resolveDuplicate);
+          if (!result.success || !result.data) {
+            throw new Error(result.error || `Failed to upload ${file.name}`);
+          }
+
+          for (const document of result.data) {
+            if (!(await answerService.uploadAnswerDocument(activeProject.id, document))) {
+              alreadyIndexed++;
+            }
+            // Files that replaced a duplicate were stored as new versions
+            if ((document.versionNumber || 1) > 1) {
+              const previous = (await documentService.getVersions(document.id))[1];
+              if (previous) await questionAnalyzerService.markAnswersStale(previous.id, document.id);
+            }
+            uploadedFileNames.push(document.folderPath ? `${document.folderPath}/${document.fileName}` : document.fileName);
+          }
+          skipped += result.skipped?.length || 0;
+          if (result.errors && result.errors.length > 0) {
+            toast({
+              title: "Some Files Skipped",
+              description: `${result.errors.length} file(s) in ${file.name} could not be uploaded.`,
+              variant: "destructive",
+            });
+          }
+          continue;
+        }
+
         // Upload document using the document service
         const result = await documentService.uploadDocument(
           file,
           currentUser.id,
-          activeProject.id
+          activeProject.id,
+          {},
+          resolveDuplicate
         );
 
         if (result.success && result.data) {
-          // Index the document for questions using the answer service
-          await answerService.uploadAnswerDocument(activeProject.id, result.data);
+          // Index the document for questions using the answer service. A skipped duplicate's
+          // existing document is indexed instead, unless it already is.
+          const indexed = await answerService.uploadAnswerDocument(activeProject.id, result.data);
+          if (result.duplicate?.resolution === 'skip') {
+            skipped++;
+            continue;
+          }
+          if (!indexed) {
+            alreadyIndexed++;
+          }
+          if (result.duplicate?.resolution === 'replace') {
+            await questionAnalyzerService.markAnswersStale(result.duplicate.document.id, result.data.id);
+          }
           uploadedFileNames.push(file.name);
         } else {
           throw new Error(result.error || 'Failed to upload document');
@@ -81,9 +142,12 @@ export default function Answers() {
 
       setUploadedFiles(uploadedFileNames);
       await loadPreviousDocuments(); // Refresh the documents list
+      const indexedCount = uploadedFileNames.length - alreadyIndexed;
       toast({
-        title: "Upload Successful",
-        description: `${uploadedFileNames.length} document(s) uploaded and indexed successfully.`,
+        title: indexedCount > 0 ? "Upload Successful" : "Already Indexed",
+        description: ((indexedCount > 0 ? `${indexedCount} document(s) uploaded and indexed successfully.` : '') +
+          (alreadyIndexed > 0 ? ` ${alreadyIndexed} document(s) uploaded; their content was already indexed.` : '') +
+          (skipped > 0 ? ` ${skipped} duplicate(s) skipped.` : '')).trim(),
         variant: "default",
       });
     } catch (error) {
@@ -95,10 +159,87 @@ export default function Answers() {
         variant: "destructive",
       });
     } finally {
+      resetDuplicates();
       setIsUploading(false);
     }
   };
 
+  const handleReindexed = async (result: ReindexResult) => {
+    await loadPreviousDocuments();
+    toast({
+      title: result.failed.length > 0 ? "Re-index Incomplete" : "Re-index Complete",
+      description: `${result.indexed} document(s) re-indexed` +
+        (result.failed.length > 0 ? `, ${result.failed.length} failed.` : '.'),
+      variant: result.failed.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleExportProject = async () => {
+    if (!activeProject) return;
+
+    setIsExporting(true);
+    try {
+      const result = await projectBundleService.exportProject(activeProject.id);
+      if (!result.success || !result.data) {
+        toast({
+          title: "Export Failed",
+          description: result.error || "Failed to export the project.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const url = URL.createObjectURL(result.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${activeProject.name.replace(/[^\w-]+/g, '-')}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleArchiveProject = async () => {
+    if (!activeProject) return;
+
+    setIsChangingProject(true);
+    const result = await archive(activeProject.id);
+    if (result.success) {
+      // Pages keep their own copy of the active project; reload so they turn read-only
+      window.location.reload();
+    } else {
+      toast({
+        title: "Archive Failed",
+        description: result.error || "Failed to archive the project.",
+        variant: "destructive",
+      });
+      setIsChangingProject(false);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!activeProject) return;
+
+    setIsChangingProject(true);
+    const result = await deleteProject(activeProject.id);
+    if (result.success && result.data) {
+      await clearActive();
+      toast({
+        title: "Project Deleted",
+        description: `${activeProject.name} was deleted with ${result.data.documents} document(s), ${result.data.questions} question(s) and ${result.data.questionAnswers} answer(s).`,
+      });
+      navigate('/');
+    } else {
+      toast({
+        title: "Delete Failed",
+        description: `${result.error || "Failed to delete the project."} Nothing was deleted.`,
+        variant: "destructive",
+      });
+      setIsChangingProject(false);
+    }
+  };
+
   const handleGoBack = () => {
     navigate(-1);
   };
@@ -134,13 +275,92 @@ export default function Answers() {
               </div>
             </div>
 
+            {activeProject?.archivedAt && <ArchivedProjectNotice project={activeProject} />}
+
             {activeProject && (
               <Card className="mb-6">
                 <CardHeader className="pb-3">
-                  <CardTitle className="text-h3 flex items-center gap-2">
-                    <FileText className="h-5 w-5" />
-                    Project: {activeProject.name}
-                  </CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-h3 flex items-center gap-2">
+                      <FileText className="h-5 w-5" />
+                      Project: {activeProject.name}
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleExportProject}
+                        disabled={isExporting}
+                        className="flex items-center gap-2"
+                      >
+                        <Download className="h-4 w-4" />
+                        {isExporting ? 'Exporting...' : 'Export'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsRerankingSettingsOpen(true)}
+                        disabled={readOnly}
+                        className="flex items-center gap-2"
+                      >
+                        <ListOrdered className="h-4 w-4" />
+                        Reranking
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsChunkingSettingsOpen(true)}
+                        disabled={readOnly}
+                        className="flex items-center gap-2"
+                      >
+                        <SlidersHorizontal className="h-4 w-4" />
+                        Chunking Settings
+                      </Button>
+                      {!readOnly && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleArchiveProject}
+                          disabled={isChangingProject}
+                          className="flex items-center gap-2"
+                        >
+                          <Archive className="h-4 w-4" />
+                          Archive
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isChangingProject}
+                            className="flex items-center gap-2 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Project</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Delete {activeProject.name} with all its documents, folders, questions, answers and its
+                              search index? This cannot be undone; export the project first to keep a copy.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={handleDeleteProject}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete Project
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <p className="text-body-sm text-muted-foreground">
@@ -177,8 +397,12 @@ export default function Answers() {
                             <div className="flex items-center gap-3">
                               <FileText className="h-4 w-4 text-muted-foreground" />
                               <div>
-                                <div className="font-medium text-sm">{document.fileName}</div>
+                                <div className="font-medium text-sm">
+                                  {document.indexNumber && <span className="font-mono text-muted-foreground mr-1">{document.indexNumber}</span>}
+                                  {document.fileName}
+                                </div>
                                 <div className="text-xs text-muted-foreground">
+                                  {document.folderPath && <>{document.folderPath} • </>}
                                   {document.documentType} • Uploaded {new Date(document.createdAt).toLocaleDateString()}
                                 </div>
                               </div>
@@ -204,15 +428,17 @@ export default function Answers() {
               </Card>
             )}
 
-            <div className="max-w-4xl">
-              <DocumentUpload
-                onUpload={handleUpload}
-                loading={isUploading}
-                error={uploadError}
-                maxFiles={20}
-                acceptedTypes={['.pdf', '.doc', '.docx', '.txt', '.rtf']}
-              />
-            </div>
+            {!readOnly && (
+              <div className="max-w-4xl">
+                <DocumentUpload
+                  onUpload={handleUpload}
+                  loading={isUploading}
+                  error={uploadError}
+                  maxFiles={20}
+                  acceptedTypes={['.pdf', '.doc', '.docx', '.txt', '.rtf', '.odt', '.xlsx', '.xls', '.csv', '.png', '.jpg', '.jpeg', '.tif', '.tiff', '.zip']}
+                />
+              </div>
+            )}
 
             {uploadedFiles.length > 0 && (
               <Card className="max-w-4xl">
@@ -268,6 +494,23 @@ export default function Answers() {
           </main>
         </div>
       </div>
+
+      <DuplicateUploadDialog pending={pendingDuplicate} onRespond={respondToDuplicate} />
+      {activeProject && (
+        <ChunkingSettingsDialog
+          projectId={activeProject.id}
+          isOpen={isChunkingSettingsOpen}
+          onClose={() => setIsChunkingSettingsOpen(false)}
+          onReindexed={handleReindexed}
+        />
+      )}
+      {activeProject && (
+        <RerankingSettingsDialog
+          projectId={activeProject.id}
+          isOpen={isRerankingSettingsOpen}
+          onClose={() => setIsRerankingSettingsOpen(false)}
+        />
+      )}
     </SidebarProvider>
   );
 };
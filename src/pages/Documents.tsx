@@ -1,26 +1,152 @@
-import { useEffect } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { SidebarProvider } from "@/components/ui/sidebar"
 import { AppSidebar } from "@/components/AppSidebar"
 import { DashboardHeader } from "@/components/DashboardHeader"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { FileText, Calendar, User, Download, Loader2, AlertCircle } from "lucide-react"
+import { FileText, Calendar, User, Download, Loader2, AlertCircle, Folder, Pencil, FolderInput, FileUp, History } from "lucide-react"
 import { useDocumentService } from "@/hooks/useDocumentService"
 import { useActiveProject } from "@/hooks/useStorage"
 import { useUserContext } from "@/contexts/UserContext"
+import { useToast } from "@/hooks/use-toast"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FolderTreeNavigator } from "@/components/FolderTreeNavigator"
+import { MoveDialog, NameDialog } from "@/components/DocumentTreeDialogs"
+import { DocumentVersionsDialog } from "@/components/DocumentVersionsDialog"
+import { ArchivedProjectNotice } from "@/components/ArchivedProjectNotice"
+import { buildFolderTree, FolderTreeNode } from "@/lib/services/folder"
+import { QuestionCategory } from "@/lib/services/question"
+import { Document, DocumentFolder } from "@/lib/types"
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+// Select value of documents without a category
+const NO_CATEGORY = 'none'
+
+// Dialog currently open on the page
+type TreeDialog =
+  | { kind: 'create-folder'; parentId: string | null }
+  | { kind: 'rename-folder'; folder: DocumentFolder }
+  | { kind: 'move-folder'; folder: DocumentFolder }
+  | { kind: 'rename-document'; document: Document }
+  | { kind: 'move-document'; document: Document }
+
+// Find a folder's node in the tree
+function findNode(nodes: FolderTreeNode[], folderId: string): FolderTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.folder.id === folderId) return node
+    const found = findNode(node.children, folderId)
+    if (found) return found
+  }
+  return undefined
+}
+
+// Documents of a folder and its sub-folders, in index order
+function collectDocuments(node: FolderTreeNode): Document[] {
+  return [...node.documents, ...node.children.flatMap(collectDocuments)]
+}
 
 const Documents = () => {
   const { activeProject } = useActiveProject()
   const { currentUser } = useUserContext()
-  const { documents, loading, error, loadDocuments, deleteDocument } = useDocumentService()
+  const { toast } = useToast()
+  const {
+    documents,
+    folders,
+    loading,
+    error,
+    loadDocuments,
+    deleteDocument,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveDocument,
+    renameDocument,
+    setDocumentCategory,
+    uploadNewVersion,
+    getVersions,
+  } = useDocumentService()
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
+  const [dialog, setDialog] = useState<TreeDialog | null>(null)
+  const [historyDocument, setHistoryDocument] = useState<Document | null>(null)
+  const versionInputRef = useRef<HTMLInputElement>(null)
+  const versionTargetRef = useRef<Document | null>(null)
 
   useEffect(() => {
     if (activeProject?.id) {
       loadDocuments(activeProject.id)
+      setSelectedFolderId(null)
     }
   }, [activeProject, loadDocuments])
 
+  const tree = useMemo(() => buildFolderTree(folders, documents), [folders, documents])
+  const readOnly = !!activeProject?.archivedAt
+  const selectedNode = selectedFolderId ? findNode(tree.folders, selectedFolderId) : undefined
+
+  // Data-room documents are listed in index order, folder by folder
+  const visibleDocuments = selectedNode
+    ? collectDocuments(selectedNode)
+    : [...documents].sort((a, b) =>
+        naturalOrder.compare(a.indexNumber || '', b.indexNumber || '') ||
+        naturalOrder.compare(a.fileName, b.fileName)
+      )
+
+  const handleDeleteFolder = async (folder: DocumentFolder) => {
+    if (!activeProject) return
+    const result = await deleteFolder(activeProject.id, folder.id)
+    if (result.success) {
+      if (selectedFolderId === folder.id) setSelectedFolderId(folder.parentId)
+    } else {
+      toast({
+        title: "Delete Failed",
+        description: result.error || 'Failed to delete folder',
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCategoryChange = async (doc: Document, value: string) => {
+    if (!activeProject) return
+    const result = await setDocumentCategory(activeProject.id, doc.id, value === NO_CATEGORY ? undefined : value)
+    if (!result.success) {
+      toast({
+        title: "Update Failed",
+        description: result.error || 'Failed to update category',
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSelectNewVersion = (doc: Document) => {
+    versionTargetRef.current = doc
+    versionInputRef.current?.click()
+  }
+
+  const handleNewVersionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    const target = versionTargetRef.current
+    e.target.value = ''
+    if (!file || !target || !currentUser) return
+
+    const result = await uploadNewVersion(target.id, file, currentUser.id)
+    if (result.success && result.data) {
+      toast({
+        title: "New Version Uploaded",
+        description: result.staleAnswers
+          ? `${result.data.fileName} is now v${result.data.versionNumber}. ${result.staleAnswers} answer(s) citing the previous version are marked stale.`
+          : `${result.data.fileName} is now v${result.data.versionNumber}.`,
+      })
+    } else {
+      toast({
+        title: "Upload Failed",
+        description: result.error || 'Failed to upload new version',
+        variant: "destructive",
+      })
+    }
+  }
+
   const formatFileSize = (base64Content: string) => {
     const sizeInBytes = Math.round((base64Content.length * 3) / 4)
     if (sizeInBytes < 1024) return `${sizeInBytes} B`
@@ -65,6 +191,8 @@ const Documents = () => {
               </p>
             </div>
 
+            {activeProject?.archivedAt && <ArchivedProjectNotice project={activeProject} />}
+
             {!activeProject ? (
               <Card className="shadow-subtle">
                 <CardContent className="p-6">
@@ -96,19 +224,35 @@ const Documents = () => {
               <Card className="shadow-subtle">
                 <CardHeader>
                   <CardTitle className="text-h3">
-                    All Documents ({documents.length})
+                    {selectedNode
+                      ? `${selectedNode.folder.indexNumber ? `${selectedNode.folder.indexNumber} ` : ''}${selectedNode.folder.name} (${visibleDocuments.length})`
+                      : `All Documents (${documents.length})`}
                   </CardTitle>
                 </CardHeader>
-                <CardContent>
-                  {documents.length === 0 ? (
+                <CardContent className="flex gap-6">
+                  <div className="w-72 shrink-0 border-r border-border pr-4">
+                    <FolderTreeNavigator
+                      tree={tree}
+                      totalDocuments={documents.length}
+                      selectedFolderId={selectedNode ? selectedFolderId : null}
+                      onSelect={setSelectedFolderId}
+                      onCreateFolder={(parentId) => setDialog({ kind: 'create-folder', parentId })}
+                      onRenameFolder={(folder) => setDialog({ kind: 'rename-folder', folder })}
+                      onMoveFolder={(folder) => setDialog({ kind: 'move-folder', folder })}
+                      onDeleteFolder={handleDeleteFolder}
+                      readOnly={readOnly}
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                  {visibleDocuments.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                      <p>No documents uploaded yet</p>
+                      <p>{selectedNode ? 'This folder is empty' : 'No documents uploaded yet'}</p>
                       <p className="text-sm mt-2">Upload documents from the Upload tab</p>
                     </div>
                   ) : (
                     <div className="space-y-4">
-                      {documents.map((doc) => (
+                      {visibleDocuments.map((doc) => (
                         <div key={doc.id} className="border border-border rounded-lg p-4 hover:bg-muted/30 transition-colors">
                           <div className="flex items-start justify-between">
                             <div className="flex items-start gap-4">
@@ -116,7 +260,21 @@ const Documents = () => {
                                 <FileText className="h-5 w-5 text-primary" />
                               </div>
                               <div className="space-y-1">
-                                <h3 className="font-medium text-foreground">{doc.fileName}</h3>
+                                <h3 className="font-medium text-foreground">
+                                  {doc.indexNumber && (
+                                    <span className="font-mono text-muted-foreground mr-2">{doc.indexNumber}</span>
+                                  )}
+                                  {doc.fileName}
+                                  {(doc.versionNumber || 1) > 1 && (
+                                    <Badge variant="secondary" className="ml-2">v{doc.versionNumber}</Badge>
+                                  )}
+                                </h3>
+                                {doc.folderPath && (
+                                  <p className="flex items-center gap-1 text-small text-muted-foreground">
+                                    <Folder className="h-3 w-3" />
+                                    {doc.folderPath.split('/').join(' / ')}
+                                  </p>
+                                )}
                                 <p className="text-body-sm text-muted-foreground">
                                   {doc.rawText ? doc.rawText.substring(0, 100) + '...' : 'No preview available'}
                                 </p>
@@ -133,11 +291,61 @@ const Documents = () => {
                                   <span className="px-2 py-0.5 bg-muted rounded text-xs font-medium">
                                     {doc.documentType}
                                   </span>
+                                  <Select
+                                    value={doc.category || NO_CATEGORY}
+                                    onValueChange={(value) => handleCategoryChange(doc, value)}
+                                    disabled={readOnly}
+                                  >
+                                    <SelectTrigger className="h-6 w-40 text-xs" title="Category">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                                      {Object.values(QuestionCategory).map((category) => (
+                                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                   {getProcessingStatusBadge('completed')}
                                 </div>
                               </div>
                             </div>
                             <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Upload new version"
+                                onClick={() => handleSelectNewVersion(doc)}
+                                disabled={!currentUser || readOnly}
+                              >
+                                <FileUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Version history"
+                                onClick={() => setHistoryDocument(doc)}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Rename"
+                                onClick={() => setDialog({ kind: 'rename-document', document: doc })}
+                                disabled={readOnly}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Move to folder"
+                                onClick={() => setDialog({ kind: 'move-document', document: doc })}
+                                disabled={readOnly}
+                              >
+                                <FolderInput className="h-4 w-4" />
+                              </Button>
                               <Button
                                 size="sm"
                                 variant="ghost"
@@ -159,9 +367,56 @@ const Documents = () => {
                       ))}
                     </div>
                   )}
+                  </div>
                 </CardContent>
               </Card>
             )}
+
+            {activeProject && (
+              <>
+                <NameDialog
+                  isOpen={dialog?.kind === 'create-folder' || dialog?.kind === 'rename-folder' || dialog?.kind === 'rename-document'}
+                  title={dialog?.kind === 'create-folder' ? 'New Folder' : dialog?.kind === 'rename-folder' ? 'Rename Folder' : 'Rename Document'}
+                  description={dialog?.kind === 'rename-document'
+                    ? 'The file extension is kept when you leave it out.'
+                    : 'Folders are numbered automatically by their position in the data room.'}
+                  label={dialog?.kind === 'rename-document' ? 'File name' : 'Folder name'}
+                  initialValue={dialog?.kind === 'rename-folder' ? dialog.folder.name : dialog?.kind === 'rename-document' ? dialog.document.fileName : ''}
+                  submitLabel={dialog?.kind === 'create-folder' ? 'Create' : 'Rename'}
+                  onSubmit={async (name) => {
+                    if (dialog?.kind === 'create-folder') return createFolder(activeProject.id, name, dialog.parentId)
+                    if (dialog?.kind === 'rename-folder') return renameFolder(activeProject.id, dialog.folder.id, name)
+                    if (dialog?.kind === 'rename-document') return renameDocument(activeProject.id, dialog.document.id, name)
+                    return { success: false }
+                  }}
+                  onClose={() => setDialog(null)}
+                />
+                <input
+                  ref={versionInputRef}
+                  type="file"
+                  className="hidden"
+                  onChange={handleNewVersionFile}
+                />
+                <DocumentVersionsDialog
+                  document={historyDocument}
+                  loadVersions={getVersions}
+                  onClose={() => setHistoryDocument(null)}
+                />
+                <MoveDialog
+                  isOpen={dialog?.kind === 'move-folder' || dialog?.kind === 'move-document'}
+                  itemName={dialog?.kind === 'move-folder' ? dialog.folder.name : dialog?.kind === 'move-document' ? dialog.document.fileName : ''}
+                  currentFolderId={dialog?.kind === 'move-folder' ? dialog.folder.parentId : dialog?.kind === 'move-document' ? dialog.document.folderId || null : null}
+                  folders={tree.folders}
+                  excludeFolderId={dialog?.kind === 'move-folder' ? dialog.folder.id : undefined}
+                  onSubmit={async (folderId) => {
+                    if (dialog?.kind === 'move-folder') return moveFolder(activeProject.id, dialog.folder.id, folderId)
+                    if (dialog?.kind === 'move-document') return moveDocument(activeProject.id, dialog.document.id, folderId)
+                    return { success: false }
+                  }}
+                  onClose={() => setDialog(null)}
+                />
+              </>
+            )}
           </main>
         </div>
       </div>
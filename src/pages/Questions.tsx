@@ -16,10 +16,18 @@ import { QuestionForm } from "@/components/QuestionForm";
 import { QuestionList } from "@/components/QuestionList";
 import { DocumentUpload } from "@/components/DocumentUpload";
 import { DocumentList } from "@/components/DocumentList";
+import { DuplicateUploadDialog } from "@/components/DuplicateUploadDialog";
+import { QuestionColumnsDialog } from "@/components/QuestionColumnsDialog";
+import { SearchScopePicker } from "@/components/SearchScopePicker";
+import { ArchivedProjectNotice } from "@/components/ArchivedProjectNotice";
+import { SearchFilters } from "@/lib/answer";
 import { Question, QuestionCategory, Stakeholder } from "@/lib/services/question/types";
 import { useActiveProject, useProjects } from "@/hooks/useStorage";
 import { useQuestionService } from "@/hooks/useQuestionService";
 import { useDocumentService } from "@/hooks/useDocumentService";
+import { useDuplicateResolver } from "@/hooks/useDuplicateResolver";
+import { isArchiveFile, QuestionColumnMapping } from "@/lib/services/document";
+import { Document } from "@/lib/types";
 import { useQuestionAnalyzer } from "@/hooks/useQuestionAnalyzer";
 import { useUserContext } from "@/contexts/UserContext";
 import { useToast } from "@/hooks/use-toast";
@@ -31,8 +39,11 @@ export default function Questions() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("questions");
   const [questionStatusTab, setQuestionStatusTab] = useState("all");
+  const [analysisScope, setAnalysisScope] = useState<SearchFilters>({});
+  const [mappingDocument, setMappingDocument] = useState<Document | null>(null);
   
   const { activeProject, setActive } = useActiveProject();
+  const readOnly = !!activeProject?.archivedAt;
   const { data: projects, create: createProject } = useProjects();
   const { currentUser } = useUserContext();
   const { toast } = useToast();
@@ -58,18 +69,22 @@ export default function Questions() {
   
   const {
     documents,
+    folders,
     loading: documentsLoading,
     error: documentsError,
     loadDocuments,
     uploadDocument,
+    uploadArchive,
     deleteDocument,
     getDocumentStats,
     processDocument,
     getDocumentsByProcessingStatus
   } = useDocumentService();
+  const { pending: pendingDuplicate, resolveDuplicate, respond: respondToDuplicate, reset: resetDuplicates } = useDuplicateResolver();
   
-  // Load documents when project changes
+  // Load documents when project changes; a scope only applies to its own project's folders
   useEffect(() => {
+    setAnalysisScope({});
     if (activeProject?.id) {
       loadDocuments(activeProject.id);
     }
@@ -152,8 +167,23 @@ export default function Questions() {
       return;
     }
 
+    let skipped = 0;
     for (const file of files) {
-      await uploadDocument(file, currentUser.id, activeProject.id);
+      if (isArchiveFile(file.name)) {
+        const result = await uploadArchive(file, currentUser.id, activeProject.id, resolveDuplicate);
+        skipped += result.skipped?.length || 0;
+      } else {
+        const result = await uploadDocument(file, currentUser.id, activeProject.id, resolveDuplicate);
+        if (result.duplicate?.resolution === 'skip') skipped++;
+      }
+    }
+    resetDuplicates();
+
+    if (skipped > 0) {
+      toast({
+        title: "Duplicates Skipped",
+        description: `${skipped} duplicate file(s) were not uploaded.`,
+      });
     }
   };
 
@@ -171,13 +201,35 @@ export default function Questions() {
       return;
     }
 
+    // Request lists are read with columns the user has confirmed
+    const document = documents.find(doc => doc.id === documentId);
+    if (document?.sheets) {
+      setMappingDocument(document);
+      return;
+    }
+
+    await createQuestionsFromDocument(documentId);
+  };
+
+  const handleConfirmColumns = async (columnMapping: QuestionColumnMapping) => {
+    const documentId = mappingDocument?.id;
+    setMappingDocument(null);
+    if (documentId) {
+      await createQuestionsFromDocument(documentId, columnMapping);
+    }
+  };
+
+  const createQuestionsFromDocument = async (documentId: string, columnMapping?: QuestionColumnMapping) => {
+    if (!currentUser?.id || !activeProject?.id) return;
+
     try {
-      const result = await processDocument(documentId);
+      const result = await processDocument(documentId, columnMapping);
       
       if (result.success && result.questions) {
         // Add parsed questions to the active project
         for (const parsedQuestion of result.questions) {
           await createQuestion({
+            number: parsedQuestion.number,
             content: parsedQuestion.content,
             category: parsedQuestion.category,
             stakeholder: parsedQuestion.stakeholder,
@@ -242,7 +294,7 @@ export default function Questions() {
     }
 
     try {
-      const result = await analyzeQuestion(question, activeProject.id);
+      const result = await analyzeQuestion(question, activeProject.id, analysisScope);
       toast({
         title: "Analysis Complete",
         description: result.isAnswered 
@@ -277,7 +329,7 @@ export default function Questions() {
     }
 
     try {
-      const result = await analyzeQuestions(unansweredQuestions, activeProject.id);
+      const result = await analyzeQuestions(unansweredQuestions, activeProject.id, analysisScope);
       toast({
         title: "Bulk Analysis Complete",
         description: `Analyzed ${result.totalAnalyzed} questions. Found answers for ${result.answeredCount} questions.`,
@@ -323,8 +375,18 @@ export default function Questions() {
                   Refresh Answers
                 </Button>
 
+                {/* Documents searched by analyses */}
+                {activeProject && (
+                  <SearchScopePicker
+                    folders={folders}
+                    value={analysisScope}
+                    onChange={setAnalysisScope}
+                    disabled={analyzing}
+                  />
+                )}
+
                 {/* Analyze All Unanswered Button */}
-                {activeProject && unansweredQuestions.length > 0 && (
+                {activeProject && !readOnly && unansweredQuestions.length > 0 && (
                   <Button 
                     variant="outline" 
                     onClick={handleAnalyzeAllUnanswered}
@@ -341,7 +403,7 @@ export default function Questions() {
                 )}
 
                 {/* Delete All Questions Button */}
-                {activeProject && stats.total > 0 && (
+                {activeProject && !readOnly && stats.total > 0 && (
                   <AlertDialog>
                     <AlertDialogTrigger asChild>
                       <Button variant="outline" className="text-slate-500 hover:text-slate-700 hover:bg-slate-50">
@@ -379,15 +441,15 @@ export default function Questions() {
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <DialogTrigger asChild>
-                          <Button disabled={!activeProject}>
+                          <Button disabled={!activeProject || readOnly}>
                             <Plus className="h-4 w-4 mr-2" />
                             New Question
                           </Button>
                         </DialogTrigger>
                       </TooltipTrigger>
-                      {!activeProject && (
+                      {(!activeProject || readOnly) && (
                         <TooltipContent>
-                          <p>Please select a project first</p>
+                          <p>{readOnly ? 'Archived projects are read-only' : 'Please select a project first'}</p>
                         </TooltipContent>
                       )}
                     </Tooltip>
@@ -402,6 +464,8 @@ export default function Questions() {
               </div>
             </div>
 
+            {activeProject?.archivedAt && <ArchivedProjectNotice project={activeProject} />}
+
             {/* Statistics - Minimalistic */}
             {activeProject && (
               <div className="flex items-center gap-6 text-sm text-muted-foreground border-b pb-4">
@@ -494,40 +558,49 @@ export default function Questions() {
                         </p>
                       </div>
                     )}
-                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={handleAnalyzeQuestion} analyzing={analyzing} />
+                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={readOnly ? undefined : handleAnalyzeQuestion} analyzing={analyzing} readOnly={readOnly} />
                   </TabsContent>
 
                   <TabsContent value="answered" className="space-y-4">
-                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={handleAnalyzeQuestion} analyzing={analyzing} />
+                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={readOnly ? undefined : handleAnalyzeQuestion} analyzing={analyzing} readOnly={readOnly} />
                   </TabsContent>
 
                   <TabsContent value="unanswered" className="space-y-4">
-                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={handleAnalyzeQuestion} analyzing={analyzing} />
+                    <QuestionList questions={filteredQuestions} onAnalyzeQuestion={readOnly ? undefined : handleAnalyzeQuestion} analyzing={analyzing} readOnly={readOnly} />
                   </TabsContent>
                 </Tabs>
               </TabsContent>
 
               <TabsContent value="documents" className="space-y-6">
                 {/* Document Upload */}
-                <DocumentUpload
-                  onUpload={handleUploadDocuments}
-                  loading={documentsLoading}
-                  error={documentsError}
-                />
+                {!readOnly && (
+                  <DocumentUpload
+                    onUpload={handleUploadDocuments}
+                    loading={documentsLoading}
+                    error={documentsError}
+                  />
+                )}
 
                 {/* Document List */}
                 <DocumentList
                   documents={documents}
                   loading={documentsLoading}
                   error={documentsError}
-                  onDelete={handleDeleteDocument}
-                  onProcess={handleProcessDocument}
+                  onDelete={readOnly ? undefined : handleDeleteDocument}
+                  onProcess={readOnly ? undefined : handleProcessDocument}
                 />
               </TabsContent>
             </Tabs>
           </main>
         </div>
       </div>
+
+      <DuplicateUploadDialog pending={pendingDuplicate} onRespond={respondToDuplicate} />
+      <QuestionColumnsDialog
+        document={mappingDocument}
+        onConfirm={handleConfirmColumns}
+        onCancel={() => setMappingDocument(null)}
+      />
     </SidebarProvider>
   );
 }
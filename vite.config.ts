@@ -1,15 +1,39 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Tesseract's worker script, wasm cores and English language data, served from /tesseract so OCR
+// loads nothing from a CDN. Only the LSTM cores are copied, the engine mode OCR runs in.
+const OCR_ASSETS: [string, string][] = [
+  ["tesseract.js/dist/worker.min.js", "worker.min.js"],
+  ["tesseract.js-core/tesseract-core-lstm.wasm.js", "core/tesseract-core-lstm.wasm.js"],
+  ["tesseract.js-core/tesseract-core-simd-lstm.wasm.js", "core/tesseract-core-simd-lstm.wasm.js"],
+  ["@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz", "lang/eng.traineddata.gz"],
+];
+
+// Copy the OCR assets into public/ when the dev server or a build starts
+function copyOcrAssets(): Plugin {
+  return {
+    name: "copy-ocr-assets",
+    buildStart() {
+      for (const [source, target] of OCR_ASSETS) {
+        const destination = path.resolve(__dirname, "public/tesseract", target);
+        fs.mkdirSync(path.dirname(destination), { recursive: true });
+        fs.copyFileSync(path.resolve(__dirname, "node_modules", source), destination);
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [copyOcrAssets(), react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),